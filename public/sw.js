@@ -0,0 +1,94 @@
+// Service worker: background expiry reminders delivered via Web Push, and an
+// app-shell cache so the inventory still opens without a connection
+
+const SHELL_CACHE = 'expiry-tracker-shell-v1';
+
+self.addEventListener('install', () => {
+  self.skipWaiting();
+});
+
+self.addEventListener('activate', (event) => {
+  event.waitUntil(
+    caches.keys()
+      .then((keys) => Promise.all(keys.filter((key) => key !== SHELL_CACHE).map((key) => caches.delete(key))))
+      .then(() => self.clients.claim())
+  );
+});
+
+// Build output under /assets/ has hashed names, so a cached copy never goes stale
+const isStaticAsset = (url) =>
+  url.pathname.startsWith('/assets/') || ['/favicon.ico', '/placeholder.svg'].includes(url.pathname);
+
+const cacheResponse = (key, response) => {
+  if (!response.ok) return;
+  const copy = response.clone();
+  caches.open(SHELL_CACHE).then((cache) => cache.put(key, copy));
+};
+
+// Only the app shell and static assets are cached. Everything else, including
+// Supabase API calls (the app caches data in IndexedDB), goes straight to the network.
+self.addEventListener('fetch', (event) => {
+  const request = event.request;
+  const url = new URL(request.url);
+  if (request.method !== 'GET' || url.origin !== self.location.origin) return;
+
+  // Network first for pages; client-side routes all serve the same index.html
+  if (request.mode === 'navigate') {
+    event.respondWith(
+      fetch(request)
+        .then((response) => {
+          cacheResponse('/', response);
+          return response;
+        })
+        .catch(async () => (await caches.match('/')) || Response.error())
+    );
+    return;
+  }
+
+  if (!isStaticAsset(url)) return;
+  event.respondWith(
+    caches.match(request).then((cached) =>
+      cached ||
+      fetch(request).then((response) => {
+        cacheResponse(request, response);
+        return response;
+      })
+    )
+  );
+});
+
+self.addEventListener('push', (event) => {
+  let payload = {};
+  try {
+    payload = event.data ? event.data.json() : {};
+  } catch {
+    payload = { body: event.data ? event.data.text() : '' };
+  }
+
+  const title = payload.title || 'Expiry Tracker';
+  event.waitUntil(
+    self.registration.showNotification(title, {
+      body: payload.body || '',
+      icon: '/favicon.ico',
+      badge: '/favicon.ico',
+      tag: payload.tag,
+      data: { url: payload.url || '/' },
+    })
+  );
+});
+
+self.addEventListener('notificationclick', (event) => {
+  event.notification.close();
+  const url = (event.notification.data && event.notification.data.url) || '/';
+
+  event.waitUntil(
+    self.clients.matchAll({ type: 'window', includeUncontrolled: true }).then((clients) => {
+      const existing = clients.find((client) => new URL(client.url).origin === self.location.origin);
+      if (existing) {
+        existing.navigate(url);
+        return existing.focus();
+      }
+      return self.clients.openWindow(url);
+    })
+  );
+});
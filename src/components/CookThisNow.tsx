@@ -0,0 +1,122 @@
+import { useMemo, useState } from 'react';
+import { ChefHat, Clock, Check, Loader2 } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { rankRecipes, RecipeMatch } from '@/utils/recipes';
+
+interface FoodItem {
+  id: string;
+  name: string;
+  category: string;
+  purchase_date: string;
+  expiry_date: string;
+  quantity: number;
+  is_consumed: boolean;
+  freeze_state?: string;
+  kind?: string;
+}
+
+interface CookThisNowProps {
+  items: FoodItem[];
+  onCooked: (match: RecipeMatch<FoodItem>) => Promise<void>;
+  readOnly?: boolean;
+}
+
+const SHOWN = 3;
+
+export const CookThisNow = ({ items, onCooked, readOnly = false }: CookThisNowProps) => {
+  const [showAll, setShowAll] = useState(false);
+  const [cookingId, setCookingId] = useState<string | null>(null);
+  const matches = useMemo(() => rankRecipes(items), [items]);
+
+  if (matches.length === 0) return null;
+
+  const handleCooked = async (match: RecipeMatch<FoodItem>) => {
+    setCookingId(match.recipe.id);
+    try {
+      await onCooked(match);
+    } finally {
+      setCookingId(null);
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader className="pb-2">
+        <CardTitle className="text-lg flex items-center gap-2">
+          <ChefHat className="w-5 h-5" />
+          Cook This Now
+        </CardTitle>
+        <p className="text-sm text-muted-foreground">
+          Recipes that use up what's about to expire.
+        </p>
+      </CardHeader>
+      <CardContent className="space-y-3">
+        <div className="grid grid-cols-1 md:grid-cols-3 gap-3">
+          {(showAll ? matches : matches.slice(0, SHOWN)).map(match => (
+            <div key={match.recipe.id} className="rounded-lg border p-3 flex flex-col gap-3">
+              <div>
+                <div className="flex items-start justify-between gap-2">
+                  <h3 className="font-semibold">{match.recipe.name}</h3>
+                  <Badge variant="secondary" className="shrink-0">{match.recipe.cuisine}</Badge>
+                </div>
+                <p className="text-xs text-muted-foreground flex items-center gap-1 mt-1">
+                  <Clock className="w-3 h-3" />
+                  {match.recipe.minutes} min · uses {match.expiringCount} expiring item{match.expiringCount > 1 ? 's' : ''}
+                </p>
+              </div>
+
+              <div className="flex flex-wrap gap-1">
+                {match.ingredients.map(({ ingredient, item, expiringSoon }) => (
+                  <Badge
+                    key={ingredient.name}
+                    variant="outline"
+                    className={
+                      expiringSoon
+                        ? 'border-orange-400 bg-orange-50 text-orange-700 dark:bg-orange-950/30 dark:text-orange-300'
+                        : item
+                        ? 'border-green-400 text-green-700 dark:text-green-300'
+                        : 'text-muted-foreground border-dashed'
+                    }
+                    title={item ? item.name : ingredient.optional ? 'Optional, not in stock' : 'Not in stock'}
+                  >
+                    {ingredient.name}
+                    {!item && ingredient.optional && ' (optional)'}
+                  </Badge>
+                ))}
+              </div>
+
+              {match.missing.length > 0 && (
+                <p className="text-xs text-muted-foreground">
+                  You'll also need {match.missing.map(ingredient => ingredient.name.toLowerCase()).join(', ')}.
+                </p>
+              )}
+
+              {!readOnly && (
+                <Button
+                  size="sm"
+                  variant="outline"
+                  className="mt-auto"
+                  onClick={() => handleCooked(match)}
+                  disabled={cookingId !== null}
+                >
+                  {cookingId === match.recipe.id
+                    ? <Loader2 className="w-4 h-4 mr-2 animate-spin" />
+                    : <Check className="w-4 h-4 mr-2" />}
+                  I cooked this
+                </Button>
+              )}
+            </div>
+          ))}
+        </div>
+
+        {matches.length > SHOWN && (
+          <Button variant="ghost" size="sm" onClick={() => setShowAll(!showAll)}>
+            {showAll ? 'Show fewer' : `Show ${matches.length - SHOWN} more`}
+          </Button>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
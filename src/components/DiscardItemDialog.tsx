@@ -0,0 +1,118 @@
+import { useState } from 'react';
+import { differenceInDays } from 'date-fns';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { WASTE_REASON_LABELS, WasteReason } from '@/utils/waste';
+import { DEFAULT_CURRENCY, parsePrice } from '@/utils/money';
+
+interface DiscardItemDialogProps {
+  item: {
+    id: string;
+    name: string;
+    expiry_date: string;
+    quantity: number;
+    unit_price?: number | null;
+    currency?: string;
+  };
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  onDiscard: (id: string, amount: number, reason: WasteReason, estimatedCost: number | null) => void;
+}
+
+// Mounted only while the dialog is open, so every opening starts from a fresh form
+const DiscardForm = ({ item, onOpenChange, onDiscard }: Omit<DiscardItemDialogProps, 'open'>) => {
+  const isExpired = differenceInDays(new Date(item.expiry_date), new Date()) < 0;
+  const [reason, setReason] = useState<WasteReason>(isExpired ? 'expired' : 'spoiled');
+  const [amount, setAmount] = useState(item.quantity);
+  // Left empty to go by the item's price; filled in only to override it
+  const [estimatedCost, setEstimatedCost] = useState('');
+  const priceEstimate = item.unit_price != null ? (item.unit_price * Math.max(amount, 0)).toFixed(2) : '';
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    const discarded = Math.min(Math.max(Math.floor(amount), 1), item.quantity);
+    const cost = estimatedCost.trim() === ''
+      ? item.unit_price != null ? parsePrice(item.unit_price * discarded) : null
+      : parsePrice(estimatedCost);
+    onDiscard(item.id, discarded, reason, cost);
+    onOpenChange(false);
+  };
+
+  return (
+    <form onSubmit={handleSubmit} className="space-y-4">
+      <DialogHeader>
+        <DialogTitle>Discard {item.name}</DialogTitle>
+        <DialogDescription>
+          Logging what gets thrown away helps you spot patterns and waste less.
+        </DialogDescription>
+      </DialogHeader>
+
+      <div className="space-y-2">
+        <Label>Reason</Label>
+        <Select value={reason} onValueChange={(value) => setReason(value as WasteReason)}>
+          <SelectTrigger>
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {(Object.keys(WASTE_REASON_LABELS) as WasteReason[]).map(key => (
+              <SelectItem key={key} value={key}>{WASTE_REASON_LABELS[key]}</SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      </div>
+
+      <div className="grid grid-cols-2 gap-4">
+        <div className="space-y-2">
+          <Label htmlFor={`discard-amount-${item.id}`}>Quantity</Label>
+          <Input
+            id={`discard-amount-${item.id}`}
+            type="number"
+            min={1}
+            max={item.quantity}
+            value={amount}
+            onChange={(e) => setAmount(Number(e.target.value))}
+          />
+        </div>
+        <div className="space-y-2">
+          <Label htmlFor={`discard-cost-${item.id}`}>Estimated cost ({item.currency || DEFAULT_CURRENCY})</Label>
+          <Input
+            id={`discard-cost-${item.id}`}
+            type="number"
+            min={0}
+            step="0.01"
+            placeholder={priceEstimate || 'Optional'}
+            value={estimatedCost}
+            onChange={(e) => setEstimatedCost(e.target.value)}
+          />
+        </div>
+      </div>
+
+      <DialogFooter>
+        <Button type="button" variant="outline" onClick={() => onOpenChange(false)}>
+          Cancel
+        </Button>
+        <Button type="submit" variant="destructive">
+          Discard
+        </Button>
+      </DialogFooter>
+    </form>
+  );
+};
+
+export const DiscardItemDialog = ({ item, open, onOpenChange, onDiscard }: DiscardItemDialogProps) => (
+  <Dialog open={open} onOpenChange={onOpenChange}>
+    <DialogContent className="sm:max-w-md">
+      <DiscardForm item={item} onOpenChange={onOpenChange} onDiscard={onDiscard} />
+    </DialogContent>
+  </Dialog>
+);
@@ -2,7 +2,9 @@ import { useMemo } from 'react';
 import { differenceInDays, format, subMonths, startOfMonth, endOfMonth, eachMonthOfInterval } from 'date-fns';
 import { PieChart, Pie, Cell, BarChart, Bar, LineChart, Line, XAxis, YAxis, CartesianGrid, Tooltip, Legend, ResponsiveContainer } from 'recharts';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
-import { TrendingUp, PieChart as PieIcon, BarChart3 } from 'lucide-react';
+import { TrendingUp, PieChart as PieIcon, BarChart3, Wallet, CookingPot } from 'lucide-react';
+import { addMoney, formatMoney, MoneyTotals, primaryCurrency } from '@/utils/money';
+import { ItemKind, LEFTOVER_CATEGORY } from '@/utils/leftovers';
 
 interface FoodItem {
   id: string;
@@ -12,10 +14,28 @@ interface FoodItem {
   expiry_date: string;
   quantity: number;
   is_consumed: boolean;
+  kind?: ItemKind;
+}
+
+interface ConsumptionEvent {
+  food_item_id: string | null;
+  category?: string | null;
+  amount: number;
+  consumed_at: string;
+}
+
+interface WasteEvent {
+  amount: number;
+  category: string | null;
+  estimated_cost: number | null;
+  currency: string;
+  discarded_at: string;
 }
 
 interface ExpiryChartsProps {
   items: FoodItem[];
+  consumptionEvents?: ConsumptionEvent[];
+  wasteEvents?: WasteEvent[];
 }
 
 const COLORS = {
@@ -25,7 +45,7 @@ const COLORS = {
   expired: 'hsl(0, 84%, 60%)',
 };
 
-export const ExpiryCharts = ({ items }: ExpiryChartsProps) => {
+export const ExpiryCharts = ({ items, consumptionEvents = [], wasteEvents = [] }: ExpiryChartsProps) => {
   const today = new Date();
   const activeItems = items.filter(i => !i.is_consumed);
 
@@ -50,11 +70,11 @@ export const ExpiryCharts = ({ items }: ExpiryChartsProps) => {
     ].filter(d => d.value > 0);
   }, [activeItems]);
 
-  // Bar chart data - category breakdown
+  // Bar chart data - category breakdown; leftovers have their own section
   const barData = useMemo(() => {
     const categoryCount: Record<string, { total: number; expired: number; expiring: number; safe: number }> = {};
     
-    activeItems.forEach(item => {
+    activeItems.filter(item => item.kind !== 'leftover').forEach(item => {
       const cat = item.category || 'Other';
       if (!categoryCount[cat]) {
         categoryCount[cat] = { total: 0, expired: 0, expiring: 0, safe: 0 };
@@ -74,31 +94,46 @@ export const ExpiryCharts = ({ items }: ExpiryChartsProps) => {
       .slice(0, 6);
   }, [activeItems]);
 
-  // Line chart data - monthly trends (waste reduction)
+  // Line chart data - monthly trends (waste reduction), counted in units
   const lineData = useMemo(() => {
     const months = eachMonthOfInterval({
       start: subMonths(today, 5),
       end: today,
     });
 
+    const consumedByItem = new Map<string, number>();
+    consumptionEvents.forEach(event => {
+      if (!event.food_item_id) return;
+      consumedByItem.set(event.food_item_id, (consumedByItem.get(event.food_item_id) || 0) + event.amount);
+    });
+
+    // Items marked consumed before usage was tracked have no events
+    const legacyConsumed = items.filter(i => i.is_consumed && !consumedByItem.has(i.id));
+
     return months.map(month => {
       const monthStart = startOfMonth(month);
       const monthEnd = endOfMonth(month);
-      
-      const consumed = items.filter(i => {
-        const purchaseDate = new Date(i.purchase_date);
-        return i.is_consumed && purchaseDate >= monthStart && purchaseDate <= monthEnd;
-      }).length;
+      const inMonth = (date: string) => {
+        const d = new Date(date);
+        return d >= monthStart && d <= monthEnd;
+      };
 
-      const wasted = items.filter(i => {
-        const expiryDate = new Date(i.expiry_date);
-        return !i.is_consumed && expiryDate >= monthStart && expiryDate <= monthEnd && expiryDate < today;
-      }).length;
+      const consumed =
+        consumptionEvents
+          .filter(e => inMonth(e.consumed_at))
+          .reduce((sum, e) => sum + e.amount, 0) +
+        legacyConsumed
+          .filter(i => inMonth(i.purchase_date))
+          .reduce((sum, i) => sum + (i.quantity || 0), 0);
 
-      const added = items.filter(i => {
-        const purchaseDate = new Date(i.purchase_date);
-        return purchaseDate >= monthStart && purchaseDate <= monthEnd;
-      }).length;
+      const wasted = wasteEvents
+        .filter(e => inMonth(e.discarded_at))
+        .reduce((sum, e) => sum + e.amount, 0);
+
+      // What is left now plus what has been used up is what was bought
+      const added = items
+        .filter(i => inMonth(i.purchase_date))
+        .reduce((sum, i) => sum + (i.quantity || 0) + (consumedByItem.get(i.id) || 0), 0);
 
       return {
         month: format(month, 'MMM'),
@@ -107,7 +142,78 @@ export const ExpiryCharts = ({ items }: ExpiryChartsProps) => {
         added,
       };
     });
-  }, [items]);
+  }, [items, consumptionEvents, wasteEvents]);
+
+  // Money wasted per month and per category, in the currency most waste is logged in
+  const wasteCost = useMemo(() => {
+    const totals = wasteEvents.reduce<MoneyTotals>((acc, e) => addMoney(acc, e.estimated_cost, e.currency), {});
+    const currency = primaryCurrency(totals);
+    const costed = wasteEvents.filter(e => e.estimated_cost && e.currency === currency);
+
+    const byMonth = eachMonthOfInterval({ start: subMonths(today, 5), end: today }).map(month => {
+      const monthStart = startOfMonth(month);
+      const monthEnd = endOfMonth(month);
+      const cost = costed
+        .filter(e => {
+          const d = new Date(e.discarded_at);
+          return d >= monthStart && d <= monthEnd;
+        })
+        .reduce((sum, e) => sum + (e.estimated_cost || 0), 0);
+      return { month: format(month, 'MMM'), cost: Math.round(cost * 100) / 100 };
+    });
+
+    const categoryCost: Record<string, number> = {};
+    costed.forEach(e => {
+      const cat = e.category || 'Other';
+      categoryCost[cat] = (categoryCost[cat] || 0) + (e.estimated_cost || 0);
+    });
+    const byCategory = Object.entries(categoryCost)
+      .map(([name, cost]) => ({ name, cost: Math.round(cost * 100) / 100 }))
+      .sort((a, b) => b.cost - a.cost)
+      .slice(0, 6);
+
+    return { currency, byMonth, byCategory, hasData: costed.length > 0 };
+  }, [wasteEvents]);
+
+  // Leftovers: what is in the fridge now, and portions cooked, eaten and binned per month
+  const leftovers = useMemo(() => {
+    const now = new Date();
+    const current = items
+      .filter(i => i.kind === 'leftover' && !i.is_consumed && i.quantity > 0)
+      .map(i => ({ id: i.id, name: i.name, portions: i.quantity, days: differenceInDays(new Date(i.expiry_date), now) }))
+      .sort((a, b) => a.days - b.days);
+
+    const leftoverItems = items.filter(i => i.kind === 'leftover');
+    const eatenByItem = new Map<string, number>();
+    consumptionEvents.forEach(event => {
+      if (event.category !== LEFTOVER_CATEGORY || !event.food_item_id) return;
+      eatenByItem.set(event.food_item_id, (eatenByItem.get(event.food_item_id) || 0) + event.amount);
+    });
+
+    const byMonth = eachMonthOfInterval({ start: subMonths(now, 5), end: now }).map(month => {
+      const monthStart = startOfMonth(month);
+      const monthEnd = endOfMonth(month);
+      const inMonth = (date: string) => {
+        const d = new Date(date);
+        return d >= monthStart && d <= monthEnd;
+      };
+
+      return {
+        month: format(month, 'MMM'),
+        cooked: leftoverItems
+          .filter(i => inMonth(i.purchase_date))
+          .reduce((sum, i) => sum + (i.quantity || 0) + (eatenByItem.get(i.id) || 0), 0),
+        eaten: consumptionEvents
+          .filter(e => e.category === LEFTOVER_CATEGORY && inMonth(e.consumed_at))
+          .reduce((sum, e) => sum + e.amount, 0),
+        binned: wasteEvents
+          .filter(e => e.category === LEFTOVER_CATEGORY && inMonth(e.discarded_at))
+          .reduce((sum, e) => sum + e.amount, 0),
+      };
+    });
+
+    return { current, byMonth, hasData: leftoverItems.length > 0 };
+  }, [items, consumptionEvents, wasteEvents]);
 
   if (items.length === 0) return null;
 
@@ -255,6 +361,121 @@ export const ExpiryCharts = ({ items }: ExpiryChartsProps) => {
           </ResponsiveContainer>
         </CardContent>
       </Card>
+
+      {/* Leftovers */}
+      {leftovers.hasData && (
+        <Card>
+          <CardHeader className="pb-2">
+            <CardTitle className="text-sm font-medium flex items-center gap-2">
+              <CookingPot className="w-4 h-4" />
+              Leftovers
+            </CardTitle>
+          </CardHeader>
+          <CardContent>
+            <div className="grid grid-cols-1 lg:grid-cols-2 gap-4">
+              <div className="space-y-2">
+                {leftovers.current.length > 0 ? (
+                  leftovers.current.map(leftover => (
+                    <div key={leftover.id} className="flex items-center justify-between rounded-lg bg-orange-50/60 dark:bg-orange-950/20 px-3 py-2 text-sm">
+                      <span className="font-medium truncate">{leftover.name}</span>
+                      <span className="text-muted-foreground shrink-0 ml-2">
+                        {leftover.portions} portion(s) ·{' '}
+                        <span
+                          style={{
+                            color: leftover.days < 0 ? COLORS.expired : leftover.days <= 1 ? COLORS.expiringWeek : COLORS.safe,
+                          }}
+                        >
+                          {leftover.days < 0 ? 'past eat-by' : leftover.days === 0 ? 'eat today' : `${leftover.days}d left`}
+                        </span>
+                      </span>
+                    </div>
+                  ))
+                ) : (
+                  <div className="h-[250px] flex items-center justify-center text-muted-foreground">
+                    No leftovers in the fridge
+                  </div>
+                )}
+              </div>
+              <ResponsiveContainer width="100%" height={250}>
+                <BarChart data={leftovers.byMonth}>
+                  <CartesianGrid strokeDasharray="3 3" stroke="hsl(var(--border))" />
+                  <XAxis dataKey="month" stroke="hsl(var(--muted-foreground))" fontSize={12} />
+                  <YAxis stroke="hsl(var(--muted-foreground))" fontSize={12} allowDecimals={false} />
+                  <Tooltip 
+                    contentStyle={{ 
+                      backgroundColor: 'hsl(var(--card))', 
+                      border: '1px solid hsl(var(--border))',
+                      borderRadius: '8px'
+                    }}
+                  />
+                  <Legend />
+                  <Bar dataKey="cooked" fill={COLORS.expiringMonth} name="Portions cooked" />
+                  <Bar dataKey="eaten" fill={COLORS.safe} name="Eaten" />
+                  <Bar dataKey="binned" fill={COLORS.expired} name="Binned" />
+                </BarChart>
+              </ResponsiveContainer>
+            </div>
+          </CardContent>
+        </Card>
+      )}
+
+      {/* Bar Charts - Money Wasted */}
+      <Card>
+        <CardHeader className="pb-2">
+          <CardTitle className="text-sm font-medium flex items-center gap-2">
+            <Wallet className="w-4 h-4" />
+            Money Wasted ({wasteCost.currency})
+          </CardTitle>
+        </CardHeader>
+        <CardContent>
+          {wasteCost.hasData ? (
+            <div className="grid grid-cols-1 lg:grid-cols-2 gap-4">
+              <ResponsiveContainer width="100%" height={250}>
+                <BarChart data={wasteCost.byMonth}>
+                  <CartesianGrid strokeDasharray="3 3" stroke="hsl(var(--border))" />
+                  <XAxis dataKey="month" stroke="hsl(var(--muted-foreground))" fontSize={12} />
+                  <YAxis stroke="hsl(var(--muted-foreground))" fontSize={12} />
+                  <Tooltip 
+                    formatter={(value: number) => formatMoney(value, wasteCost.currency)}
+                    contentStyle={{ 
+                      backgroundColor: 'hsl(var(--card))', 
+                      border: '1px solid hsl(var(--border))',
+                      borderRadius: '8px'
+                    }}
+                  />
+                  <Bar dataKey="cost" fill={COLORS.expired} name="Per month" />
+                </BarChart>
+              </ResponsiveContainer>
+              <ResponsiveContainer width="100%" height={250}>
+                <BarChart data={wasteCost.byCategory} layout="vertical">
+                  <CartesianGrid strokeDasharray="3 3" stroke="hsl(var(--border))" />
+                  <XAxis type="number" stroke="hsl(var(--muted-foreground))" fontSize={12} />
+                  <YAxis 
+                    dataKey="name" 
+                    type="category" 
+                    width={80} 
+                    stroke="hsl(var(--muted-foreground))" 
+                    fontSize={12}
+                  />
+                  <Tooltip 
+                    formatter={(value: number) => formatMoney(value, wasteCost.currency)}
+                    contentStyle={{ 
+                      backgroundColor: 'hsl(var(--card))', 
+                      border: '1px solid hsl(var(--border))',
+                      borderRadius: '8px'
+                    }}
+                  />
+                  <Bar dataKey="cost" fill={COLORS.expiringMonth} name="By category" />
+                </BarChart>
+              </ResponsiveContainer>
+            </div>
+          ) : (
+            <div className="h-[250px] flex items-center justify-center text-muted-foreground">
+              No waste costs logged yet
+            </div>
+          )}
+        </CardContent>
+      </Card>
     </div>
   );
 };
@@ -1,8 +1,18 @@
+import { useState } from 'react';
 import { format, differenceInDays } from 'date-fns';
-import { Trash2, Calendar, Package } from 'lucide-react';
+import { Trash2, Calendar, Package, Minus, ArchiveX, Wallet, Snowflake, Refrigerator, Archive, Droplets, History, PackageOpen, Hash, Tag, CookingPot, ChefHat } from 'lucide-react';
 import { Card } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
 import { Badge } from '@/components/ui/badge';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Popover, PopoverContent, PopoverTrigger } from '@/components/ui/popover';
+import { DiscardItemDialog } from '@/components/DiscardItemDialog';
+import type { WasteReason } from '@/utils/waste';
+import { formatMoney } from '@/utils/money';
+import { STORAGE_LOCATION_LABELS, StorageLocation } from '@/utils/storageLocation';
+import type { FreezeState } from '@/utils/freezeState';
+import type { ItemKind } from '@/utils/leftovers';
 
 interface FoodItem {
   id: string;
@@ -12,33 +22,108 @@ interface FoodItem {
   expiry_date: string;
   quantity: number;
   is_consumed: boolean;
+  unit_price?: number | null;
+  currency?: string;
+  storage_location?: StorageLocation;
+  freeze_state?: FreezeState;
+  frozen_at?: string | null;
+  thawed_at?: string | null;
+  opened_at?: string | null;
+  printed_expiry_date?: string | null;
+  lot_number?: string | null;
+  kind?: ItemKind;
 }
 
 interface FoodItemCardProps {
   item: FoodItem;
   onDelete: (id: string) => void;
   onToggleConsumed: (id: string, isConsumed: boolean) => void;
+  onConsume?: (id: string, amount: number) => void;
+  onDiscard?: (id: string, amount: number, reason: WasteReason, estimatedCost: number | null) => void;
+  onFreezeChange?: (id: string, state: 'frozen' | 'thawed') => void;
+  onShowHistory?: (id: string) => void;
+  onOpen?: (id: string) => void;
+  onPrintLabel?: (id: string) => void;
+  // Names of the items a leftover was cooked from
+  madeFrom?: string[];
+  // Set briefly after the item's label is scanned
+  highlighted?: boolean;
+  readOnly?: boolean;
 }
 
-export const FoodItemCard = ({ item, onDelete, onToggleConsumed }: FoodItemCardProps) => {
+const LOCATION_ICONS: Record<StorageLocation, typeof Snowflake> = {
+  fridge: Refrigerator,
+  freezer: Snowflake,
+  pantry: Archive,
+};
+
+export const FoodItemCard = ({
+  item,
+  onDelete,
+  onToggleConsumed,
+  onConsume,
+  onDiscard,
+  onFreezeChange,
+  onShowHistory,
+  onOpen,
+  onPrintLabel,
+  madeFrom = [],
+  highlighted = false,
+  readOnly = false,
+}: FoodItemCardProps) => {
+  const [useAmount, setUseAmount] = useState(1);
+  const [usePopoverOpen, setUsePopoverOpen] = useState(false);
+  const [discardOpen, setDiscardOpen] = useState(false);
   const daysUntilExpiry = differenceInDays(new Date(item.expiry_date), new Date());
+  const freezeState = item.freeze_state ?? 'fresh';
+  const isLeftover = item.kind === 'leftover';
   
+  // Frozen items have their clock paused, so they show no countdown until the freezer life runs out
   const getExpiryStatus = () => {
     if (item.is_consumed) return { label: 'Consumed', color: 'bg-muted text-muted-foreground' };
     if (daysUntilExpiry < 0) return { label: 'Expired', color: 'bg-destructive text-destructive-foreground' };
-    if (daysUntilExpiry === 0) return { label: 'Expires Today', color: 'bg-destructive text-destructive-foreground' };
-    if (daysUntilExpiry <= 2) return { label: `${daysUntilExpiry}d left`, color: 'bg-yellow-500 text-white' };
-    return { label: `${daysUntilExpiry}d left`, color: 'bg-primary text-primary-foreground' };
+    if (freezeState === 'frozen') return { label: 'Frozen', color: 'bg-sky-500 text-white' };
+    const prefix = freezeState === 'thawed' ? 'Thawed · ' : '';
+    if (daysUntilExpiry === 0) return { label: `${prefix}Expires Today`, color: 'bg-destructive text-destructive-foreground' };
+    if (daysUntilExpiry <= 2) return { label: `${prefix}${daysUntilExpiry}d left`, color: 'bg-yellow-500 text-white' };
+    return { label: `${prefix}${daysUntilExpiry}d left`, color: 'bg-primary text-primary-foreground' };
   };
 
   const status = getExpiryStatus();
+  const canUseSome = !!onConsume && !item.is_consumed && item.quantity > 1;
+  const canDiscard = !!onDiscard && !item.is_consumed && item.quantity > 0;
+  const location = item.storage_location ?? 'fridge';
+  const LocationIcon = LOCATION_ICONS[location];
+  // Thawed food isn't frozen a second time
+  const canFreeze = !!onFreezeChange && !item.is_consumed && freezeState === 'fresh';
+  const canThaw = !!onFreezeChange && !item.is_consumed && freezeState === 'frozen';
+  const canOpen = !!onOpen && !isLeftover && !item.is_consumed && !item.opened_at && freezeState !== 'frozen';
+
+  const handleUseSome = () => {
+    const amount = Math.min(Math.max(Math.floor(useAmount), 1), item.quantity);
+    onConsume?.(item.id, amount);
+    setUsePopoverOpen(false);
+    setUseAmount(1);
+  };
 
   return (
-    <Card className={`p-4 transition-all ${item.is_consumed ? 'opacity-50' : ''}`}>
+    <Card
+      id={`item-${item.id}`}
+      className={`p-4 transition-all ${item.is_consumed ? 'opacity-50' : ''} ${highlighted ? 'ring-2 ring-primary' : ''} ${
+        isLeftover ? 'border-l-4 border-l-orange-400 bg-orange-50/60 dark:bg-orange-950/20' : ''
+      }`}
+    >
       <div className="flex justify-between items-start mb-3">
         <div className="flex-1">
           <h3 className="font-semibold text-lg">{item.name}</h3>
-          <p className="text-sm text-muted-foreground">{item.category}</p>
+          {isLeftover ? (
+            <p className="text-sm text-orange-600 dark:text-orange-400 flex items-center gap-1">
+              <CookingPot className="w-3.5 h-3.5" />
+              Leftover · cooked {format(new Date(item.purchase_date), 'MMM dd')}
+            </p>
+          ) : (
+            <p className="text-sm text-muted-foreground">{item.category}</p>
+          )}
         </div>
         <Badge className={status.color}>{status.label}</Badge>
       </div>
@@ -46,31 +131,179 @@ export const FoodItemCard = ({ item, onDelete, onToggleConsumed }: FoodItemCardP
       <div className="space-y-2 text-sm">
         <div className="flex items-center gap-2 text-muted-foreground">
           <Package className="w-4 h-4" />
-          <span>Qty: {item.quantity}</span>
+          <span>{isLeftover ? 'Portions' : 'Qty'}: {item.quantity}</span>
         </div>
+        {isLeftover && madeFrom.length > 0 && (
+          <div className="flex items-center gap-2 text-muted-foreground">
+            <ChefHat className="w-4 h-4" />
+            <span className="truncate">Made from {madeFrom.join(', ')}</span>
+          </div>
+        )}
+        <div className="flex items-center gap-2 text-muted-foreground">
+          <LocationIcon className="w-4 h-4" />
+          <span>{STORAGE_LOCATION_LABELS[location]}</span>
+        </div>
+        {freezeState === 'frozen' && item.frozen_at && (
+          <div className="flex items-center gap-2 text-muted-foreground">
+            <Snowflake className="w-4 h-4" />
+            <span>Frozen {format(new Date(item.frozen_at), 'MMM dd, yyyy')}</span>
+          </div>
+        )}
+        {freezeState === 'thawed' && item.thawed_at && (
+          <div className="flex items-center gap-2 text-muted-foreground">
+            <Droplets className="w-4 h-4" />
+            <span>Thawed {format(new Date(item.thawed_at), 'MMM dd, yyyy')}</span>
+          </div>
+        )}
+        {item.lot_number && (
+          <div className="flex items-center gap-2 text-muted-foreground">
+            <Hash className="w-4 h-4" />
+            <span>Lot {item.lot_number}</span>
+          </div>
+        )}
+        {item.unit_price != null && (
+          <div className="flex items-center gap-2 text-muted-foreground">
+            <Wallet className="w-4 h-4" />
+            <span>{formatMoney(item.unit_price, item.currency)} each</span>
+          </div>
+        )}
         <div className="flex items-center gap-2 text-muted-foreground">
           <Calendar className="w-4 h-4" />
-          <span>Expires: {format(new Date(item.expiry_date), 'MMM dd, yyyy')}</span>
+          <span>
+            {freezeState === 'frozen' ? 'Keeps frozen until' : isLeftover ? 'Eat by' : 'Expires'}: {format(new Date(item.expiry_date), 'MMM dd, yyyy')}
+          </span>
         </div>
+        {item.opened_at && (
+          <div className="flex items-center gap-2 text-muted-foreground">
+            <PackageOpen className="w-4 h-4" />
+            <span>
+              Opened {format(new Date(item.opened_at), 'MMM dd, yyyy')}
+              {item.printed_expiry_date && item.printed_expiry_date !== item.expiry_date
+                && ` · printed date ${format(new Date(item.printed_expiry_date), 'MMM dd')}`}
+            </span>
+          </div>
+        )}
+        {onShowHistory && (
+          <button
+            type="button"
+            className="flex items-center gap-2 text-muted-foreground hover:text-foreground"
+            onClick={() => onShowHistory(item.id)}
+          >
+            <History className="w-4 h-4" />
+            <span className="underline-offset-2 hover:underline">History</span>
+          </button>
+        )}
       </div>
 
-      <div className="flex gap-2 mt-4">
-        <Button
-          variant="outline"
-          size="sm"
-          className="flex-1"
-          onClick={() => onToggleConsumed(item.id, !item.is_consumed)}
-        >
-          {item.is_consumed ? 'Mark Unconsumed' : 'Mark Consumed'}
-        </Button>
-        <Button
-          variant="destructive"
-          size="sm"
-          onClick={() => onDelete(item.id)}
-        >
-          <Trash2 className="w-4 h-4" />
-        </Button>
-      </div>
+      {!readOnly && (
+        <div className="flex gap-2 mt-4">
+          <Button
+            variant="outline"
+            size="sm"
+            className="flex-1"
+            onClick={() => onToggleConsumed(item.id, !item.is_consumed)}
+          >
+            {item.is_consumed ? 'Mark Unconsumed' : 'Mark Consumed'}
+          </Button>
+          {canUseSome && (
+            <Popover open={usePopoverOpen} onOpenChange={setUsePopoverOpen}>
+              <PopoverTrigger asChild>
+                <Button variant="outline" size="sm">
+                  <Minus className="w-4 h-4 mr-1" />
+                  {isLeftover ? 'Eat some' : 'Use some'}
+                </Button>
+              </PopoverTrigger>
+              <PopoverContent className="w-56">
+                <div className="space-y-3">
+                  <div className="space-y-1">
+                    <Label htmlFor={`use-${item.id}`}>
+                      {isLeftover ? 'How many portions did you eat?' : 'How many did you use?'}
+                    </Label>
+                    <Input
+                      id={`use-${item.id}`}
+                      type="number"
+                      min={1}
+                      max={item.quantity}
+                      value={useAmount}
+                      onChange={(e) => setUseAmount(Number(e.target.value))}
+                    />
+                  </div>
+                  <Button size="sm" className="w-full" onClick={handleUseSome}>
+                    Use
+                  </Button>
+                </div>
+              </PopoverContent>
+            </Popover>
+          )}
+          {canOpen && (
+            <Button
+              variant="outline"
+              size="sm"
+              title="Opened"
+              onClick={() => onOpen?.(item.id)}
+            >
+              <PackageOpen className="w-4 h-4" />
+            </Button>
+          )}
+          {canFreeze && (
+            <Button
+              variant="outline"
+              size="sm"
+              title="Freeze"
+              onClick={() => onFreezeChange?.(item.id, 'frozen')}
+            >
+              <Snowflake className="w-4 h-4" />
+            </Button>
+          )}
+          {canThaw && (
+            <Button
+              variant="outline"
+              size="sm"
+              title="Thaw"
+              onClick={() => onFreezeChange?.(item.id, 'thawed')}
+            >
+              <Droplets className="w-4 h-4" />
+            </Button>
+          )}
+          {onPrintLabel && !item.is_consumed && (
+            <Button
+              variant="outline"
+              size="sm"
+              title="Print label"
+              onClick={() => onPrintLabel(item.id)}
+            >
+              <Tag className="w-4 h-4" />
+            </Button>
+          )}
+          {canDiscard && (
+            <Button
+              variant="outline"
+              size="sm"
+              title="Discard"
+              onClick={() => setDiscardOpen(true)}
+            >
+              <ArchiveX className="w-4 h-4" />
+            </Button>
+          )}
+          <Button
+            variant="destructive"
+            size="sm"
+            title="Delete"
+            onClick={() => onDelete(item.id)}
+          >
+            <Trash2 className="w-4 h-4" />
+          </Button>
+        </div>
+      )}
+
+      {canDiscard && (
+        <DiscardItemDialog
+          item={item}
+          open={discardOpen}
+          onOpenChange={setDiscardOpen}
+          onDiscard={onDiscard}
+        />
+      )}
     </Card>
   );
 };
@@ -0,0 +1,315 @@
+import { useState } from 'react';
+import { User } from '@supabase/supabase-js';
+import { Home, Copy, UserPlus, LogOut, Trash2, Check, X } from 'lucide-react';
+import { supabase } from '@/integrations/supabase/client';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Badge } from '@/components/ui/badge';
+import { Separator } from '@/components/ui/separator';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { useToast } from '@/hooks/use-toast';
+import { useHousehold, HouseholdRole } from '@/hooks/use-household';
+
+interface HouseholdSettingsProps {
+  user: User;
+}
+
+const ROLE_LABELS: Record<HouseholdRole, string> = {
+  owner: 'Owner',
+  editor: 'Editor',
+  viewer: 'Viewer',
+};
+
+export const HouseholdSettings = ({ user }: HouseholdSettingsProps) => {
+  const {
+    household,
+    members,
+    sentInvites,
+    pendingInvites,
+    isOwner,
+    loading,
+    refresh,
+  } = useHousehold(user);
+  const { toast } = useToast();
+
+  const [newHouseholdName, setNewHouseholdName] = useState<string>(user.user_metadata?.household_name || '');
+  const [inviteCode, setInviteCode] = useState('');
+  const [inviteEmail, setInviteEmail] = useState('');
+  const [inviteRole, setInviteRole] = useState<HouseholdRole>('editor');
+  const [busy, setBusy] = useState(false);
+
+  // Runs a household mutation, reporting failures and reloading state afterwards
+  const run = async (action: () => PromiseLike<{ error: { message: string } | null }>, successTitle: string) => {
+    setBusy(true);
+    try {
+      const { error } = await action();
+      if (error) throw error;
+      toast({ title: successTitle });
+      await refresh();
+    } catch (error) {
+      toast({
+        title: 'Error',
+        description: (error as Error).message,
+        variant: 'destructive',
+      });
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const handleCreate = () =>
+    run(() => supabase.rpc('create_household', { _name: newHouseholdName }), 'Household created');
+
+  const handleJoin = () =>
+    run(() => supabase.rpc('join_household', { _invite_code: inviteCode }), 'Joined household');
+
+  const handleAcceptInvite = (inviteId: string) =>
+    run(() => supabase.rpc('accept_household_invite', { _invite_id: inviteId }), 'Invite accepted');
+
+  const handleDeleteInvite = (inviteId: string, title: string) =>
+    run(() => supabase.from('household_invites').delete().eq('id', inviteId), title);
+
+  const handleLeave = () => run(() => supabase.rpc('leave_household'), 'You left the household');
+
+  const handleSendInvite = async () => {
+    if (!household || !inviteEmail.trim()) return;
+    await run(
+      () =>
+        supabase.from('household_invites').insert({
+          household_id: household.id,
+          email: inviteEmail.trim().toLowerCase(),
+          role: inviteRole,
+          invited_by: user.id,
+        }),
+      'Invite sent',
+    );
+    setInviteEmail('');
+  };
+
+  const handleRoleChange = (memberId: string, role: HouseholdRole) =>
+    run(() => supabase.from('household_members').update({ role }).eq('id', memberId), 'Role updated');
+
+  const handleRemoveMember = (memberId: string) =>
+    run(() => supabase.from('household_members').delete().eq('id', memberId), 'Member removed');
+
+  const handleCopyCode = async () => {
+    if (!household) return;
+    await navigator.clipboard.writeText(household.invite_code);
+    toast({ title: 'Invite code copied' });
+  };
+
+  if (loading && !household) {
+    return null;
+  }
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <Home className="w-5 h-5" />
+          Household
+        </CardTitle>
+        <CardDescription>
+          Share one inventory with everyone in your home.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        {!household ? (
+          <>
+            {pendingInvites.length > 0 && (
+              <div className="space-y-3">
+                <Label className="text-base">Pending Invites</Label>
+                {pendingInvites.map((invite) => (
+                  <div key={invite.id} className="flex items-center justify-between rounded-lg border p-3">
+                    <div>
+                      <p className="font-medium">{invite.households?.name || 'Household'}</p>
+                      <p className="text-sm text-muted-foreground">Join as {ROLE_LABELS[invite.role]}</p>
+                    </div>
+                    <div className="flex gap-2">
+                      <Button size="sm" onClick={() => handleAcceptInvite(invite.id)} disabled={busy}>
+                        <Check className="w-4 h-4 mr-1" />
+                        Accept
+                      </Button>
+                      <Button
+                        size="sm"
+                        variant="outline"
+                        onClick={() => handleDeleteInvite(invite.id, 'Invite declined')}
+                        disabled={busy}
+                      >
+                        <X className="w-4 h-4" />
+                      </Button>
+                    </div>
+                  </div>
+                ))}
+                <Separator />
+              </div>
+            )}
+
+            <div className="space-y-2">
+              <Label htmlFor="newHouseholdName">Create a Household</Label>
+              <div className="flex gap-2">
+                <Input
+                  id="newHouseholdName"
+                  value={newHouseholdName}
+                  onChange={(e) => setNewHouseholdName(e.target.value)}
+                  placeholder="e.g., The Smith Family"
+                />
+                <Button onClick={handleCreate} disabled={busy}>
+                  Create
+                </Button>
+              </div>
+              <p className="text-xs text-muted-foreground">
+                Your existing items, list, par levels and rules will be moved into the new household.
+              </p>
+            </div>
+
+            <Separator />
+
+            <div className="space-y-2">
+              <Label htmlFor="inviteCode">Join with an Invite Code</Label>
+              <div className="flex gap-2">
+                <Input
+                  id="inviteCode"
+                  value={inviteCode}
+                  onChange={(e) => setInviteCode(e.target.value.toUpperCase())}
+                  placeholder="e.g., 4F9A2C1B"
+                  className="font-mono"
+                />
+                <Button variant="outline" onClick={handleJoin} disabled={busy || !inviteCode.trim()}>
+                  Join
+                </Button>
+              </div>
+            </div>
+          </>
+        ) : (
+          <>
+            <div className="flex items-center justify-between">
+              <div className="space-y-0.5">
+                <p className="font-semibold">{household.name}</p>
+                <p className="text-sm text-muted-foreground">
+                  {members.length} member{members.length === 1 ? '' : 's'}
+                </p>
+              </div>
+              <div className="flex items-center gap-2">
+                <code className="rounded bg-muted px-2 py-1 text-sm">{household.invite_code}</code>
+                <Button variant="outline" size="icon" onClick={handleCopyCode}>
+                  <Copy className="w-4 h-4" />
+                </Button>
+              </div>
+            </div>
+
+            <div className="space-y-3">
+              <Label className="text-base">Members</Label>
+              {members.map((member) => (
+                <div key={member.id} className="flex items-center justify-between gap-2">
+                  <div className="min-w-0">
+                    <p className="font-medium truncate">
+                      {member.display_name || member.email || 'Member'}
+                      {member.user_id === user.id && (
+                        <span className="text-muted-foreground font-normal"> (you)</span>
+                      )}
+                    </p>
+                    {member.display_name && member.email && (
+                      <p className="text-xs text-muted-foreground truncate">{member.email}</p>
+                    )}
+                  </div>
+                  {isOwner && member.user_id !== user.id ? (
+                    <div className="flex items-center gap-2">
+                      <Select
+                        value={member.role}
+                        onValueChange={(value) => handleRoleChange(member.id, value as HouseholdRole)}
+                      >
+                        <SelectTrigger className="w-28">
+                          <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent>
+                          <SelectItem value="owner">Owner</SelectItem>
+                          <SelectItem value="editor">Editor</SelectItem>
+                          <SelectItem value="viewer">Viewer</SelectItem>
+                        </SelectContent>
+                      </Select>
+                      <Button
+                        variant="ghost"
+                        size="icon"
+                        onClick={() => handleRemoveMember(member.id)}
+                        disabled={busy}
+                      >
+                        <Trash2 className="w-4 h-4" />
+                      </Button>
+                    </div>
+                  ) : (
+                    <Badge variant="outline">{ROLE_LABELS[member.role]}</Badge>
+                  )}
+                </div>
+              ))}
+            </div>
+
+            {isOwner && (
+              <>
+                <Separator />
+
+                <div className="space-y-2">
+                  <Label htmlFor="inviteEmail">Invite by Email</Label>
+                  <div className="flex gap-2">
+                    <Input
+                      id="inviteEmail"
+                      type="email"
+                      value={inviteEmail}
+                      onChange={(e) => setInviteEmail(e.target.value)}
+                      placeholder="name@example.com"
+                    />
+                    <Select value={inviteRole} onValueChange={(value) => setInviteRole(value as HouseholdRole)}>
+                      <SelectTrigger className="w-28">
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        <SelectItem value="editor">Editor</SelectItem>
+                        <SelectItem value="viewer">Viewer</SelectItem>
+                      </SelectContent>
+                    </Select>
+                    <Button onClick={handleSendInvite} disabled={busy || !inviteEmail.trim()}>
+                      <UserPlus className="w-4 h-4" />
+                    </Button>
+                  </div>
+                  <p className="text-xs text-muted-foreground">
+                    The invite appears in their Settings after they sign in with this email.
+                  </p>
+                </div>
+
+                {sentInvites.length > 0 && (
+                  <div className="space-y-2">
+                    {sentInvites.map((invite) => (
+                      <div key={invite.id} className="flex items-center justify-between text-sm">
+                        <span className="truncate">
+                          {invite.email}
+                          <span className="text-muted-foreground"> · {ROLE_LABELS[invite.role]}</span>
+                        </span>
+                        <Button
+                          variant="ghost"
+                          size="sm"
+                          onClick={() => handleDeleteInvite(invite.id, 'Invite revoked')}
+                          disabled={busy}
+                        >
+                          Revoke
+                        </Button>
+                      </div>
+                    ))}
+                  </div>
+                )}
+              </>
+            )}
+
+            <Separator />
+
+            <Button variant="outline" onClick={handleLeave} disabled={busy}>
+              <LogOut className="w-4 h-4 mr-2" />
+              Leave Household
+            </Button>
+          </>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
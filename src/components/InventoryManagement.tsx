@@ -1,6 +1,6 @@
 import { useState, useMemo } from 'react';
-import { differenceInDays, format, parseISO } from 'date-fns';
-import { Search, Filter, TrendingUp, Shield, AlertTriangle, RotateCw, Calendar, Download, FileText, ArrowUpDown, ArrowUp, ArrowDown } from 'lucide-react';
+import { differenceInDays, format, parseISO, startOfMonth } from 'date-fns';
+import { Search, Filter, TrendingUp, Shield, AlertTriangle, RotateCw, Calendar, Download, FileText, ArrowUpDown, ArrowUp, ArrowDown, Trash2, PackageMinus } from 'lucide-react';
 import jsPDF from 'jspdf';
 import autoTable from 'jspdf-autotable';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
@@ -9,6 +9,10 @@ import { Button } from '@/components/ui/button';
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
 import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
 import { Badge } from '@/components/ui/badge';
+import { addMoney, formatMoneyCode, formatMoneyTotals, MoneyTotals } from '@/utils/money';
+import { STORAGE_LOCATION_LABELS, StorageLocation } from '@/utils/storageLocation';
+import type { FreezeState } from '@/utils/freezeState';
+import { ParLevel, parShortfalls } from '@/utils/parLevels';
 
 interface FoodItem {
   id: string;
@@ -18,19 +22,33 @@ interface FoodItem {
   expiry_date: string;
   quantity: number;
   is_consumed: boolean;
+  unit_price?: number | null;
+  currency?: string;
+  storage_location?: StorageLocation;
+  freeze_state?: FreezeState;
+  kind?: string;
+}
+
+interface WasteEvent {
+  estimated_cost: number | null;
+  currency: string;
+  discarded_at: string;
 }
 
 interface InventoryManagementProps {
   items: FoodItem[];
+  wasteEvents?: WasteEvent[];
+  parLevels?: ParLevel[];
 }
 
-type SortField = 'name' | 'category' | 'status' | 'quantity' | 'purchase_date' | 'expiry_date';
+type SortField = 'name' | 'category' | 'location' | 'status' | 'quantity' | 'purchase_date' | 'expiry_date';
 type SortDirection = 'asc' | 'desc';
 
-export const InventoryManagement = ({ items }: InventoryManagementProps) => {
+export const InventoryManagement = ({ items, wasteEvents = [], parLevels = [] }: InventoryManagementProps) => {
   const [searchTerm, setSearchTerm] = useState('');
   const [statusFilter, setStatusFilter] = useState<string>('all');
   const [categoryFilter, setCategoryFilter] = useState<string>('all');
+  const [locationFilter, setLocationFilter] = useState<string>('all');
   const [stockFilter, setStockFilter] = useState<string>('all');
   const [dateFilter, setDateFilter] = useState<string>('all');
   const [sortField, setSortField] = useState<SortField>('expiry_date');
@@ -42,6 +60,8 @@ export const InventoryManagement = ({ items }: InventoryManagementProps) => {
     if (item.is_consumed) return 'consumed';
     const days = differenceInDays(new Date(item.expiry_date), today);
     if (days < 0) return 'expired';
+    // The clock is paused while frozen; only running past the freezer life counts
+    if (item.freeze_state === 'frozen') return 'frozen';
     if (days <= 3) return 'expiring';
     return 'fresh';
   };
@@ -51,11 +71,20 @@ export const InventoryManagement = ({ items }: InventoryManagementProps) => {
       case 'expired': return 1;
       case 'expiring': return 2;
       case 'fresh': return 3;
-      case 'consumed': return 4;
-      default: return 5;
+      case 'frozen': return 4;
+      case 'consumed': return 5;
+      default: return 6;
     }
   };
 
+  // Stock against par levels, and the par level each item counts towards
+  const shortfalls = useMemo(() => parShortfalls(parLevels, items), [parLevels, items]);
+  const understocked = shortfalls.filter(entry => entry.shortfall > 0);
+  const parByItem = useMemo(
+    () => new Map(shortfalls.flatMap(entry => entry.itemIds.map(id => [id, entry] as const))),
+    [shortfalls],
+  );
+
   // Get unique categories
   const categories = useMemo(() => {
     const cats = new Set(items.map(i => i.category).filter(Boolean));
@@ -80,10 +109,16 @@ export const InventoryManagement = ({ items }: InventoryManagementProps) => {
         return false;
       }
 
-      // Stock level filter
-      if (stockFilter === 'low' && item.quantity > 2) return false;
-      if (stockFilter === 'medium' && (item.quantity <= 2 || item.quantity > 5)) return false;
-      if (stockFilter === 'high' && item.quantity <= 5) return false;
+      // Storage location filter
+      if (locationFilter !== 'all' && (item.storage_location ?? 'fridge') !== locationFilter) {
+        return false;
+      }
+
+      // Stock level filter, against the product's par level
+      const par = parByItem.get(item.id);
+      if (stockFilter === 'under' && !(par && par.shortfall > 0)) return false;
+      if (stockFilter === 'stocked' && !(par && par.shortfall === 0)) return false;
+      if (stockFilter === 'untracked' && par) return false;
 
       // Date filter
       if (dateFilter !== 'all') {
@@ -107,6 +142,9 @@ export const InventoryManagement = ({ items }: InventoryManagementProps) => {
         case 'category':
           comparison = (a.category || '').localeCompare(b.category || '');
           break;
+        case 'location':
+          comparison = (a.storage_location || '').localeCompare(b.storage_location || '');
+          break;
         case 'status':
           comparison = getStatusPriority(getItemStatus(a)) - getStatusPriority(getItemStatus(b));
           break;
@@ -125,7 +163,7 @@ export const InventoryManagement = ({ items }: InventoryManagementProps) => {
     });
 
     return result;
-  }, [items, searchTerm, statusFilter, categoryFilter, stockFilter, dateFilter, sortField, sortDirection]);
+  }, [items, searchTerm, statusFilter, categoryFilter, locationFilter, stockFilter, parByItem, dateFilter, sortField, sortDirection]);
 
   // Health metrics calculations
   const healthMetrics = useMemo(() => {
@@ -134,20 +172,30 @@ export const InventoryManagement = ({ items }: InventoryManagementProps) => {
     const expiredItems = activeItems.filter(i => differenceInDays(new Date(i.expiry_date), today) < 0);
     const expiringItems = activeItems.filter(i => {
       const days = differenceInDays(new Date(i.expiry_date), today);
-      return days >= 0 && days <= 3;
+      return days >= 0 && days <= 3 && i.freeze_state !== 'frozen';
     });
 
     const stockCoverage = activeItems.length > 0 ? 100 : 0;
     const expiryRatio = activeItems.length > 0 
       ? Math.round(((activeItems.length - expiredItems.length) / activeItems.length) * 100) 
       : 100;
-    const valueAtRisk = activeItems.length > 0
-      ? Math.round(((expiredItems.length + expiringItems.length) / activeItems.length) * 100)
+    const atRiskItems = [...expiredItems, ...expiringItems];
+    const atRiskShare = activeItems.length > 0
+      ? Math.round((atRiskItems.length / activeItems.length) * 100)
       : 0;
+    // What the remaining units of expired and soon-to-expire items cost
+    const valueAtRisk = atRiskItems.reduce<MoneyTotals>(
+      (totals, i) => addMoney(totals, (i.unit_price ?? 0) * i.quantity, i.currency),
+      {}
+    );
+    const monthStart = startOfMonth(today);
+    const wastedThisMonth = wasteEvents
+      .filter(e => new Date(e.discarded_at) >= monthStart)
+      .reduce<MoneyTotals>((totals, e) => addMoney(totals, e.estimated_cost, e.currency), {});
     const stockTurnover = items.filter(i => i.is_consumed).length;
 
-    return { stockCoverage, expiryRatio, valueAtRisk, stockTurnover, totalQuantity };
-  }, [items]);
+    return { stockCoverage, expiryRatio, valueAtRisk, atRiskShare, wastedThisMonth, stockTurnover, totalQuantity };
+  }, [items, wasteEvents]);
 
   const getStatusBadge = (status: string) => {
     switch (status) {
@@ -157,6 +205,8 @@ export const InventoryManagement = ({ items }: InventoryManagementProps) => {
         return <Badge className="bg-amber-500 hover:bg-amber-600 text-white font-medium">🟠 Expiring Soon</Badge>;
       case 'expired':
         return <Badge className="bg-red-500 hover:bg-red-600 text-white font-medium">🔴 Expired</Badge>;
+      case 'frozen':
+        return <Badge className="bg-sky-500 hover:bg-sky-600 text-white font-medium">❄️ Frozen</Badge>;
       case 'consumed':
         return <Badge className="bg-slate-500 hover:bg-slate-600 text-white font-medium">✓ Consumed</Badge>;
       default:
@@ -170,6 +220,7 @@ export const InventoryManagement = ({ items }: InventoryManagementProps) => {
       case 'fresh': return 'Safe';
       case 'expiring': return 'Expiring Soon';
       case 'expired': return 'Expired';
+      case 'frozen': return 'Frozen';
       case 'consumed': return 'Consumed';
       default: return 'Unknown';
     }
@@ -192,12 +243,15 @@ export const InventoryManagement = ({ items }: InventoryManagementProps) => {
   };
 
   const exportToCSV = () => {
-    const headers = ['Item Name', 'Category', 'Status', 'Quantity', 'Manufacture Date', 'Expiry Date'];
+    const headers = ['Item Name', 'Category', 'Storage', 'Status', 'Quantity', 'Unit Price', 'Currency', 'Manufacture Date', 'Expiry Date'];
     const rows = filteredAndSortedItems.map(item => [
       item.name,
       item.category || 'N/A',
+      STORAGE_LOCATION_LABELS[item.storage_location ?? 'fridge'],
       getStatusText(item),
       item.quantity.toString(),
+      item.unit_price != null ? item.unit_price.toFixed(2) : '',
+      item.unit_price != null ? item.currency || '' : '',
       format(parseISO(item.purchase_date), 'yyyy-MM-dd'),
       format(parseISO(item.expiry_date), 'yyyy-MM-dd')
     ]);
@@ -224,21 +278,24 @@ export const InventoryManagement = ({ items }: InventoryManagementProps) => {
     doc.setFontSize(10);
     doc.text(`Stock Coverage: ${healthMetrics.stockCoverage}%`, 14, 50);
     doc.text(`Expiry Ratio: ${healthMetrics.expiryRatio}%`, 14, 56);
-    doc.text(`Value at Risk: ${healthMetrics.valueAtRisk}%`, 14, 62);
-    doc.text(`Stock Turnover: ${healthMetrics.stockTurnover}`, 14, 68);
+    doc.text(`Value at Risk: ${formatMoneyTotals(healthMetrics.valueAtRisk, formatMoneyCode)} (${healthMetrics.atRiskShare}% of items)`, 14, 62);
+    doc.text(`Wasted This Month: ${formatMoneyTotals(healthMetrics.wastedThisMonth, formatMoneyCode)}`, 14, 68);
+    doc.text(`Stock Turnover: ${healthMetrics.stockTurnover}`, 14, 74);
     
     const tableData = filteredAndSortedItems.map(item => [
       item.name,
       item.category || 'N/A',
+      STORAGE_LOCATION_LABELS[item.storage_location ?? 'fridge'],
       getStatusText(item),
       item.quantity.toString(),
+      item.unit_price != null ? formatMoneyCode(item.unit_price, item.currency) : '-',
       format(parseISO(item.purchase_date), 'MMM d, yyyy'),
       format(parseISO(item.expiry_date), 'MMM d, yyyy')
     ]);
     
     autoTable(doc, {
-      startY: 76,
-      head: [['Item Name', 'Category', 'Status', 'Qty', 'Mfg Date', 'Expiry Date']],
+      startY: 82,
+      head: [['Item Name', 'Category', 'Storage', 'Status', 'Qty', 'Unit Price', 'Mfg Date', 'Expiry Date']],
       body: tableData,
       styles: { fontSize: 8 },
       headStyles: { fillColor: [59, 130, 246] }
@@ -257,7 +314,7 @@ export const InventoryManagement = ({ items }: InventoryManagementProps) => {
           <TrendingUp className="w-5 h-5" />
           Inventory Health Metrics
         </h2>
-        <div className="grid grid-cols-2 md:grid-cols-4 gap-3">
+        <div className="grid grid-cols-2 md:grid-cols-3 lg:grid-cols-5 gap-3">
           <Card className="bg-emerald-500 border-emerald-600">
             <CardContent className="p-4">
               <div className="flex items-center gap-3">
@@ -293,8 +350,8 @@ export const InventoryManagement = ({ items }: InventoryManagementProps) => {
                   <AlertTriangle className="w-5 h-5 text-white" />
                 </div>
                 <div>
-                  <p className="text-2xl font-bold text-white">{healthMetrics.valueAtRisk}%</p>
-                  <p className="text-xs text-amber-100">Value at Risk</p>
+                  <p className="text-2xl font-bold text-white">{formatMoneyTotals(healthMetrics.valueAtRisk)}</p>
+                  <p className="text-xs text-amber-100">Value at Risk ({healthMetrics.atRiskShare}% of items)</p>
                 </div>
               </div>
             </CardContent>
@@ -313,9 +370,47 @@ export const InventoryManagement = ({ items }: InventoryManagementProps) => {
               </div>
             </CardContent>
           </Card>
+
+          <Card className="bg-rose-500 border-rose-600">
+            <CardContent className="p-4">
+              <div className="flex items-center gap-3">
+                <div className="p-2 rounded-lg bg-white/20">
+                  <Trash2 className="w-5 h-5 text-white" />
+                </div>
+                <div>
+                  <p className="text-2xl font-bold text-white">{formatMoneyTotals(healthMetrics.wastedThisMonth)}</p>
+                  <p className="text-xs text-rose-100">Wasted This Month</p>
+                </div>
+              </div>
+            </CardContent>
+          </Card>
         </div>
       </div>
 
+      {/* Under-stocked products */}
+      {understocked.length > 0 && (
+        <Card className="border-amber-300 bg-amber-50/60 dark:bg-amber-950/20">
+          <CardHeader className="pb-3">
+            <CardTitle className="text-lg flex items-center gap-2">
+              <PackageMinus className="w-5 h-5 text-amber-600" />
+              Under-stocked ({understocked.length})
+            </CardTitle>
+          </CardHeader>
+          <CardContent>
+            <div className="flex flex-wrap gap-2">
+              {understocked.map(({ par, inStock, shortfall }) => (
+                <Badge key={par.id} variant="outline" className="border-amber-400 bg-background py-1">
+                  <span className="font-medium">{par.name}</span>
+                  <span className="text-muted-foreground ml-1">
+                    {inStock} of {par.quantity} · buy {shortfall}
+                  </span>
+                </Badge>
+              ))}
+            </div>
+          </CardContent>
+        </Card>
+      )}
+
       {/* Filters Section */}
       <Card>
         <CardHeader className="pb-3">
@@ -325,7 +420,7 @@ export const InventoryManagement = ({ items }: InventoryManagementProps) => {
           </CardTitle>
         </CardHeader>
         <CardContent>
-          <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-6 gap-3">
+          <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-7 gap-3">
             <div className="relative lg:col-span-2">
               <Search className="absolute left-3 top-1/2 transform -translate-y-1/2 w-4 h-4 text-muted-foreground" />
               <Input
@@ -345,6 +440,7 @@ export const InventoryManagement = ({ items }: InventoryManagementProps) => {
                 <SelectItem value="fresh">🟢 Safe</SelectItem>
                 <SelectItem value="expiring">🟠 Expiring Soon</SelectItem>
                 <SelectItem value="expired">🔴 Expired</SelectItem>
+                <SelectItem value="frozen">❄️ Frozen</SelectItem>
                 <SelectItem value="consumed">✓ Consumed</SelectItem>
               </SelectContent>
             </Select>
@@ -361,15 +457,27 @@ export const InventoryManagement = ({ items }: InventoryManagementProps) => {
               </SelectContent>
             </Select>
 
+            <Select value={locationFilter} onValueChange={setLocationFilter}>
+              <SelectTrigger>
+                <SelectValue placeholder="Storage" />
+              </SelectTrigger>
+              <SelectContent className="bg-background border">
+                <SelectItem value="all">All Locations</SelectItem>
+                {(Object.keys(STORAGE_LOCATION_LABELS) as StorageLocation[]).map(location => (
+                  <SelectItem key={location} value={location}>{STORAGE_LOCATION_LABELS[location]}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+
             <Select value={stockFilter} onValueChange={setStockFilter}>
               <SelectTrigger>
                 <SelectValue placeholder="Stock Level" />
               </SelectTrigger>
               <SelectContent className="bg-background border">
                 <SelectItem value="all">All Stock</SelectItem>
-                <SelectItem value="low">Low (1-2)</SelectItem>
-                <SelectItem value="medium">Medium (3-5)</SelectItem>
-                <SelectItem value="high">High (5+)</SelectItem>
+                <SelectItem value="under">Below Par</SelectItem>
+                <SelectItem value="stocked">At Par</SelectItem>
+                <SelectItem value="untracked">No Par Level</SelectItem>
               </SelectContent>
             </Select>
 
@@ -379,6 +487,7 @@ export const InventoryManagement = ({ items }: InventoryManagementProps) => {
                 setSearchTerm('');
                 setStatusFilter('all');
                 setCategoryFilter('all');
+                setLocationFilter('all');
                 setStockFilter('all');
                 setDateFilter('all');
               }}
@@ -430,6 +539,14 @@ export const InventoryManagement = ({ items }: InventoryManagementProps) => {
                       Category {getSortIcon('category')}
                     </div>
                   </TableHead>
+                  <TableHead 
+                    className="cursor-pointer hover:bg-muted transition-colors"
+                    onClick={() => handleSort('location')}
+                  >
+                    <div className="flex items-center">
+                      Storage {getSortIcon('location')}
+                    </div>
+                  </TableHead>
                   <TableHead 
                     className="cursor-pointer hover:bg-muted transition-colors"
                     onClick={() => handleSort('status')}
@@ -467,13 +584,14 @@ export const InventoryManagement = ({ items }: InventoryManagementProps) => {
               <TableBody>
                 {filteredAndSortedItems.length === 0 ? (
                   <TableRow>
-                    <TableCell colSpan={6} className="text-center text-muted-foreground py-8">
+                    <TableCell colSpan={7} className="text-center text-muted-foreground py-8">
                       No items match your filters
                     </TableCell>
                   </TableRow>
                 ) : (
                   filteredAndSortedItems.map(item => {
                     const status = getItemStatus(item);
+                    const par = parByItem.get(item.id);
                     return (
                       <TableRow 
                         key={item.id}
@@ -481,6 +599,7 @@ export const InventoryManagement = ({ items }: InventoryManagementProps) => {
                           ${status === 'expired' ? 'bg-red-50 dark:bg-red-950/20' : ''}
                           ${status === 'expiring' ? 'bg-amber-50 dark:bg-amber-950/20' : ''}
                           ${status === 'fresh' ? 'bg-emerald-50 dark:bg-emerald-950/20' : ''}
+                          ${status === 'frozen' ? 'bg-sky-50 dark:bg-sky-950/20' : ''}
                           ${status === 'consumed' ? 'bg-slate-50 dark:bg-slate-950/20 opacity-60' : ''}
                         `}
                       >
@@ -488,8 +607,20 @@ export const InventoryManagement = ({ items }: InventoryManagementProps) => {
                         <TableCell>
                           <Badge variant="outline">{item.category || 'N/A'}</Badge>
                         </TableCell>
+                        <TableCell>{STORAGE_LOCATION_LABELS[item.storage_location ?? 'fridge']}</TableCell>
                         <TableCell>{getStatusBadge(status)}</TableCell>
-                        <TableCell className="font-medium">{item.quantity}</TableCell>
+                        <TableCell className="font-medium">
+                          {item.quantity}
+                          {par && par.shortfall > 0 && (
+                            <Badge
+                              variant="outline"
+                              className="ml-2 border-amber-400 text-amber-700 dark:text-amber-300"
+                              title={`Keep ${par.par.quantity}`}
+                            >
+                              Below par
+                            </Badge>
+                          )}
+                        </TableCell>
                         <TableCell>{format(parseISO(item.purchase_date), 'MMM d, yyyy')}</TableCell>
                         <TableCell className={status === 'expired' ? 'text-red-600 font-medium' : ''}>
                           {format(parseISO(item.expiry_date), 'MMM d, yyyy')}
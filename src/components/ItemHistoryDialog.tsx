@@ -0,0 +1,99 @@
+import { useMemo } from 'react';
+import { format, parseISO } from 'date-fns';
+import { ShoppingCart, Snowflake, Droplets, Utensils, ArchiveX, PackageOpen, CookingPot } from 'lucide-react';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { WASTE_REASON_LABELS, WasteReason } from '@/utils/waste';
+import type { FreezeState } from '@/utils/freezeState';
+
+interface ItemHistoryDialogProps {
+  item: {
+    id: string;
+    name: string;
+    purchase_date: string;
+    created_at?: string;
+    opened_at?: string | null;
+    kind?: 'grocery' | 'leftover';
+  } | null;
+  consumptionEvents: { food_item_id: string | null; amount: number; consumed_at: string }[];
+  wasteEvents: { food_item_id: string | null; amount: number; reason: WasteReason; discarded_at: string }[];
+  freezeEvents: { food_item_id: string | null; to_state: FreezeState; expiry_date: string; occurred_at: string }[];
+  onOpenChange: (open: boolean) => void;
+}
+
+interface HistoryEntry {
+  at: string;
+  icon: typeof Snowflake;
+  title: string;
+  detail?: string;
+}
+
+export const ItemHistoryDialog = ({
+  item,
+  consumptionEvents,
+  wasteEvents,
+  freezeEvents,
+  onOpenChange,
+}: ItemHistoryDialogProps) => {
+  const entries = useMemo(() => {
+    if (!item) return [];
+    const result: HistoryEntry[] = [
+      item.kind === 'leftover'
+        ? { at: item.created_at ?? item.purchase_date, icon: CookingPot, title: 'Added', detail: `Cooked ${format(parseISO(item.purchase_date), 'MMM d, yyyy')}` }
+        : { at: item.created_at ?? item.purchase_date, icon: ShoppingCart, title: 'Added', detail: `Bought ${format(parseISO(item.purchase_date), 'MMM d, yyyy')}` },
+    ];
+    if (item.opened_at) {
+      result.push({ at: item.opened_at, icon: PackageOpen, title: 'Opened' });
+    }
+    freezeEvents
+      .filter(e => e.food_item_id === item.id)
+      .forEach(e => result.push({
+        at: e.occurred_at,
+        icon: e.to_state === 'frozen' ? Snowflake : Droplets,
+        title: e.to_state === 'frozen' ? 'Frozen' : 'Thawed',
+        detail: `Now expires ${format(parseISO(e.expiry_date), 'MMM d, yyyy')}`,
+      }));
+    consumptionEvents
+      .filter(e => e.food_item_id === item.id)
+      .forEach(e => result.push({ at: e.consumed_at, icon: Utensils, title: `Used ${e.amount}` }));
+    wasteEvents
+      .filter(e => e.food_item_id === item.id)
+      .forEach(e => result.push({
+        at: e.discarded_at,
+        icon: ArchiveX,
+        title: `Discarded ${e.amount}`,
+        detail: WASTE_REASON_LABELS[e.reason],
+      }));
+    return result.sort((a, b) => a.at.localeCompare(b.at));
+  }, [item, consumptionEvents, wasteEvents, freezeEvents]);
+
+  return (
+    <Dialog open={!!item} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-md">
+        <DialogHeader>
+          <DialogTitle>{item?.name} history</DialogTitle>
+          <DialogDescription>Everything that has happened to this item, oldest first.</DialogDescription>
+        </DialogHeader>
+        <ol className="space-y-3">
+          {entries.map((entry, index) => (
+            <li key={index} className="flex gap-3 text-sm">
+              <entry.icon className="w-4 h-4 mt-0.5 text-muted-foreground shrink-0" />
+              <div className="flex-1">
+                <p className="font-medium">{entry.title}</p>
+                {entry.detail && <p className="text-muted-foreground">{entry.detail}</p>}
+              </div>
+              <time className="text-xs text-muted-foreground whitespace-nowrap">
+                {format(parseISO(entry.at), 'MMM d, HH:mm')}
+              </time>
+            </li>
+          ))}
+        </ol>
+      </DialogContent>
+    </Dialog>
+  );
+};
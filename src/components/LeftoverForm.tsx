@@ -0,0 +1,195 @@
+import { useState } from 'react';
+import { addDays, format, parseISO } from 'date-fns';
+import { CookingPot } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { leftoverSafeDays } from '@/utils/leftovers';
+
+interface IngredientOption {
+  id: string;
+  name: string;
+  category: string | null;
+  quantity: number | null;
+}
+
+export interface NewLeftover {
+  name: string;
+  cookedOn: Date;
+  portions: number;
+  storageLocation: 'fridge' | 'freezer';
+  expiryDate: Date;
+  // Ingredient items used up, and how much of each
+  ingredients: { id: string; amount: number }[];
+}
+
+interface LeftoverFormProps {
+  onLeftoverAdded: (leftover: NewLeftover) => void;
+  // Items in stock that the meal could have been made from
+  ingredientOptions: IngredientOption[];
+}
+
+export const LeftoverForm = ({ onLeftoverAdded, ingredientOptions }: LeftoverFormProps) => {
+  const [name, setName] = useState('');
+  const [cookedOn, setCookedOn] = useState(format(new Date(), 'yyyy-MM-dd'));
+  const [portions, setPortions] = useState(2);
+  const [location, setLocation] = useState<'fridge' | 'freezer'>('fridge');
+  // Empty to go by the default safe window
+  const [safeDays, setSafeDays] = useState('');
+  const [ingredients, setIngredients] = useState<Record<string, number>>({});
+
+  const chosen = ingredientOptions.filter(option => option.id in ingredients);
+  const defaultDays = leftoverSafeDays(location, chosen.map(option => option.category));
+  const days = parseInt(safeDays) > 0 ? parseInt(safeDays) : defaultDays;
+
+  const toggleIngredient = (option: IngredientOption, checked: boolean) => {
+    setIngredients(prev => {
+      const next = { ...prev };
+      if (checked) next[option.id] = option.quantity || 1;
+      else delete next[option.id];
+      return next;
+    });
+  };
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!name.trim() || !cookedOn) return;
+
+    const cooked = parseISO(cookedOn);
+    onLeftoverAdded({
+      name: name.trim(),
+      cookedOn: cooked,
+      portions: Math.max(Math.floor(portions), 1),
+      storageLocation: location,
+      expiryDate: addDays(cooked, days),
+      ingredients: chosen
+        .map(option => ({ id: option.id, amount: Math.min(Math.floor(ingredients[option.id]), option.quantity ?? 0) }))
+        .filter(ingredient => ingredient.amount > 0),
+    });
+
+    setName('');
+    setCookedOn(format(new Date(), 'yyyy-MM-dd'));
+    setPortions(2);
+    setLocation('fridge');
+    setSafeDays('');
+    setIngredients({});
+  };
+
+  return (
+    <Card>
+      <CardHeader className="pb-4">
+        <CardTitle className="text-lg flex items-center gap-2">
+          <CookingPot className="w-5 h-5" />
+          Add Leftovers
+        </CardTitle>
+      </CardHeader>
+      <CardContent>
+        <form onSubmit={handleSubmit} className="space-y-4">
+          <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+            <div className="space-y-2">
+              <Label htmlFor="leftover-name">Dish</Label>
+              <Input
+                id="leftover-name"
+                value={name}
+                onChange={(e) => setName(e.target.value)}
+                placeholder="e.g., Rajma chawal"
+                required
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="leftover-cooked">Cooked On</Label>
+              <Input
+                id="leftover-cooked"
+                type="date"
+                value={cookedOn}
+                max={format(new Date(), 'yyyy-MM-dd')}
+                onChange={(e) => setCookedOn(e.target.value)}
+                required
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="leftover-portions">Portions</Label>
+              <Input
+                id="leftover-portions"
+                type="number"
+                min={1}
+                value={portions}
+                onChange={(e) => setPortions(Number(e.target.value))}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label>Stored In</Label>
+              <Select value={location} onValueChange={(value) => setLocation(value as 'fridge' | 'freezer')}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="fridge">Fridge</SelectItem>
+                  <SelectItem value="freezer">Freezer</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-2 sm:col-span-2">
+              <Label htmlFor="leftover-days">Safe to Eat For (days)</Label>
+              <Input
+                id="leftover-days"
+                type="number"
+                min={1}
+                value={safeDays}
+                onChange={(e) => setSafeDays(e.target.value)}
+                placeholder={`${defaultDays} days`}
+              />
+              {cookedOn && (
+                <p className="text-xs text-muted-foreground">
+                  Eat by {format(addDays(parseISO(cookedOn), days), 'MMM d, yyyy')}
+                </p>
+              )}
+            </div>
+          </div>
+
+          {ingredientOptions.length > 0 && (
+            <div className="space-y-2">
+              <Label>Made From (optional)</Label>
+              <p className="text-xs text-muted-foreground">
+                Ticked items are marked as used up.
+              </p>
+              <div className="max-h-48 overflow-y-auto rounded-md border divide-y">
+                {ingredientOptions.map(option => (
+                  <div key={option.id} className="flex items-center gap-3 px-3 py-2">
+                    <Checkbox
+                      id={`ingredient-${option.id}`}
+                      checked={option.id in ingredients}
+                      onCheckedChange={(checked) => toggleIngredient(option, checked === true)}
+                    />
+                    <Label htmlFor={`ingredient-${option.id}`} className="flex-1 font-normal">
+                      {option.name}
+                    </Label>
+                    {option.id in ingredients && (option.quantity ?? 0) > 1 && (
+                      <Input
+                        type="number"
+                        min={1}
+                        max={option.quantity ?? 1}
+                        value={ingredients[option.id]}
+                        onChange={(e) => setIngredients(prev => ({ ...prev, [option.id]: Number(e.target.value) }))}
+                        className="w-20 h-8"
+                        aria-label={`Amount of ${option.name} used`}
+                      />
+                    )}
+                  </div>
+                ))}
+              </div>
+            </div>
+          )}
+
+          <Button type="submit" className="w-full">
+            <CookingPot className="w-4 h-4 mr-2" />
+            Add Leftovers
+          </Button>
+        </form>
+      </CardContent>
+    </Card>
+  );
+};
@@ -1,11 +1,15 @@
 import { useState } from 'react';
-import { Plus } from 'lucide-react';
+import { format } from 'date-fns';
+import { Plus, Sparkles } from 'lucide-react';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
 import { Label } from '@/components/ui/label';
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
-import { calculateExpiryDate } from '@/utils/expiryRules';
+import { calculateExpiryDate, defaultStorageLocation, ExpiryRule, findExpiryRule } from '@/utils/expiryRules';
+import { CURRENCIES, DEFAULT_CURRENCY, parsePrice } from '@/utils/money';
+import { CONFIDENCE_LABELS, ShelfLifeEstimate, suggestExpiryDate } from '@/utils/shelfLife';
+import { STORAGE_LOCATION_LABELS, StorageLocation } from '@/utils/storageLocation';
 
 interface ManualItemFormProps {
   onItemAdded: (item: {
@@ -13,39 +17,59 @@ interface ManualItemFormProps {
     category: string;
     expiryDate: Date;
     quantity: number;
+    totalPrice?: number | null;
+    currency?: string;
+    storageLocation?: StorageLocation;
   }) => void;
+  customRules?: ExpiryRule[];
+  // Shelf lives learned from this household's history
+  shelfLives?: Map<string, ShelfLifeEstimate>;
 }
 
 const categories = ['Dairy', 'Vegetables', 'Fruits', 'Meat', 'Bakery', 'Eggs', 'Other'];
 
-export const ManualItemForm = ({ onItemAdded }: ManualItemFormProps) => {
+export const ManualItemForm = ({ onItemAdded, customRules = [], shelfLives = new Map() }: ManualItemFormProps) => {
   const [name, setName] = useState('');
   const [category, setCategory] = useState('');
   const [quantity, setQuantity] = useState(1);
   const [expiryDate, setExpiryDate] = useState('');
   const [useAutoExpiry, setUseAutoExpiry] = useState(true);
+  const [price, setPrice] = useState('');
+  const [currency, setCurrency] = useState(DEFAULT_CURRENCY);
+  // Empty until picked; the item's rule decides where it normally goes
+  const [location, setLocation] = useState<StorageLocation | ''>('');
+
+  // Learned shelf lives describe items kept in their usual place
+  const inUsualPlace = !location || location === defaultStorageLocation(name, customRules);
+  const suggestion = useAutoExpiry && inUsualPlace ? suggestExpiryDate(name, new Date(), shelfLives, customRules) : null;
 
   const handleSubmit = (e: React.FormEvent) => {
     e.preventDefault();
     if (!name.trim()) return;
 
+    const storageLocation = location || defaultStorageLocation(name, customRules);
     const calculatedExpiry = useAutoExpiry || !expiryDate
-      ? calculateExpiryDate(name)
+      ? calculateExpiryDate(name, new Date(), customRules, storageLocation)
       : new Date(expiryDate);
 
     onItemAdded({
       name: name.trim(),
-      category: category || 'Other',
+      category: category || findExpiryRule(name, customRules)?.rule.category || 'Other',
       expiryDate: calculatedExpiry,
       quantity,
+      totalPrice: parsePrice(price),
+      currency,
+      storageLocation,
     });
 
-    // Reset form
+    // Reset form (the currency is kept for the next item)
     setName('');
     setCategory('');
     setQuantity(1);
     setExpiryDate('');
     setUseAutoExpiry(true);
+    setPrice('');
+    setLocation('');
   };
 
   return (
@@ -86,6 +110,24 @@ export const ManualItemForm = ({ onItemAdded }: ManualItemFormProps) => {
               </Select>
             </div>
 
+            <div className="space-y-2">
+              <Label htmlFor="location">Stored In</Label>
+              <Select value={location} onValueChange={(value) => setLocation(value as StorageLocation)}>
+                <SelectTrigger id="location">
+                  <SelectValue
+                    placeholder={`${STORAGE_LOCATION_LABELS[defaultStorageLocation(name, customRules)]} (usual place)`}
+                  />
+                </SelectTrigger>
+                <SelectContent>
+                  {(Object.keys(STORAGE_LOCATION_LABELS) as StorageLocation[]).map((key) => (
+                    <SelectItem key={key} value={key}>
+                      {STORAGE_LOCATION_LABELS[key]}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+
             <div className="space-y-2">
               <Label htmlFor="quantity">Quantity</Label>
               <Input
@@ -114,6 +156,62 @@ export const ManualItemForm = ({ onItemAdded }: ManualItemFormProps) => {
                 }}
                 min={new Date().toISOString().split('T')[0]}
               />
+              {suggestion && (
+                <div className="flex items-center justify-between gap-2 rounded-md bg-muted px-3 py-2 text-xs">
+                  <span className="flex items-center gap-1">
+                    <Sparkles className="w-3 h-3 shrink-0" />
+                    Yours usually last {suggestion.days} days, not {suggestion.ruleDays}
+                    {' '}({CONFIDENCE_LABELS[suggestion.estimate.level].toLowerCase()},
+                    {' '}{suggestion.estimate.sampleSize} items)
+                  </span>
+                  <Button
+                    type="button"
+                    variant="ghost"
+                    size="sm"
+                    className="h-6 px-2"
+                    onClick={() => {
+                      setExpiryDate(format(suggestion.date, 'yyyy-MM-dd'));
+                      setUseAutoExpiry(false);
+                    }}
+                  >
+                    Use
+                  </Button>
+                </div>
+              )}
+            </div>
+
+            <div className="space-y-2">
+              <Label htmlFor="price">
+                Price Paid
+                <span className="text-xs text-muted-foreground ml-2">
+                  (for the whole quantity)
+                </span>
+              </Label>
+              <Input
+                id="price"
+                type="number"
+                min={0}
+                step="0.01"
+                placeholder="Optional"
+                value={price}
+                onChange={(e) => setPrice(e.target.value)}
+              />
+            </div>
+
+            <div className="space-y-2">
+              <Label htmlFor="currency">Currency</Label>
+              <Select value={currency} onValueChange={setCurrency}>
+                <SelectTrigger id="currency">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {CURRENCIES.map((code) => (
+                    <SelectItem key={code} value={code}>
+                      {code}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
             </div>
           </div>
 
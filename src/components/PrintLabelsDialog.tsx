@@ -0,0 +1,131 @@
+import { useState } from 'react';
+import { format } from 'date-fns';
+import { Loader2, Printer } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { useToast } from '@/hooks/use-toast';
+import { generateLabelsPdf, signLabel, STICKER_SHEETS, StickerSheetId } from '@/utils/labels';
+
+interface PrintLabelsDialogProps {
+  item: {
+    id: string;
+    name: string;
+    purchase_date: string;
+    expiry_date: string;
+    quantity: number;
+  } | null;
+  onOpenChange: (open: boolean) => void;
+}
+
+// Mounted only while the dialog is open, so every opening starts from a fresh form
+const PrintLabelsForm = ({ item, onOpenChange }: PrintLabelsDialogProps & { item: NonNullable<PrintLabelsDialogProps['item']> }) => {
+  const [sheetId, setSheetId] = useState<StickerSheetId>('L7160');
+  // One label per container by default
+  const [copies, setCopies] = useState(Math.max(item.quantity, 1));
+  const [startAt, setStartAt] = useState(1);
+  const [busy, setBusy] = useState(false);
+  const { toast } = useToast();
+  const sheet = STICKER_SHEETS[sheetId];
+  const perSheet = sheet.columns * sheet.rows;
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setBusy(true);
+    try {
+      const label = await signLabel(item.id);
+      const count = Math.min(Math.max(Math.floor(copies), 1), perSheet * 10);
+      const skip = Math.min(Math.max(Math.floor(startAt), 1), perSheet) - 1;
+      const doc = await generateLabelsPdf(Array(count).fill(label), sheetId, skip);
+      doc.save(`labels-${item.name.toLowerCase().replace(/[^a-z0-9]+/g, '-')}-${format(new Date(), 'yyyy-MM-dd')}.pdf`);
+      onOpenChange(false);
+    } catch (error) {
+      toast({
+        title: 'Error',
+        description: (error as Error).message,
+        variant: 'destructive',
+      });
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  return (
+    <form onSubmit={handleSubmit} className="space-y-4">
+      <DialogHeader>
+        <DialogTitle>Print labels for {item.name}</DialogTitle>
+        <DialogDescription>
+          Stick these on containers. Scanning one opens this item instead of adding a new one.
+        </DialogDescription>
+      </DialogHeader>
+
+      <div className="space-y-2">
+        <Label>Sticker sheet</Label>
+        <Select value={sheetId} onValueChange={(value) => setSheetId(value as StickerSheetId)}>
+          <SelectTrigger>
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {(Object.keys(STICKER_SHEETS) as StickerSheetId[]).map(id => (
+              <SelectItem key={id} value={id}>{STICKER_SHEETS[id].label}</SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      </div>
+
+      <div className="grid grid-cols-2 gap-4">
+        <div className="space-y-2">
+          <Label htmlFor="label-copies">Labels</Label>
+          <Input
+            id="label-copies"
+            type="number"
+            min={1}
+            value={copies}
+            onChange={(e) => setCopies(Number(e.target.value))}
+          />
+        </div>
+        <div className="space-y-2">
+          <Label htmlFor="label-start">Start at sticker</Label>
+          <Input
+            id="label-start"
+            type="number"
+            min={1}
+            max={perSheet}
+            value={startAt}
+            onChange={(e) => setStartAt(Number(e.target.value))}
+          />
+        </div>
+      </div>
+      <p className="text-xs text-muted-foreground">
+        Skip stickers already used on a partly used sheet. Print at actual size (100%).
+      </p>
+
+      <DialogFooter>
+        <Button type="button" variant="outline" onClick={() => onOpenChange(false)} disabled={busy}>
+          Cancel
+        </Button>
+        <Button type="submit" disabled={busy}>
+          {busy ? <Loader2 className="w-4 h-4 mr-2 animate-spin" /> : <Printer className="w-4 h-4 mr-2" />}
+          Download PDF
+        </Button>
+      </DialogFooter>
+    </form>
+  );
+};
+
+export const PrintLabelsDialog = ({ item, onOpenChange }: PrintLabelsDialogProps) => (
+  <Dialog open={!!item} onOpenChange={onOpenChange}>
+    <DialogContent className="sm:max-w-md">
+      {item && <PrintLabelsForm item={item} onOpenChange={onOpenChange} />}
+    </DialogContent>
+  </Dialog>
+);
@@ -1,18 +1,40 @@
 import { useState, useEffect, useRef } from 'react';
-import { Html5Qrcode } from 'html5-qrcode';
+import { Html5Qrcode, Html5QrcodeSupportedFormats } from 'html5-qrcode';
+import { User } from '@supabase/supabase-js';
+import { addDays, format } from 'date-fns';
 import { QrCode, Camera, X, Loader2 } from 'lucide-react';
 import { Button } from '@/components/ui/button';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { TeachBarcodeForm, TaughtProduct } from '@/components/TeachBarcodeForm';
 import { useToast } from '@/hooks/use-toast';
+import { Product, useProductCatalog } from '@/hooks/use-product-catalog';
+import { parsePrice } from '@/utils/money';
+import { normalizeGtin } from '@/utils/barcode';
+import { parseGs1 } from '@/utils/gs1';
+import { decodeLabel, SignedLabel } from '@/utils/labels';
+import type { ExpiryRule } from '@/utils/expiryRules';
+
+interface ScannedProduct {
+  name: string;
+  category: string;
+  expiryDate?: Date;
+  quantity: number;
+  manufacturingDate?: Date;
+  openedDate?: Date;
+  lotNumber?: string;
+  unitPrice?: number | null;
+  totalPrice?: number | null;
+  currency?: string;
+}
 
 interface QRScannerProps {
-  onScanSuccess: (data: {
-    name: string;
-    category: string;
-    expiryDate?: Date;
-    quantity: number;
-    manufacturingDate?: Date;
-  }) => void;
+  user: User | null;
+  // Product corrections are saved for the household
+  householdId?: string | null;
+  onScanSuccess: (data: ScannedProduct) => void;
+  // Our own printed labels point at an item that is already tracked
+  onLabelScanned?: (label: SignedLabel) => void;
+  customRules?: ExpiryRule[];
 }
 
 interface ProductData {
@@ -20,15 +42,50 @@ interface ProductData {
   category?: string;
   expiry?: string;
   mfg?: string;
+  // When the pack was opened, if it already has been
+  opened?: string;
   qty?: number;
   brand?: string;
+  // From barcodes: the product code to look up, and its batch
+  gtin?: string;
+  lot?: string;
+  // Price of one unit / of the whole pack, and the ISO currency code
+  price?: number | string;
+  total?: number | string;
+  currency?: string;
 }
 
-export const QRScanner = ({ onScanSuccess }: QRScannerProps) => {
+// Our own QR payloads plus the barcodes printed on retail packaging, including
+// GS1 DataMatrix and GS1-128 codes that carry expiry and batch data
+const SCAN_FORMATS = [
+  Html5QrcodeSupportedFormats.QR_CODE,
+  Html5QrcodeSupportedFormats.DATA_MATRIX,
+  Html5QrcodeSupportedFormats.CODE_128,
+  Html5QrcodeSupportedFormats.EAN_13,
+  Html5QrcodeSupportedFormats.EAN_8,
+  Html5QrcodeSupportedFormats.UPC_A,
+  Html5QrcodeSupportedFormats.UPC_E,
+];
+
+const productToItem = (product: Product): ScannedProduct => ({
+  name: product.brand ? `${product.brand} ${product.name}` : product.name,
+  category: product.category,
+  quantity: 1,
+  expiryDate: product.shelf_life_days ? addDays(new Date(), product.shelf_life_days) : undefined,
+});
+
+export const QRScanner = ({ user, householdId = null, onScanSuccess, onLabelScanned, customRules = [] }: QRScannerProps) => {
   const [isScanning, setIsScanning] = useState(false);
   const [isLoading, setIsLoading] = useState(false);
+  // Barcode that isn't in the catalog yet, waiting to be taught, with anything else the code carried
+  const [unknownCode, setUnknownCode] = useState<{ gtin: string; details: Partial<ScannedProduct> } | null>(null);
+  const [isSaving, setIsSaving] = useState(false);
+  // Catalog product behind the last scan, which can be corrected afterwards
+  const [lastFound, setLastFound] = useState<Product | null>(null);
+  const [correcting, setCorrecting] = useState<Product | null>(null);
   const scannerRef = useRef<Html5Qrcode | null>(null);
   const { toast } = useToast();
+  const { lookup, teach, correct } = useProductCatalog(user, householdId);
 
   useEffect(() => {
     return () => {
@@ -39,6 +96,22 @@ export const QRScanner = ({ onScanSuccess }: QRScannerProps) => {
   }, []);
 
   const parseQRData = (rawData: string): ProductData | null => {
+    // Plain retail barcodes carry nothing but the product code
+    const gtin = normalizeGtin(rawData);
+    if (gtin) return { gtin };
+
+    // GS1 element strings: expiry (17) wins over best-before (15)
+    const gs1 = parseGs1(rawData);
+    if (gs1) {
+      const expiry = gs1.expiryDate ?? gs1.bestBefore;
+      return {
+        gtin: gs1.gtin,
+        lot: gs1.lot,
+        expiry: expiry ? format(expiry, 'yyyy-MM-dd') : undefined,
+        mfg: gs1.productionDate ? format(gs1.productionDate, 'yyyy-MM-dd') : undefined,
+      };
+    }
+
     try {
       // Try to parse as JSON first
       const jsonData = JSON.parse(rawData);
@@ -57,8 +130,13 @@ export const QRScanner = ({ onScanSuccess }: QRScannerProps) => {
             else if (k === 'category') data.category = value.trim();
             else if (k === 'expiry') data.expiry = value.trim();
             else if (k === 'mfg') data.mfg = value.trim();
+            else if (k === 'opened') data.opened = value.trim();
             else if (k === 'qty') data.qty = parseInt(value.trim()) || 1;
             else if (k === 'brand') data.brand = value.trim();
+            else if (k === 'lot') data.lot = value.trim();
+            else if (k === 'price') data.price = value.trim();
+            else if (k === 'total') data.total = value.trim();
+            else if (k === 'currency') data.currency = value.trim();
           }
         });
         if (Object.keys(data).length > 0) return data;
@@ -76,14 +154,17 @@ export const QRScanner = ({ onScanSuccess }: QRScannerProps) => {
   const startScanning = async () => {
     setIsLoading(true);
     try {
-      const html5QrCode = new Html5Qrcode('qr-reader');
+      setUnknownCode(null);
+      setLastFound(null);
+      const html5QrCode = new Html5Qrcode('qr-reader', { formatsToSupport: SCAN_FORMATS, verbose: false });
       scannerRef.current = html5QrCode;
 
       await html5QrCode.start(
         { facingMode: 'environment' },
         {
           fps: 10,
-          qrbox: { width: 250, height: 250 },
+          // Wide enough for a full-length retail barcode
+          qrbox: { width: 300, height: 200 },
         },
         (decodedText) => {
           handleScanSuccess(decodedText);
@@ -114,10 +195,98 @@ export const QRScanner = ({ onScanSuccess }: QRScannerProps) => {
     setIsScanning(false);
   };
 
+  // Dates and batch read from the code itself win over the catalog's defaults
+  const handleBarcode = async (gtin: string, details: Partial<ScannedProduct>) => {
+    setIsLoading(true);
+    try {
+      const product = await lookup(gtin);
+      if (!product) {
+        setUnknownCode({ gtin, details });
+        return;
+      }
+      const itemData = { ...productToItem(product), ...details };
+      setLastFound(product);
+      onScanSuccess(itemData);
+      toast({
+        title: 'Product Found!',
+        description: `Added: ${itemData.name}`,
+      });
+    } catch (error) {
+      toast({
+        title: 'Lookup Failed',
+        description: (error as Error).message,
+        variant: 'destructive',
+      });
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const handleTeach = async (product: TaughtProduct) => {
+    if (!unknownCode) return;
+    setIsSaving(true);
+    try {
+      const saved = await teach(product);
+      const itemData = { ...productToItem(saved), ...unknownCode.details };
+      setUnknownCode(null);
+      onScanSuccess(itemData);
+      toast({
+        title: 'Barcode Saved!',
+        description: `Added: ${itemData.name}. It will be recognized next time.`,
+      });
+    } catch (error) {
+      toast({
+        title: 'Error',
+        description: (error as Error).message,
+        variant: 'destructive',
+      });
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleCorrect = async (product: TaughtProduct) => {
+    setIsSaving(true);
+    try {
+      const { gtin, ...details } = product;
+      await correct(gtin, details);
+      setCorrecting(null);
+      setLastFound(null);
+      toast({
+        title: 'Product Corrected',
+        description: `${product.name} will show up like this next time${householdId ? ' for your household' : ''}.`,
+      });
+    } catch (error) {
+      toast({
+        title: 'Error',
+        description: (error as Error).message,
+        variant: 'destructive',
+      });
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
   const handleScanSuccess = async (decodedText: string) => {
     await stopScanning();
-    
+
+    const label = decodeLabel(decodedText);
+    if (label && onLabelScanned) {
+      onLabelScanned(label);
+      return;
+    }
+
     const productData = parseQRData(decodedText);
+
+    // Codes without a name are looked up in the product catalog
+    if (productData?.gtin && !productData.name) {
+      await handleBarcode(productData.gtin, {
+        expiryDate: productData.expiry ? new Date(productData.expiry) : undefined,
+        manufacturingDate: productData.mfg ? new Date(productData.mfg) : undefined,
+        lotNumber: productData.lot,
+      });
+      return;
+    }
     
     if (productData && productData.name) {
       const itemData = {
@@ -126,6 +295,11 @@ export const QRScanner = ({ onScanSuccess }: QRScannerProps) => {
         quantity: productData.qty || 1,
         expiryDate: productData.expiry ? new Date(productData.expiry) : undefined,
         manufacturingDate: productData.mfg ? new Date(productData.mfg) : undefined,
+        openedDate: productData.opened ? new Date(productData.opened) : undefined,
+        lotNumber: productData.lot,
+        unitPrice: parsePrice(productData.price),
+        totalPrice: parsePrice(productData.total),
+        currency: /^[a-z]{3}$/i.test(productData.currency || '') ? productData.currency!.toUpperCase() : undefined,
       };
       
       onScanSuccess(itemData);
@@ -148,24 +322,42 @@ export const QRScanner = ({ onScanSuccess }: QRScannerProps) => {
       <CardHeader className="pb-4">
         <CardTitle className="text-lg flex items-center gap-2">
           <QrCode className="w-5 h-5" />
-          Scan Product QR Code
+          Scan QR Code or Barcode
         </CardTitle>
       </CardHeader>
       <CardContent>
         <div className="space-y-4">
-          {!isScanning ? (
+          {unknownCode ? (
+            <TeachBarcodeForm
+              gtin={unknownCode.gtin}
+              busy={isSaving}
+              customRules={customRules}
+              onSave={handleTeach}
+              onCancel={() => setUnknownCode(null)}
+            />
+          ) : correcting ? (
+            <TeachBarcodeForm
+              key={correcting.gtin}
+              gtin={correcting.gtin}
+              initial={correcting}
+              busy={isSaving}
+              customRules={customRules}
+              onSave={handleCorrect}
+              onCancel={() => setCorrecting(null)}
+            />
+          ) : !isScanning ? (
             <div className="text-center py-8">
               <div className="w-20 h-20 mx-auto mb-4 rounded-2xl bg-primary/10 flex items-center justify-center">
                 <QrCode className="w-10 h-10 text-primary" />
               </div>
               <p className="text-muted-foreground mb-4">
-                Scan product QR code to automatically fill item details
+                Scan a product QR code or barcode to automatically fill item details
               </p>
               <Button onClick={startScanning} disabled={isLoading}>
                 {isLoading ? (
                   <>
                     <Loader2 className="w-4 h-4 mr-2 animate-spin" />
-                    Starting Camera...
+                    Please wait...
                   </>
                 ) : (
                   <>
@@ -174,6 +366,14 @@ export const QRScanner = ({ onScanSuccess }: QRScannerProps) => {
                   </>
                 )}
               </Button>
+              {lastFound && user && (
+                <p className="text-sm text-muted-foreground mt-4">
+                  Wrong details for {lastFound.name}?{' '}
+                  <button type="button" className="underline hover:text-foreground" onClick={() => setCorrecting(lastFound)}>
+                    Correct them
+                  </button>
+                </p>
+              )}
             </div>
           ) : (
             <div className="space-y-4">
@@ -194,10 +394,12 @@ export const QRScanner = ({ onScanSuccess }: QRScannerProps) => {
           )}
           
           <div className="text-xs text-muted-foreground border-t pt-4 mt-4">
-            <p className="font-medium mb-2">Supported QR formats:</p>
+            <p className="font-medium mb-2">Supported formats:</p>
             <ul className="list-disc list-inside space-y-1">
+              <li>Product barcodes: EAN-13, EAN-8, UPC-A, UPC-E</li>
+              <li>GS1 DataMatrix / GS1-128: (01) GTIN, (17) expiry, (15) best before, (11) production date, (10) lot</li>
               <li>JSON: {`{\\"name\\":\\"Product\\",\\"category\\":\\"Dairy\\",\\"expiry\\":\\"2025-12-31\\"}`}</li>
-              <li>Key-Value: name=Product|category=Dairy|expiry=2025-12-31</li>
+              <li>Key-Value: name=Product|category=Dairy|expiry=2025-12-31|opened=2025-06-01|price=45|currency=INR</li>
               <li>Plain text product name</li>
             </ul>
           </div>
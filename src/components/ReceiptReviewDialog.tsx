@@ -0,0 +1,376 @@
+import { useState } from 'react';
+import { format, parseISO } from 'date-fns';
+import { Plus, Save } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Input } from '@/components/ui/input';
+import { ScrollArea } from '@/components/ui/scroll-area';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { calculateExpiryDate, CONFIDENT_MATCH, ExpiryRule, findExpiryRule } from '@/utils/expiryRules';
+import { formatMoney, parsePrice, resolvePrices } from '@/utils/money';
+import type { ParsedReceipt, ReceiptLine, ReceiptLineItem } from '@/utils/receiptParser';
+import { CONFIDENCE_LABELS, ShelfLifeEstimate, suggestExpiryDate } from '@/utils/shelfLife';
+
+export interface OcrLineBox {
+  x0: number;
+  y0: number;
+  x1: number;
+  y1: number;
+}
+
+export interface ReviewedItem {
+  name: string;
+  category: string;
+  expiryDate: Date;
+  purchaseDate: Date;
+  quantity: number;
+  unitPrice: number | null;
+  totalPrice: number | null;
+}
+
+interface ReviewRow {
+  key: string;
+  lineIndex: number | null;
+  selected: boolean;
+  name: string;
+  category: string;
+  quantity: number;
+  expiryDate: string;
+  unitPrice: number | null;
+  totalPrice: number | null;
+}
+
+interface ReceiptReviewDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  imageUrl: string | null;
+  // OCR bounding box of each input line, by line index
+  lineBoxes: Array<OcrLineBox | null>;
+  receipt: ParsedReceipt;
+  purchaseDate: Date;
+  // The user's own rules, applied over the built-in ones
+  customRules: ExpiryRule[];
+  shelfLives: Map<string, ShelfLifeEstimate>;
+  onSave: (items: ReviewedItem[]) => void;
+}
+
+const categories = ['Dairy', 'Vegetables', 'Fruits', 'Meat', 'Bakery', 'Eggs', 'Other'];
+
+// Loose goods (1.25 kg of tomatoes) are tracked as one item priced at the line total
+const toTrackedQuantity = (item: ReceiptLineItem) =>
+  item.unit === 'pcs' || item.unit === null
+    ? { quantity: Math.max(Math.round(item.quantity), 1), unitPrice: item.unitPrice }
+    : { quantity: 1, unitPrice: item.lineTotal };
+
+// The line total follows the quantity and the price each, whichever was edited
+const repriced = (quantity: number, unitPrice: number | null) => {
+  const prices = resolvePrices(quantity, unitPrice);
+  return { quantity, unitPrice: prices.unit_price, totalPrice: prices.total_price };
+};
+
+const expiryFor = (name: string, purchaseDate: Date, customRules: ExpiryRule[]) =>
+  format(calculateExpiryDate(name, purchaseDate, customRules), 'yyyy-MM-dd');
+
+const rowFromItem = (item: ReceiptLineItem, purchaseDate: Date, customRules: ExpiryRule[]): ReviewRow => {
+  const match = findExpiryRule(item.name, customRules);
+  return {
+    key: `line-${item.lineIndex}`,
+    lineIndex: item.lineIndex,
+    // Perishables are picked by default; everything else, including shaky matches, is opt-in
+    selected: !!match && match.confidence >= CONFIDENT_MATCH,
+    name: item.name,
+    category: match?.rule.category || 'Other',
+    expiryDate: expiryFor(item.name, purchaseDate, customRules),
+    ...toTrackedQuantity(item),
+    totalPrice: item.lineTotal,
+  };
+};
+
+const rowFromLine = (line: ReceiptLine, purchaseDate: Date, customRules: ExpiryRule[]): ReviewRow => ({
+  key: `line-${line.lineIndex}`,
+  lineIndex: line.lineIndex,
+  selected: true,
+  name: line.text,
+  category: findExpiryRule(line.text, customRules)?.rule.category || 'Other',
+  expiryDate: expiryFor(line.text, purchaseDate, customRules),
+  quantity: 1,
+  unitPrice: null,
+  totalPrice: null,
+});
+
+export const ReceiptReviewDialog = ({
+  open,
+  onOpenChange,
+  imageUrl,
+  lineBoxes,
+  receipt,
+  purchaseDate,
+  customRules,
+  shelfLives,
+  onSave,
+}: ReceiptReviewDialogProps) => {
+  const [rows, setRows] = useState<ReviewRow[]>(() =>
+    receipt.items.map(item => rowFromItem(item, purchaseDate, customRules)));
+  const [unmatched, setUnmatched] = useState<ReceiptLine[]>(receipt.unmatchedLines);
+  const [activeLine, setActiveLine] = useState<number | null>(null);
+  const [imageSize, setImageSize] = useState<{ width: number; height: number } | null>(null);
+
+  const selectedCount = rows.filter(row => row.selected).length;
+
+  const updateRow = (key: string, changes: Partial<ReviewRow>) => {
+    setRows(prev => prev.map(row => (row.key === key ? { ...row, ...changes } : row)));
+  };
+
+  const addUnmatchedLine = (line: ReceiptLine) => {
+    setRows(prev => [...prev, rowFromLine(line, purchaseDate, customRules)]);
+    setUnmatched(prev => prev.filter(l => l.lineIndex !== line.lineIndex));
+  };
+
+  const addBlankRow = () => {
+    setRows(prev => [
+      ...prev,
+      {
+        key: `manual-${Date.now()}`,
+        lineIndex: null,
+        selected: true,
+        name: '',
+        category: 'Other',
+        expiryDate: expiryFor('', purchaseDate, customRules),
+        quantity: 1,
+        unitPrice: null,
+        totalPrice: null,
+      },
+    ]);
+  };
+
+  const handleSave = () => {
+    const items = rows
+      .filter(row => row.selected && row.name.trim())
+      .map(row => ({
+        name: row.name.trim(),
+        category: row.category,
+        expiryDate: parseISO(row.expiryDate),
+        purchaseDate,
+        quantity: Math.max(row.quantity, 1),
+        unitPrice: row.unitPrice,
+        totalPrice: row.totalPrice,
+      }));
+    onSave(items);
+  };
+
+  const rowsByLine = new Map(rows.filter(row => row.lineIndex !== null).map(row => [row.lineIndex!, row]));
+
+  const getHighlightClass = (lineIndex: number) => {
+    const row = rowsByLine.get(lineIndex);
+    if (lineIndex === activeLine) return 'border-2 border-primary bg-primary/30';
+    if (!row) return 'border border-dashed border-amber-500 bg-amber-400/10';
+    return row.selected ? 'border border-primary bg-primary/15' : 'border border-muted-foreground/50 bg-muted/20';
+  };
+
+  const highlightedLines = [
+    ...rows.map(row => row.lineIndex),
+    ...unmatched.map(line => line.lineIndex),
+  ].filter((lineIndex): lineIndex is number => lineIndex !== null && !!lineBoxes[lineIndex]);
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-5xl">
+        <DialogHeader>
+          <DialogTitle>Review Receipt Items</DialogTitle>
+          <DialogDescription>
+            {receipt.storeName ? `${receipt.storeName} · ` : ''}
+            {format(purchaseDate, 'MMM d, yyyy')}
+            {receipt.total !== null ? ` · Total ${formatMoney(receipt.total)}` : ''}
+            {' — '}check what was read correctly before saving.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="grid grid-cols-1 lg:grid-cols-[2fr_3fr] gap-4">
+          {/* Receipt image with each parsed line outlined */}
+          {imageUrl && (
+            <ScrollArea className="h-[60vh] rounded-md border bg-muted/30">
+              <div className="relative">
+                <img
+                  src={imageUrl}
+                  alt="Scanned receipt"
+                  className="w-full block"
+                  onLoad={(e) => setImageSize({
+                    width: e.currentTarget.naturalWidth,
+                    height: e.currentTarget.naturalHeight,
+                  })}
+                />
+                {imageSize && highlightedLines.map(lineIndex => {
+                  const box = lineBoxes[lineIndex]!;
+                  return (
+                    <div
+                      key={lineIndex}
+                      className={`absolute rounded-sm pointer-events-none transition-colors ${getHighlightClass(lineIndex)}`}
+                      style={{
+                        left: `${(box.x0 / imageSize.width) * 100}%`,
+                        top: `${(box.y0 / imageSize.height) * 100}%`,
+                        width: `${((box.x1 - box.x0) / imageSize.width) * 100}%`,
+                        height: `${((box.y1 - box.y0) / imageSize.height) * 100}%`,
+                      }}
+                    />
+                  );
+                })}
+              </div>
+            </ScrollArea>
+          )}
+
+          <ScrollArea className={`h-[60vh] ${imageUrl ? '' : 'lg:col-span-2'}`}>
+            <div className="space-y-2 pr-3">
+              {rows.length === 0 && (
+                <p className="text-sm text-muted-foreground py-4 text-center">
+                  No items were recognised. Add lines from below or enter items by hand.
+                </p>
+              )}
+
+              {rows.map(row => {
+                const match = findExpiryRule(row.name, customRules);
+                const suggestion = suggestExpiryDate(row.name, purchaseDate, shelfLives, customRules);
+                const suggestedDate = suggestion && format(suggestion.date, 'yyyy-MM-dd');
+                return (
+                  <div
+                    key={row.key}
+                    className={`rounded-lg border p-3 space-y-2 transition-colors ${
+                      row.selected ? 'bg-background' : 'bg-muted/30 opacity-70'
+                    } ${row.lineIndex !== null && row.lineIndex === activeLine ? 'border-primary' : ''}`}
+                    onMouseEnter={() => setActiveLine(row.lineIndex)}
+                    onMouseLeave={() => setActiveLine(null)}
+                    onFocus={() => setActiveLine(row.lineIndex)}
+                  >
+                    <div className="flex items-center gap-2">
+                      <Checkbox
+                        checked={row.selected}
+                        onCheckedChange={(checked) => updateRow(row.key, { selected: checked === true })}
+                        aria-label={`Include ${row.name || 'item'}`}
+                      />
+                      <Input
+                        value={row.name}
+                        placeholder="Item name"
+                        onChange={(e) => updateRow(row.key, { name: e.target.value })}
+                        className="h-8"
+                      />
+                    </div>
+                    <div className="grid grid-cols-3 gap-2 pl-6">
+                      <Select value={row.category} onValueChange={(value) => updateRow(row.key, { category: value })}>
+                        <SelectTrigger className="h-8">
+                          <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent>
+                          {categories.map(cat => (
+                            <SelectItem key={cat} value={cat}>{cat}</SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                      <Input
+                        type="number"
+                        min={1}
+                        value={row.quantity}
+                        onChange={(e) =>
+                          updateRow(
+                            row.key,
+                            repriced(
+                              parseInt(e.target.value) || 1,
+                              resolvePrices(row.quantity, row.unitPrice, row.totalPrice).unit_price,
+                            ),
+                          )
+                        }
+                        className="h-8"
+                        aria-label="Quantity"
+                      />
+                      <Input
+                        type="date"
+                        value={row.expiryDate}
+                        onChange={(e) => e.target.value && updateRow(row.key, { expiryDate: e.target.value })}
+                        className="h-8"
+                        aria-label="Expiry date"
+                      />
+                    </div>
+                    <div className="flex items-center gap-2 pl-6 text-xs text-muted-foreground">
+                      <Input
+                        type="number"
+                        min={0}
+                        step="0.01"
+                        value={row.unitPrice ?? ''}
+                        placeholder="Price each"
+                        onChange={(e) => updateRow(row.key, repriced(row.quantity, parsePrice(e.target.value)))}
+                        className="h-7 w-28"
+                        aria-label="Price each"
+                      />
+                      {row.totalPrice !== null && (
+                        <span>each · {formatMoney(row.totalPrice)} total</span>
+                      )}
+                    </div>
+                    {match && match.confidence < 1 && (
+                      <p className="text-xs text-amber-600 pl-6">
+                        Read as "{match.keyword}" ({Math.round(match.confidence * 100)}% match) — check the name and expiry
+                      </p>
+                    )}
+                    {suggestion && suggestedDate !== row.expiryDate && (
+                      <p className="text-xs text-muted-foreground pl-6">
+                        Yours usually last {suggestion.days} days
+                        {' '}({CONFIDENCE_LABELS[suggestion.estimate.level].toLowerCase()}) —{' '}
+                        <button
+                          type="button"
+                          className="underline hover:text-foreground"
+                          onClick={() => updateRow(row.key, { expiryDate: suggestedDate! })}
+                        >
+                          use {format(suggestion.date, 'MMM d')}
+                        </button>
+                      </p>
+                    )}
+                  </div>
+                );
+              })}
+
+              <Button variant="outline" size="sm" onClick={addBlankRow} className="w-full">
+                <Plus className="w-4 h-4 mr-2" />
+                Add Item
+              </Button>
+
+              {unmatched.length > 0 && (
+                <div className="pt-3 space-y-2">
+                  <p className="text-sm font-medium">Unrecognised lines</p>
+                  {unmatched.map(line => (
+                    <div
+                      key={line.lineIndex}
+                      className="flex items-center justify-between gap-2 rounded-md border border-dashed px-3 py-2 text-sm"
+                      onMouseEnter={() => setActiveLine(line.lineIndex)}
+                      onMouseLeave={() => setActiveLine(null)}
+                    >
+                      <span className="truncate font-mono text-xs">{line.text}</span>
+                      <Button variant="ghost" size="sm" onClick={() => addUnmatchedLine(line)}>
+                        <Plus className="w-4 h-4 mr-1" />
+                        Add
+                      </Button>
+                    </div>
+                  ))}
+                </div>
+              )}
+            </div>
+          </ScrollArea>
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)}>
+            Cancel
+          </Button>
+          <Button onClick={handleSave} disabled={selectedCount === 0}>
+            <Save className="w-4 h-4 mr-2" />
+            Save Selected ({selectedCount})
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
@@ -1,32 +1,52 @@
-import { useState } from 'react';
+import { useEffect, useState } from 'react';
 import { Camera, Upload, Loader2 } from 'lucide-react';
 import { Button } from '@/components/ui/button';
 import { Card } from '@/components/ui/card';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
 import { useToast } from '@/hooks/use-toast';
 import { createWorker } from 'tesseract.js';
-import { findExpiryRule, calculateExpiryDate } from '@/utils/expiryRules';
+import { ParsedReceipt, parseReceiptLines } from '@/utils/receiptParser';
+import { transliterateDevanagari } from '@/utils/transliterate';
+import { loadOcrLanguage, OCR_LANGUAGES, OCR_WORKER_OPTIONS, OcrLanguage, saveOcrLanguage } from '@/utils/ocr';
+import { OcrLineBox, ReceiptReviewDialog, ReviewedItem } from '@/components/ReceiptReviewDialog';
+import type { ExpiryRule } from '@/utils/expiryRules';
+import type { ShelfLifeEstimate } from '@/utils/shelfLife';
 
-interface ScannedItem {
-  name: string;
-  category: string;
-  expiryDate: Date;
+interface ReceiptScannerProps {
+  onItemsScanned: (items: ReviewedItem[]) => void;
+  customRules?: ExpiryRule[];
+  shelfLives?: Map<string, ShelfLifeEstimate>;
 }
 
-interface ReceiptScannerProps {
-  onItemsScanned: (items: ScannedItem[]) => void;
+interface ReceiptReview {
+  id: number;
+  imageUrl: string;
+  lineBoxes: Array<OcrLineBox | null>;
+  receipt: ParsedReceipt;
+  purchaseDate: Date;
 }
 
-export const ReceiptScanner = ({ onItemsScanned }: ReceiptScannerProps) => {
+export const ReceiptScanner = ({ onItemsScanned, customRules = [], shelfLives = new Map() }: ReceiptScannerProps) => {
   const [isScanning, setIsScanning] = useState(false);
   const [progress, setProgress] = useState(0);
+  const [review, setReview] = useState<ReceiptReview | null>(null);
+  const [language, setLanguage] = useState<OcrLanguage>(loadOcrLanguage);
   const { toast } = useToast();
 
+  // Release the preview image once the review is closed
+  useEffect(() => {
+    if (!review) return;
+    return () => URL.revokeObjectURL(review.imageUrl);
+  }, [review]);
+
   const processImage = async (file: File) => {
     setIsScanning(true);
     setProgress(0);
 
     try {
-      const worker = await createWorker('eng', 1, {
+      const worker = await createWorker(OCR_LANGUAGES[language].tesseract, 1, {
+        ...OCR_WORKER_OPTIONS,
         logger: (m) => {
           if (m.status === 'recognizing text') {
             setProgress(Math.round(m.progress * 100));
@@ -34,37 +54,32 @@ export const ReceiptScanner = ({ onItemsScanned }: ReceiptScannerProps) => {
         },
       });
 
-      const { data: { text } } = await worker.recognize(file);
+      // Line boxes are needed to highlight each line on the receipt image
+      const { data } = await worker.recognize(file, {}, { text: true, blocks: true });
       await worker.terminate();
 
-      // Parse text to extract items
-      const lines = text.split('\n').filter(line => line.trim().length > 0);
-      const scannedItems: ScannedItem[] = [];
-
-      lines.forEach(line => {
-        const rule = findExpiryRule(line);
-        if (rule) {
-          scannedItems.push({
-            name: line.trim(),
-            category: rule.category,
-            expiryDate: calculateExpiryDate(line),
-          });
-        }
-      });
+      const ocrLines = (data.blocks || []).flatMap(block => block.paragraphs.flatMap(paragraph => paragraph.lines));
+      // Hindi lines are romanized so names like दूध match the expiry rules (doodh)
+      const lineTexts = ocrLines.length > 0 ? ocrLines.map(line => line.text) : data.text.split('\n');
+      const receipt = parseReceiptLines(lineTexts.map(transliterateDevanagari));
 
-      if (scannedItems.length > 0) {
-        onItemsScanned(scannedItems);
-        toast({
-          title: 'Receipt Scanned!',
-          description: `Found ${scannedItems.length} perishable items`,
-        });
-      } else {
+      if (receipt.items.length === 0 && receipt.unmatchedLines.length === 0) {
         toast({
           title: 'No items found',
-          description: 'Could not detect any perishable items in the receipt',
+          description: 'Could not read any items from the receipt',
           variant: 'destructive',
         });
+        return;
       }
+
+      setReview({
+        id: Date.now(),
+        imageUrl: URL.createObjectURL(file),
+        lineBoxes: ocrLines.map(line => line.bbox),
+        receipt,
+        // A misread date in the future would push every expiry out
+        purchaseDate: receipt.date && receipt.date <= new Date() ? receipt.date : new Date(),
+      });
     } catch (error) {
       console.error('OCR Error:', error);
       toast({
@@ -78,6 +93,16 @@ export const ReceiptScanner = ({ onItemsScanned }: ReceiptScannerProps) => {
     }
   };
 
+  const handleLanguageChange = (value: string) => {
+    setLanguage(value as OcrLanguage);
+    saveOcrLanguage(value as OcrLanguage);
+  };
+
+  const handleReviewSave = (items: ReviewedItem[]) => {
+    onItemsScanned(items);
+    setReview(null);
+  };
+
   const handleFileUpload = (event: React.ChangeEvent<HTMLInputElement>) => {
     const file = event.target.files?.[0];
     if (file) {
@@ -101,8 +126,23 @@ export const ReceiptScanner = ({ onItemsScanned }: ReceiptScannerProps) => {
 
   return (
     <Card className="p-6">
-      <h2 className="text-xl font-semibold mb-4">Scan Receipt</h2>
-      
+      <div className="flex flex-wrap items-center justify-between gap-2 mb-4">
+        <h2 className="text-xl font-semibold">Scan Receipt</h2>
+        <div className="flex items-center gap-2">
+          <Label htmlFor="receipt-language" className="text-sm text-muted-foreground">Receipt language</Label>
+          <Select value={language} onValueChange={handleLanguageChange} disabled={isScanning}>
+            <SelectTrigger id="receipt-language" className="w-40 h-9">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {(Object.keys(OCR_LANGUAGES) as OcrLanguage[]).map(key => (
+                <SelectItem key={key} value={key}>{OCR_LANGUAGES[key].label}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+      </div>
+
       {isScanning ? (
         <div className="flex flex-col items-center gap-4 py-8">
           <Loader2 className="w-12 h-12 animate-spin text-primary" />
@@ -141,6 +181,21 @@ export const ReceiptScanner = ({ onItemsScanned }: ReceiptScannerProps) => {
           </label>
         </div>
       )}
+
+      {review && (
+        <ReceiptReviewDialog
+          key={review.id}
+          open
+          onOpenChange={(open) => !open && setReview(null)}
+          imageUrl={review.imageUrl}
+          lineBoxes={review.lineBoxes}
+          receipt={review.receipt}
+          purchaseDate={review.purchaseDate}
+          customRules={customRules}
+          shelfLives={shelfLives}
+          onSave={handleReviewSave}
+        />
+      )}
     </Card>
   );
 };
@@ -0,0 +1,40 @@
+import { Cloud, CloudOff, RefreshCw, AlertCircle } from 'lucide-react';
+import { Badge } from '@/components/ui/badge';
+import type { SyncState } from '@/hooks/use-food-items';
+
+interface SyncStatusProps {
+  state: SyncState;
+  pendingCount: number;
+  onRetry: () => void;
+}
+
+export const SyncStatus = ({ state, pendingCount, onRetry }: SyncStatusProps) => {
+  const pending = pendingCount > 0 ? ` · ${pendingCount} pending` : '';
+
+  const getStatus = () => {
+    switch (state) {
+      case 'syncing':
+        return { icon: <RefreshCw className="w-3 h-3 animate-spin" />, label: 'Syncing', className: 'text-muted-foreground' };
+      case 'offline':
+        return { icon: <CloudOff className="w-3 h-3" />, label: `Offline${pending}`, className: 'border-amber-500 text-amber-600' };
+      case 'error':
+        return { icon: <AlertCircle className="w-3 h-3" />, label: `Sync failed${pending}`, className: 'border-destructive text-destructive' };
+      default:
+        return { icon: <Cloud className="w-3 h-3" />, label: 'Synced', className: 'text-muted-foreground' };
+    }
+  };
+
+  const status = getStatus();
+
+  return (
+    <Badge
+      variant="outline"
+      className={`gap-1 cursor-pointer whitespace-nowrap ${status.className}`}
+      onClick={onRetry}
+      title="Sync now"
+    >
+      {status.icon}
+      <span className="hidden sm:inline">{status.label}</span>
+    </Badge>
+  );
+};
@@ -0,0 +1,147 @@
+import { useState } from 'react';
+import { Barcode, Loader2, Save, X } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { ExpiryRule, findExpiryRule } from '@/utils/expiryRules';
+import { displayGtin } from '@/utils/barcode';
+import type { ProductDetails } from '@/hooks/use-product-catalog';
+
+export interface TaughtProduct {
+  gtin: string;
+  name: string;
+  brand: string | null;
+  category: string;
+  shelf_life_days: number | null;
+  image_url: string | null;
+}
+
+interface TeachBarcodeFormProps {
+  gtin: string;
+  busy?: boolean;
+  customRules?: ExpiryRule[];
+  // Details of a known product being corrected; the form teaches a new one without them
+  initial?: ProductDetails;
+  onSave: (product: TaughtProduct) => void;
+  onCancel: () => void;
+}
+
+const categories = ['Dairy', 'Vegetables', 'Fruits', 'Meat', 'Bakery', 'Eggs', 'Other'];
+
+// Shown for barcodes the catalog doesn't know yet; what is entered here is saved for everyone's next scan.
+// With `initial`, corrects a known product instead.
+export const TeachBarcodeForm = ({ gtin, busy = false, customRules = [], initial, onSave, onCancel }: TeachBarcodeFormProps) => {
+  const [name, setName] = useState(initial?.name ?? '');
+  const [brand, setBrand] = useState(initial?.brand ?? '');
+  const [category, setCategory] = useState(initial?.category ?? '');
+  const [shelfLife, setShelfLife] = useState(initial?.shelf_life_days ? String(initial.shelf_life_days) : '');
+  const [imageUrl, setImageUrl] = useState(initial?.image_url ?? '');
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!name.trim()) return;
+
+    const days = parseInt(shelfLife);
+    onSave({
+      gtin,
+      name: name.trim(),
+      brand: brand.trim() || null,
+      category: category || findExpiryRule(name, customRules)?.rule.category || 'Other',
+      shelf_life_days: days > 0 ? days : null,
+      image_url: /^https?:\/\//i.test(imageUrl.trim()) ? imageUrl.trim() : null,
+    });
+  };
+
+  return (
+    <form onSubmit={handleSubmit} className="space-y-4">
+      <div className="flex items-start gap-3 rounded-lg bg-muted/50 p-3 text-sm">
+        <Barcode className="w-5 h-5 mt-0.5 shrink-0 text-primary" />
+        {initial ? (
+          <p>
+            Fix how <span className="font-medium">{displayGtin(gtin)}</span> shows up when you scan it.
+            Other households keep the catalog's details.
+          </p>
+        ) : (
+          <p>
+            <span className="font-medium">{displayGtin(gtin)}</span> isn't in the catalog yet.
+            Tell us what it is and it will be recognized next time.
+          </p>
+        )}
+      </div>
+
+      <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+        <div className="space-y-2">
+          <Label htmlFor="teach-name">Product Name</Label>
+          <Input
+            id="teach-name"
+            value={name}
+            onChange={(e) => setName(e.target.value)}
+            placeholder="e.g., Toned Milk 500ml"
+            required
+          />
+        </div>
+        <div className="space-y-2">
+          <Label htmlFor="teach-brand">Brand</Label>
+          <Input
+            id="teach-brand"
+            value={brand}
+            onChange={(e) => setBrand(e.target.value)}
+            placeholder="Optional"
+          />
+        </div>
+        <div className="space-y-2">
+          <Label>Category</Label>
+          <Select value={category} onValueChange={setCategory}>
+            <SelectTrigger>
+              <SelectValue placeholder="Auto-detect" />
+            </SelectTrigger>
+            <SelectContent>
+              {categories.map(cat => (
+                <SelectItem key={cat} value={cat}>{cat}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+        <div className="space-y-2">
+          <Label htmlFor="teach-shelf-life">Shelf Life (days)</Label>
+          <Input
+            id="teach-shelf-life"
+            type="number"
+            min={1}
+            value={shelfLife}
+            onChange={(e) => setShelfLife(e.target.value)}
+            placeholder="Use expiry rules"
+          />
+        </div>
+      </div>
+
+      <div className="space-y-2">
+        <Label htmlFor="teach-image">Image URL</Label>
+        <div className="flex gap-3 items-center">
+          <Input
+            id="teach-image"
+            type="url"
+            value={imageUrl}
+            onChange={(e) => setImageUrl(e.target.value)}
+            placeholder="Optional"
+          />
+          {/^https?:\/\//i.test(imageUrl.trim()) && (
+            <img src={imageUrl.trim()} alt="" className="w-10 h-10 rounded object-cover border" />
+          )}
+        </div>
+      </div>
+
+      <div className="flex gap-2">
+        <Button type="submit" disabled={busy || !name.trim()}>
+          {busy ? <Loader2 className="w-4 h-4 mr-2 animate-spin" /> : <Save className="w-4 h-4 mr-2" />}
+          {initial ? 'Save Correction' : 'Save & Add'}
+        </Button>
+        <Button type="button" variant="outline" onClick={onCancel} disabled={busy}>
+          <X className="w-4 h-4 mr-2" />
+          Cancel
+        </Button>
+      </div>
+    </form>
+  );
+};
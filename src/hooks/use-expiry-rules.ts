@@ -0,0 +1,57 @@
+import { useCallback, useEffect, useMemo, useState } from "react";
+import { User } from "@supabase/supabase-js";
+import { supabase } from "@/integrations/supabase/client";
+import type { Tables } from "@/integrations/supabase/types";
+import type { ExpiryRule } from "@/utils/expiryRules";
+
+export type CustomExpiryRule = Tables<"custom_expiry_rules">;
+
+export const toExpiryRule = (row: CustomExpiryRule): ExpiryRule => ({
+  keywords: row.keywords,
+  daysUntilExpiry: row.days_until_expiry,
+  category: row.category,
+  storageLocation: row.storage_location,
+  daysAfterOpening: row.days_after_opening ?? undefined,
+  customRuleId: row.id,
+});
+
+/**
+ * The user's own and their household's expiry rules. Pass `customRules` to
+ * findExpiryRule/calculateExpiryDate so they take precedence over the built-ins.
+ */
+export function useExpiryRules(user: User | null) {
+  const [rules, setRules] = useState<CustomExpiryRule[]>([]);
+  const [loading, setLoading] = useState(true);
+
+  const refresh = useCallback(async () => {
+    if (!user) return;
+    setLoading(true);
+
+    try {
+      // RLS returns personal rules plus those of the user's household
+      const { data, error } = await supabase
+        .from("custom_expiry_rules")
+        .select("*")
+        .order("created_at", { ascending: true });
+      if (error) throw error;
+      setRules(data || []);
+    } catch (error) {
+      console.error("Failed to load custom expiry rules:", error);
+    } finally {
+      setLoading(false);
+    }
+  }, [user]);
+
+  useEffect(() => {
+    refresh();
+  }, [refresh]);
+
+  const customRules = useMemo(() => rules.map(toExpiryRule), [rules]);
+
+  return {
+    rules,
+    customRules,
+    loading,
+    refresh,
+  };
+}
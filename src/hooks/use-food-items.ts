@@ -0,0 +1,449 @@
+import { useCallback, useEffect, useRef, useState } from "react";
+import { User } from "@supabase/supabase-js";
+import { supabase } from "@/integrations/supabase/client";
+import type { Enums, TablesInsert, TablesUpdate } from "@/integrations/supabase/types";
+import { useToast } from "@/hooks/use-toast";
+import { subMonths } from "date-fns";
+import {
+  CachedConsumptionEvent,
+  CachedFoodItem,
+  CachedFreezeEvent,
+  CachedWasteEvent,
+  enqueueMutation,
+  getCachedConsumptionEvents,
+  getCachedFreezeEvents,
+  getCachedItems,
+  getCachedWasteEvents,
+  getQueuedMutations,
+  putCachedConsumptionEvents,
+  putCachedFreezeEvents,
+  putCachedItems,
+  putCachedWasteEvents,
+  removeCachedItem,
+  replaceCachedConsumptionEvents,
+  replaceCachedFreezeEvents,
+  replaceCachedItems,
+  replaceCachedWasteEvents,
+} from "@/utils/offlineStore";
+import { isNetworkError, replayMutations } from "@/utils/syncQueue";
+import { DEFAULT_CURRENCY } from "@/utils/money";
+import { daysLeft } from "@/utils/freezeState";
+
+export type SyncState = "synced" | "syncing" | "offline" | "error";
+
+const byExpiry = (a: CachedFoodItem, b: CachedFoodItem) => a.expiry_date.localeCompare(b.expiry_date);
+
+// How much consumption and waste history is kept locally for charts
+const HISTORY_MONTHS = 12;
+
+/**
+ * Inventory backed by a local IndexedDB copy. Every write lands locally first
+ * and is queued; the queue is replayed whenever the browser is online.
+ */
+export function useFoodItems(user: User | null) {
+  const [items, setItems] = useState<CachedFoodItem[]>([]);
+  const [consumptionEvents, setConsumptionEvents] = useState<CachedConsumptionEvent[]>([]);
+  const [wasteEvents, setWasteEvents] = useState<CachedWasteEvent[]>([]);
+  const [freezeEvents, setFreezeEvents] = useState<CachedFreezeEvent[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [syncState, setSyncState] = useState<SyncState>(navigator.onLine ? "syncing" : "offline");
+  const [pendingCount, setPendingCount] = useState(0);
+  const syncInFlight = useRef<Promise<void> | null>(null);
+  const resyncRequested = useRef(false);
+  const { toast } = useToast();
+
+  const userId = user?.id;
+
+  const refreshPendingCount = useCallback(async () => {
+    if (!userId) return;
+    setPendingCount((await getQueuedMutations(userId)).length);
+  }, [userId]);
+
+  const runSync = useCallback(async () => {
+    if (!userId) return;
+    if (!navigator.onLine) {
+      setSyncState("offline");
+      await refreshPendingCount();
+      return;
+    }
+
+    setSyncState("syncing");
+    try {
+      const result = await replayMutations(userId);
+      await refreshPendingCount();
+
+      if (result.superseded > 0) {
+        toast({
+          title: "Offline changes skipped",
+          description: `${result.superseded} change(s) were replaced by newer edits from another device.`,
+        });
+      }
+      if (result.failed.length > 0) {
+        toast({
+          title: "Some changes could not be saved",
+          description: result.failed[0],
+          variant: "destructive",
+        });
+      }
+      if (result.interrupted) {
+        setSyncState("offline");
+        return;
+      }
+
+      const historyStart = subMonths(new Date(), HISTORY_MONTHS).toISOString();
+      const [itemsResult, consumptionResult, wasteResult, freezeResult] = await Promise.all([
+        supabase.from("food_items").select("*").order("expiry_date", { ascending: true }),
+        supabase
+          .from("consumption_events")
+          .select("*")
+          .gte("consumed_at", historyStart)
+          .order("consumed_at", { ascending: true }),
+        supabase
+          .from("waste_events")
+          .select("*")
+          .gte("discarded_at", historyStart)
+          .order("discarded_at", { ascending: true }),
+        // Removed along with their item, so these stay few enough to keep in full
+        supabase.from("freeze_events").select("*").order("occurred_at", { ascending: true }),
+      ]);
+      if (itemsResult.error) throw itemsResult.error;
+      if (consumptionResult.error) throw consumptionResult.error;
+      if (wasteResult.error) throw wasteResult.error;
+      if (freezeResult.error) throw freezeResult.error;
+
+      await replaceCachedItems(userId, itemsResult.data || []);
+      await replaceCachedConsumptionEvents(userId, consumptionResult.data || []);
+      await replaceCachedWasteEvents(userId, wasteResult.data || []);
+      await replaceCachedFreezeEvents(userId, freezeResult.data || []);
+      setItems(itemsResult.data || []);
+      setConsumptionEvents(consumptionResult.data || []);
+      setWasteEvents(wasteResult.data || []);
+      setFreezeEvents(freezeResult.data || []);
+      setSyncState("synced");
+    } catch (error) {
+      if (isNetworkError(error)) {
+        setSyncState("offline");
+      } else {
+        setSyncState("error");
+        toast({
+          title: "Error",
+          description: (error as Error).message,
+          variant: "destructive",
+        });
+      }
+    }
+  }, [userId, refreshPendingCount, toast]);
+
+  // Coalesces overlapping requests into at most one follow-up run
+  const sync = useCallback(async () => {
+    if (syncInFlight.current) {
+      resyncRequested.current = true;
+      return syncInFlight.current;
+    }
+
+    syncInFlight.current = (async () => {
+      do {
+        resyncRequested.current = false;
+        await runSync();
+      } while (resyncRequested.current);
+    })();
+
+    try {
+      await syncInFlight.current;
+    } finally {
+      syncInFlight.current = null;
+    }
+  }, [runSync]);
+
+  useEffect(() => {
+    if (!userId) return;
+    let cancelled = false;
+
+    (async () => {
+      try {
+        const [cached, cachedConsumption, cachedWaste, cachedFreeze] = await Promise.all([
+          getCachedItems(userId),
+          getCachedConsumptionEvents(userId),
+          getCachedWasteEvents(userId),
+          getCachedFreezeEvents(userId),
+        ]);
+        if (!cancelled && cached.length > 0) {
+          setItems(cached.sort(byExpiry));
+          setConsumptionEvents(cachedConsumption);
+          setWasteEvents(cachedWaste);
+          setFreezeEvents(cachedFreeze);
+          setLoading(false);
+        }
+      } catch (error) {
+        console.error("Failed to read offline inventory:", error);
+      }
+      await sync();
+      if (!cancelled) setLoading(false);
+    })();
+
+    const handleOnline = () => sync();
+    const handleOffline = () => setSyncState("offline");
+    window.addEventListener("online", handleOnline);
+    window.addEventListener("offline", handleOffline);
+
+    return () => {
+      cancelled = true;
+      window.removeEventListener("online", handleOnline);
+      window.removeEventListener("offline", handleOffline);
+    };
+  }, [userId, sync]);
+
+  const addItems = useCallback(
+    async (rows: TablesInsert<"food_items">[]) => {
+      if (!userId) return;
+      const now = new Date().toISOString();
+      const newItems: CachedFoodItem[] = rows.map((row) => ({
+        category: null,
+        currency: DEFAULT_CURRENCY,
+        days_left_when_frozen: null,
+        freeze_state: "fresh",
+        frozen_at: null,
+        household_id: null,
+        is_consumed: false,
+        kind: "grocery",
+        lot_number: null,
+        made_from: [],
+        notes: null,
+        opened_at: null,
+        printed_expiry_date: null,
+        purchase_date: now.split("T")[0],
+        quantity: 1,
+        storage_location: "fridge",
+        thawed_at: null,
+        total_price: null,
+        unit_price: null,
+        ...row,
+        id: row.id ?? crypto.randomUUID(),
+        created_at: now,
+        updated_at: now,
+      }));
+
+      setItems((prev) => [...prev, ...newItems].sort(byExpiry));
+      await putCachedItems(userId, newItems);
+      for (const item of newItems) {
+        const { created_at, updated_at, ...payload } = item;
+        await enqueueMutation(userId, { table: "food_items", type: "insert", recordId: item.id, payload, queuedAt: now });
+      }
+      await refreshPendingCount();
+      sync();
+    },
+    [userId, refreshPendingCount, sync]
+  );
+
+  const updateItem = useCallback(
+    async (id: string, changes: TablesUpdate<"food_items">) => {
+      if (!userId) return;
+      const now = new Date().toISOString();
+      const existing = items.find((item) => item.id === id);
+      if (!existing) return;
+
+      const updated = { ...existing, ...changes, updated_at: now };
+      setItems((prev) => prev.map((item) => (item.id === id ? updated : item)));
+      await putCachedItems(userId, [updated]);
+      await enqueueMutation(userId, { table: "food_items", type: "update", recordId: id, payload: changes, queuedAt: now });
+      await refreshPendingCount();
+      sync();
+    },
+    [userId, items, refreshPendingCount, sync]
+  );
+
+  // Uses up part of an item; it only counts as consumed once the quantity reaches zero
+  const consumeItem = useCallback(
+    async (id: string, amount: number) => {
+      if (!userId) return;
+      const existing = items.find((item) => item.id === id);
+      if (!existing) return;
+
+      const available = existing.quantity ?? 0;
+      const used = Math.min(amount, available);
+      if (used <= 0) return;
+
+      const now = new Date().toISOString();
+      const remaining = available - used;
+      const updated = { ...existing, quantity: remaining, is_consumed: remaining <= 0, updated_at: now };
+      const event: CachedConsumptionEvent = {
+        id: crypto.randomUUID(),
+        food_item_id: id,
+        household_id: existing.household_id,
+        user_id: userId,
+        item_name: existing.name,
+        category: existing.category,
+        amount: used,
+        consumed_at: now,
+        created_at: now,
+      };
+
+      setItems((prev) => prev.map((item) => (item.id === id ? updated : item)));
+      setConsumptionEvents((prev) => [...prev, event]);
+      await putCachedItems(userId, [updated]);
+      await putCachedConsumptionEvents(userId, [event]);
+      await enqueueMutation(userId, {
+        type: "rpc",
+        fn: "consume_food_item",
+        recordId: id,
+        recordTable: "food_items",
+        args: { _item_id: id, _amount: used, _event_id: event.id, _consumed_at: now },
+        queuedAt: now,
+      });
+      await refreshPendingCount();
+      sync();
+    },
+    [userId, items, refreshPendingCount, sync]
+  );
+
+  // Throws away part of an item and logs why; the item goes away once nothing is left
+  const discardItem = useCallback(
+    async (id: string, amount: number, reason: Enums<"waste_reason">, estimatedCost: number | null = null) => {
+      if (!userId) return;
+      const existing = items.find((item) => item.id === id);
+      if (!existing) return;
+
+      const available = existing.quantity ?? 0;
+      const discarded = Math.min(amount, available);
+      if (discarded <= 0) return;
+
+      const now = new Date().toISOString();
+      const remaining = available - discarded;
+      const event: CachedWasteEvent = {
+        id: crypto.randomUUID(),
+        food_item_id: remaining > 0 ? id : null,
+        household_id: existing.household_id,
+        user_id: userId,
+        item_name: existing.name,
+        category: existing.category,
+        purchase_date: existing.purchase_date,
+        expiry_date: existing.expiry_date,
+        reason,
+        amount: discarded,
+        estimated_cost: estimatedCost,
+        currency: existing.currency,
+        discarded_at: now,
+        created_at: now,
+      };
+
+      if (remaining > 0) {
+        const updated = { ...existing, quantity: remaining, updated_at: now };
+        setItems((prev) => prev.map((item) => (item.id === id ? updated : item)));
+        await putCachedItems(userId, [updated]);
+      } else {
+        setItems((prev) => prev.filter((item) => item.id !== id));
+        await removeCachedItem(userId, id);
+      }
+      setWasteEvents((prev) => [...prev, event]);
+      await putCachedWasteEvents(userId, [event]);
+      await enqueueMutation(userId, {
+        type: "rpc",
+        fn: "discard_food_item",
+        recordId: id,
+        recordTable: "food_items",
+        args: {
+          _item_id: id,
+          _amount: discarded,
+          _reason: reason,
+          _estimated_cost: estimatedCost,
+          _event_id: event.id,
+          _discarded_at: now,
+        },
+        queuedAt: now,
+      });
+      await refreshPendingCount();
+      sync();
+    },
+    [userId, items, refreshPendingCount, sync]
+  );
+
+  // Freezes or thaws an item; the caller works out the new expiry from the shelf-life rules
+  const setFreezeState = useCallback(
+    async (id: string, state: "frozen" | "thawed", expiryDate: string) => {
+      if (!userId) return;
+      const existing = items.find((item) => item.id === id);
+      if (!existing) return;
+
+      const now = new Date().toISOString();
+      const updated: CachedFoodItem =
+        state === "frozen"
+          ? {
+              ...existing,
+              freeze_state: "frozen",
+              storage_location: "freezer",
+              frozen_at: now,
+              days_left_when_frozen: daysLeft(existing.expiry_date),
+              expiry_date: expiryDate,
+              updated_at: now,
+            }
+          : {
+              ...existing,
+              freeze_state: "thawed",
+              storage_location: "fridge",
+              thawed_at: now,
+              expiry_date: expiryDate,
+              updated_at: now,
+            };
+      const event: CachedFreezeEvent = {
+        id: crypto.randomUUID(),
+        food_item_id: id,
+        household_id: existing.household_id,
+        user_id: userId,
+        item_name: existing.name,
+        from_state: existing.freeze_state,
+        to_state: state,
+        previous_expiry_date: existing.expiry_date,
+        expiry_date: expiryDate,
+        occurred_at: now,
+        created_at: now,
+      };
+
+      setItems((prev) => prev.map((item) => (item.id === id ? updated : item)).sort(byExpiry));
+      setFreezeEvents((prev) => [...prev, event]);
+      await putCachedItems(userId, [updated]);
+      await putCachedFreezeEvents(userId, [event]);
+      await enqueueMutation(userId, {
+        type: "rpc",
+        fn: "set_freeze_state",
+        recordId: id,
+        recordTable: "food_items",
+        args: { _item_id: id, _state: state, _expiry_date: expiryDate, _event_id: event.id, _occurred_at: now },
+        queuedAt: now,
+      });
+      await refreshPendingCount();
+      sync();
+    },
+    [userId, items, refreshPendingCount, sync]
+  );
+
+  const deleteItem = useCallback(
+    async (id: string) => {
+      if (!userId) return;
+      const now = new Date().toISOString();
+
+      setItems((prev) => prev.filter((item) => item.id !== id));
+      await removeCachedItem(userId, id);
+      await enqueueMutation(userId, { table: "food_items", type: "delete", recordId: id, payload: {}, queuedAt: now });
+      await refreshPendingCount();
+      sync();
+    },
+    [userId, refreshPendingCount, sync]
+  );
+
+  return {
+    items,
+    consumptionEvents,
+    wasteEvents,
+    freezeEvents,
+    loading,
+    syncState,
+    pendingCount,
+    sync,
+    addItems,
+    updateItem,
+    consumeItem,
+    discardItem,
+    setFreezeState,
+    deleteItem,
+  };
+}
@@ -0,0 +1,87 @@
+import { useCallback, useEffect, useState } from "react";
+import { User } from "@supabase/supabase-js";
+import { supabase } from "@/integrations/supabase/client";
+import type { Tables, Enums } from "@/integrations/supabase/types";
+
+export type Household = Tables<"households">;
+export type HouseholdMember = Tables<"household_members">;
+export type HouseholdInvite = Tables<"household_invites">;
+export type HouseholdRole = Enums<"household_role">;
+
+export interface PendingInvite extends HouseholdInvite {
+  households: Pick<Household, "name"> | null;
+}
+
+export function useHousehold(user: User | null) {
+  const [household, setHousehold] = useState<Household | null>(null);
+  const [role, setRole] = useState<HouseholdRole | null>(null);
+  const [members, setMembers] = useState<HouseholdMember[]>([]);
+  const [sentInvites, setSentInvites] = useState<HouseholdInvite[]>([]);
+  const [pendingInvites, setPendingInvites] = useState<PendingInvite[]>([]);
+  const [loading, setLoading] = useState(true);
+
+  const refresh = useCallback(async () => {
+    if (!user) return;
+    setLoading(true);
+
+    try {
+      const { data: membership, error } = await supabase
+        .from("household_members")
+        .select("role, households(*)")
+        .eq("user_id", user.id)
+        .maybeSingle();
+      if (error) throw error;
+
+      const current = (membership?.households as Household | null) ?? null;
+      setHousehold(current);
+      setRole(membership?.role ?? null);
+
+      if (current) {
+        const [{ data: memberRows }, { data: inviteRows }] = await Promise.all([
+          supabase.from("household_members").select("*").eq("household_id", current.id).order("created_at"),
+          supabase
+            .from("household_invites")
+            .select("*")
+            .eq("household_id", current.id)
+            .is("accepted_at", null)
+            .order("created_at"),
+        ]);
+        setMembers(memberRows || []);
+        setSentInvites(inviteRows || []);
+        setPendingInvites([]);
+      } else {
+        setMembers([]);
+        setSentInvites([]);
+
+        // RLS only returns invites addressed to the signed-in user's email
+        const { data: inviteRows } = await supabase
+          .from("household_invites")
+          .select("*, households(name)")
+          .is("accepted_at", null);
+        setPendingInvites((inviteRows as PendingInvite[]) || []);
+      }
+    } catch (error) {
+      console.error("Failed to load household:", error);
+    } finally {
+      setLoading(false);
+    }
+  }, [user]);
+
+  useEffect(() => {
+    refresh();
+  }, [refresh]);
+
+  return {
+    household,
+    role,
+    members,
+    sentInvites,
+    pendingInvites,
+    loading,
+    // Users without a household manage their own items. Nothing is editable
+    // until membership is known, so new items can't miss their household.
+    canEdit: !loading && (!household || role === "owner" || role === "editor"),
+    isOwner: role === "owner",
+    refresh,
+  };
+}
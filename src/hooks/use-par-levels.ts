@@ -0,0 +1,44 @@
+import { useCallback, useEffect, useState } from "react";
+import { User } from "@supabase/supabase-js";
+import { supabase } from "@/integrations/supabase/client";
+import type { Tables } from "@/integrations/supabase/types";
+
+export type ParLevel = Tables<"par_levels">;
+
+/**
+ * The user's own and their household's par levels. Pass them to
+ * parShortfalls to find what is under-stocked.
+ */
+export function useParLevels(user: User | null) {
+  const [parLevels, setParLevels] = useState<ParLevel[]>([]);
+  const [loading, setLoading] = useState(true);
+
+  const refresh = useCallback(async () => {
+    if (!user) return;
+    setLoading(true);
+
+    try {
+      // RLS returns personal par levels plus those of the user's household
+      const { data, error } = await supabase
+        .from("par_levels")
+        .select("*")
+        .order("name", { ascending: true });
+      if (error) throw error;
+      setParLevels(data || []);
+    } catch (error) {
+      console.error("Failed to load par levels:", error);
+    } finally {
+      setLoading(false);
+    }
+  }, [user]);
+
+  useEffect(() => {
+    refresh();
+  }, [refresh]);
+
+  return {
+    parLevels,
+    loading,
+    refresh,
+  };
+}
@@ -0,0 +1,72 @@
+import { useCallback } from "react";
+import { User } from "@supabase/supabase-js";
+import { supabase } from "@/integrations/supabase/client";
+import type { Tables, TablesInsert } from "@/integrations/supabase/types";
+
+export type Product = Tables<"products">;
+
+export type ProductDetails = Pick<Product, "name" | "brand" | "category" | "shelf_life_days" | "image_url">;
+
+/**
+ * Barcode lookups against the shared product catalog. Unknown codes are
+ * taught with `teach`, so the next scan of the same product fills itself in.
+ * Wrong details are fixed with `correct`, which only changes what the user's
+ * household (or the user, outside one) sees; the shared row stays as taught.
+ */
+export function useProductCatalog(user: User | null, householdId: string | null = null) {
+  const lookup = useCallback(
+    async (gtin: string): Promise<Product | null> => {
+      const [products, corrections] = await Promise.all([
+        supabase.from("products").select("*").eq("gtin", gtin).maybeSingle(),
+        // RLS returns the user's own corrections plus their household's
+        supabase.from("product_corrections").select("*").eq("gtin", gtin),
+      ]);
+      if (products.error) throw products.error;
+      if (corrections.error) throw corrections.error;
+      if (!products.data) return null;
+
+      const correction = (corrections.data || []).find(row => row.household_id === householdId);
+      if (!correction) return products.data;
+      const { name, brand, category, shelf_life_days, image_url } = correction;
+      return { ...products.data, name, brand, category, shelf_life_days, image_url };
+    },
+    [householdId]
+  );
+
+  const teach = useCallback(
+    async (product: Omit<TablesInsert<"products">, "created_by">): Promise<Product> => {
+      if (!user) throw new Error("Sign in to add products");
+      const { data, error } = await supabase
+        .from("products")
+        .insert({ ...product, created_by: user.id })
+        .select("*")
+        .single();
+      if (error) throw error;
+      return data;
+    },
+    [user]
+  );
+
+  const correct = useCallback(
+    async (gtin: string, details: ProductDetails) => {
+      if (!user) throw new Error("Sign in to correct products");
+
+      let existing = supabase.from("product_corrections").select("id").eq("gtin", gtin);
+      existing = householdId
+        ? existing.eq("household_id", householdId)
+        : existing.is("household_id", null).eq("user_id", user.id);
+      const { data: current, error: readError } = await existing.maybeSingle();
+      if (readError) throw readError;
+
+      const { error } = current
+        ? await supabase.from("product_corrections").update(details).eq("id", current.id)
+        : await supabase
+            .from("product_corrections")
+            .insert({ ...details, gtin, user_id: user.id, household_id: householdId });
+      if (error) throw error;
+    },
+    [user, householdId]
+  );
+
+  return { lookup, teach, correct };
+}
@@ -0,0 +1,109 @@
+import { useCallback, useEffect, useState } from "react";
+import { User } from "@supabase/supabase-js";
+import { supabase } from "@/integrations/supabase/client";
+import type { Tables, TablesInsert } from "@/integrations/supabase/types";
+
+export type ShoppingListItem = Tables<"shopping_list_items">;
+
+/**
+ * The user's own and their household's shopping list. Checking entries off
+ * is applied locally straight away so the list keeps up while shopping.
+ */
+export function useShoppingList(user: User | null) {
+  const [items, setItems] = useState<ShoppingListItem[]>([]);
+  const [loading, setLoading] = useState(true);
+
+  const refresh = useCallback(async () => {
+    if (!user) return;
+    setLoading(true);
+
+    try {
+      // RLS returns personal entries plus those of the user's household
+      const { data, error } = await supabase
+        .from("shopping_list_items")
+        .select("*")
+        .order("created_at", { ascending: true });
+      if (error) throw error;
+      setItems(data || []);
+    } catch (error) {
+      console.error("Failed to load shopping list:", error);
+    } finally {
+      setLoading(false);
+    }
+  }, [user]);
+
+  useEffect(() => {
+    refresh();
+  }, [refresh]);
+
+  const addItems = useCallback(
+    async (entries: Omit<TablesInsert<"shopping_list_items">, "user_id">[]) => {
+      if (!user) throw new Error("Not signed in");
+      if (entries.length === 0) return;
+      const { data, error } = await supabase
+        .from("shopping_list_items")
+        .insert(entries.map(entry => ({ ...entry, user_id: user.id })))
+        .select("*");
+      if (error) throw error;
+      setItems(prev => [...prev, ...(data || [])]);
+    },
+    [user]
+  );
+
+  const setChecked = useCallback(async (id: string, checked: boolean) => {
+    const previous = items.find(item => item.id === id);
+    if (!previous) return;
+    const checkedAt = checked ? new Date().toISOString() : null;
+    setItems(prev => prev.map(item => (item.id === id ? { ...item, is_checked: checked, checked_at: checkedAt } : item)));
+
+    const { error } = await supabase
+      .from("shopping_list_items")
+      .update({ is_checked: checked, checked_at: checkedAt })
+      .eq("id", id);
+    if (error) {
+      const { is_checked, checked_at } = previous;
+      setItems(prev => prev.map(item => (item.id === id ? { ...item, is_checked, checked_at } : item)));
+      throw error;
+    }
+  }, [items]);
+
+  const updateQuantity = useCallback(async (id: string, quantity: number) => {
+    const { error } = await supabase.from("shopping_list_items").update({ quantity }).eq("id", id);
+    if (error) throw error;
+    setItems(prev => prev.map(item => (item.id === id ? { ...item, quantity } : item)));
+  }, []);
+
+  const removeItems = useCallback(async (ids: string[]) => {
+    if (ids.length === 0) return;
+    const { error } = await supabase.from("shopping_list_items").delete().in("id", ids);
+    if (error) throw error;
+    setItems(prev => prev.filter(item => !ids.includes(item.id)));
+  }, []);
+
+  // Takes bought entries off the list and saves them as food items in one
+  // server transaction: either both happen or neither does.
+  const purchaseItems = useCallback(
+    async (ids: string[], foodItems: TablesInsert<"food_items">[]) => {
+      if (ids.length === 0) return [];
+      const { data, error } = await supabase.rpc("purchase_shopping_list_items", {
+        _entry_ids: ids,
+        _items: foodItems,
+      });
+      if (error) throw error;
+      setItems(prev => prev.filter(item => !ids.includes(item.id)));
+      return data || [];
+    },
+    []
+  );
+
+  return {
+    items,
+    loading,
+    refresh,
+    addItems,
+    setChecked,
+    updateQuantity,
+    removeItems,
+    purchaseItems,
+  };
+}
@@ -14,57 +14,917 @@ export type Database = {
   }
   public: {
     Tables: {
+      consumption_events: {
+        Row: {
+          amount: number
+          category: string | null
+          consumed_at: string
+          created_at: string
+          food_item_id: string | null
+          household_id: string | null
+          id: string
+          item_name: string
+          user_id: string
+        }
+        Insert: {
+          amount: number
+          category?: string | null
+          consumed_at?: string
+          created_at?: string
+          food_item_id?: string | null
+          household_id?: string | null
+          id?: string
+          item_name: string
+          user_id: string
+        }
+        Update: {
+          amount?: number
+          category?: string | null
+          consumed_at?: string
+          created_at?: string
+          food_item_id?: string | null
+          household_id?: string | null
+          id?: string
+          item_name?: string
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "consumption_events_food_item_id_fkey"
+            columns: ["food_item_id"]
+            isOneToOne: false
+            referencedRelation: "food_items"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "consumption_events_household_id_fkey"
+            columns: ["household_id"]
+            isOneToOne: false
+            referencedRelation: "households"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      custom_expiry_rules: {
+        Row: {
+          category: string
+          created_at: string
+          days_after_opening: number | null
+          days_until_expiry: number
+          household_id: string | null
+          id: string
+          keywords: string[]
+          storage_location: Database["public"]["Enums"]["storage_location"] | null
+          updated_at: string
+          user_id: string
+        }
+        Insert: {
+          category?: string
+          created_at?: string
+          days_after_opening?: number | null
+          days_until_expiry: number
+          household_id?: string | null
+          id?: string
+          keywords: string[]
+          storage_location?: Database["public"]["Enums"]["storage_location"] | null
+          updated_at?: string
+          user_id: string
+        }
+        Update: {
+          category?: string
+          created_at?: string
+          days_after_opening?: number | null
+          days_until_expiry?: number
+          household_id?: string | null
+          id?: string
+          keywords?: string[]
+          storage_location?: Database["public"]["Enums"]["storage_location"] | null
+          updated_at?: string
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "custom_expiry_rules_household_id_fkey"
+            columns: ["household_id"]
+            isOneToOne: false
+            referencedRelation: "households"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       food_items: {
         Row: {
           category: string | null
           created_at: string
+          currency: string
+          days_left_when_frozen: number | null
           expiry_date: string
+          freeze_state: Database["public"]["Enums"]["freeze_state"]
+          frozen_at: string | null
+          household_id: string | null
           id: string
           is_consumed: boolean | null
+          kind: Database["public"]["Enums"]["item_kind"]
+          lot_number: string | null
+          made_from: string[]
           name: string
           notes: string | null
+          opened_at: string | null
+          printed_expiry_date: string | null
           purchase_date: string
           quantity: number | null
+          storage_location: Database["public"]["Enums"]["storage_location"]
+          thawed_at: string | null
+          total_price: number | null
+          unit_price: number | null
           updated_at: string
           user_id: string
         }
         Insert: {
           category?: string | null
           created_at?: string
+          currency?: string
+          days_left_when_frozen?: number | null
           expiry_date: string
+          freeze_state?: Database["public"]["Enums"]["freeze_state"]
+          frozen_at?: string | null
+          household_id?: string | null
           id?: string
           is_consumed?: boolean | null
+          kind?: Database["public"]["Enums"]["item_kind"]
+          lot_number?: string | null
+          made_from?: string[]
           name: string
           notes?: string | null
+          opened_at?: string | null
+          printed_expiry_date?: string | null
           purchase_date?: string
           quantity?: number | null
+          storage_location?: Database["public"]["Enums"]["storage_location"]
+          thawed_at?: string | null
+          total_price?: number | null
+          unit_price?: number | null
           updated_at?: string
           user_id: string
         }
         Update: {
           category?: string | null
           created_at?: string
+          currency?: string
+          days_left_when_frozen?: number | null
           expiry_date?: string
+          freeze_state?: Database["public"]["Enums"]["freeze_state"]
+          frozen_at?: string | null
+          household_id?: string | null
           id?: string
           is_consumed?: boolean | null
+          kind?: Database["public"]["Enums"]["item_kind"]
+          lot_number?: string | null
+          made_from?: string[]
           name?: string
           notes?: string | null
+          opened_at?: string | null
+          printed_expiry_date?: string | null
           purchase_date?: string
           quantity?: number | null
+          storage_location?: Database["public"]["Enums"]["storage_location"]
+          thawed_at?: string | null
+          total_price?: number | null
+          unit_price?: number | null
+          updated_at?: string
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "food_items_household_id_fkey"
+            columns: ["household_id"]
+            isOneToOne: false
+            referencedRelation: "households"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      freeze_events: {
+        Row: {
+          created_at: string
+          expiry_date: string
+          food_item_id: string | null
+          from_state: Database["public"]["Enums"]["freeze_state"]
+          household_id: string | null
+          id: string
+          item_name: string
+          occurred_at: string
+          previous_expiry_date: string | null
+          to_state: Database["public"]["Enums"]["freeze_state"]
+          user_id: string
+        }
+        Insert: {
+          created_at?: string
+          expiry_date: string
+          food_item_id?: string | null
+          from_state: Database["public"]["Enums"]["freeze_state"]
+          household_id?: string | null
+          id?: string
+          item_name: string
+          occurred_at?: string
+          previous_expiry_date?: string | null
+          to_state: Database["public"]["Enums"]["freeze_state"]
+          user_id: string
+        }
+        Update: {
+          created_at?: string
+          expiry_date?: string
+          food_item_id?: string | null
+          from_state?: Database["public"]["Enums"]["freeze_state"]
+          household_id?: string | null
+          id?: string
+          item_name?: string
+          occurred_at?: string
+          previous_expiry_date?: string | null
+          to_state?: Database["public"]["Enums"]["freeze_state"]
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "freeze_events_food_item_id_fkey"
+            columns: ["food_item_id"]
+            isOneToOne: false
+            referencedRelation: "food_items"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "freeze_events_household_id_fkey"
+            columns: ["household_id"]
+            isOneToOne: false
+            referencedRelation: "households"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      household_invites: {
+        Row: {
+          accepted_at: string | null
+          created_at: string
+          email: string
+          household_id: string
+          id: string
+          invited_by: string
+          role: Database["public"]["Enums"]["household_role"]
+        }
+        Insert: {
+          accepted_at?: string | null
+          created_at?: string
+          email: string
+          household_id: string
+          id?: string
+          invited_by: string
+          role?: Database["public"]["Enums"]["household_role"]
+        }
+        Update: {
+          accepted_at?: string | null
+          created_at?: string
+          email?: string
+          household_id?: string
+          id?: string
+          invited_by?: string
+          role?: Database["public"]["Enums"]["household_role"]
+        }
+        Relationships: [
+          {
+            foreignKeyName: "household_invites_household_id_fkey"
+            columns: ["household_id"]
+            isOneToOne: false
+            referencedRelation: "households"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      household_members: {
+        Row: {
+          created_at: string
+          display_name: string | null
+          email: string | null
+          household_id: string
+          id: string
+          role: Database["public"]["Enums"]["household_role"]
+          user_id: string
+        }
+        Insert: {
+          created_at?: string
+          display_name?: string | null
+          email?: string | null
+          household_id: string
+          id?: string
+          role?: Database["public"]["Enums"]["household_role"]
+          user_id: string
+        }
+        Update: {
+          created_at?: string
+          display_name?: string | null
+          email?: string | null
+          household_id?: string
+          id?: string
+          role?: Database["public"]["Enums"]["household_role"]
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "household_members_household_id_fkey"
+            columns: ["household_id"]
+            isOneToOne: false
+            referencedRelation: "households"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      households: {
+        Row: {
+          created_at: string
+          created_by: string
+          id: string
+          invite_code: string
+          name: string
+          updated_at: string
+        }
+        Insert: {
+          created_at?: string
+          created_by: string
+          id?: string
+          invite_code?: string
+          name: string
+          updated_at?: string
+        }
+        Update: {
+          created_at?: string
+          created_by?: string
+          id?: string
+          invite_code?: string
+          name?: string
+          updated_at?: string
+        }
+        Relationships: []
+      }
+      par_levels: {
+        Row: {
+          created_at: string
+          household_id: string | null
+          id: string
+          name: string
+          notify: boolean
+          quantity: number
+          updated_at: string
+          user_id: string
+        }
+        Insert: {
+          created_at?: string
+          household_id?: string | null
+          id?: string
+          name: string
+          notify?: boolean
+          quantity: number
+          updated_at?: string
+          user_id: string
+        }
+        Update: {
+          created_at?: string
+          household_id?: string | null
+          id?: string
+          name?: string
+          notify?: boolean
+          quantity?: number
+          updated_at?: string
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "par_levels_household_id_fkey"
+            columns: ["household_id"]
+            isOneToOne: false
+            referencedRelation: "households"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      product_corrections: {
+        Row: {
+          brand: string | null
+          category: string
+          created_at: string
+          gtin: string
+          household_id: string | null
+          id: string
+          image_url: string | null
+          name: string
+          shelf_life_days: number | null
+          updated_at: string
+          user_id: string
+        }
+        Insert: {
+          brand?: string | null
+          category?: string
+          created_at?: string
+          gtin: string
+          household_id?: string | null
+          id?: string
+          image_url?: string | null
+          name: string
+          shelf_life_days?: number | null
+          updated_at?: string
+          user_id: string
+        }
+        Update: {
+          brand?: string | null
+          category?: string
+          created_at?: string
+          gtin?: string
+          household_id?: string | null
+          id?: string
+          image_url?: string | null
+          name?: string
+          shelf_life_days?: number | null
+          updated_at?: string
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "product_corrections_gtin_fkey"
+            columns: ["gtin"]
+            isOneToOne: false
+            referencedRelation: "products"
+            referencedColumns: ["gtin"]
+          },
+          {
+            foreignKeyName: "product_corrections_household_id_fkey"
+            columns: ["household_id"]
+            isOneToOne: false
+            referencedRelation: "households"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      products: {
+        Row: {
+          brand: string | null
+          category: string
+          created_at: string
+          created_by: string | null
+          gtin: string
+          image_url: string | null
+          name: string
+          shelf_life_days: number | null
+          updated_at: string
+        }
+        Insert: {
+          brand?: string | null
+          category?: string
+          created_at?: string
+          created_by?: string | null
+          gtin: string
+          image_url?: string | null
+          name: string
+          shelf_life_days?: number | null
+          updated_at?: string
+        }
+        Update: {
+          brand?: string | null
+          category?: string
+          created_at?: string
+          created_by?: string | null
+          gtin?: string
+          image_url?: string | null
+          name?: string
+          shelf_life_days?: number | null
+          updated_at?: string
+        }
+        Relationships: []
+      }
+      push_subscriptions: {
+        Row: {
+          auth: string
+          created_at: string
+          endpoint: string
+          id: string
+          p256dh: string
+          updated_at: string
+          user_agent: string | null
+          user_id: string
+        }
+        Insert: {
+          auth: string
+          created_at?: string
+          endpoint: string
+          id?: string
+          p256dh: string
+          updated_at?: string
+          user_agent?: string | null
+          user_id: string
+        }
+        Update: {
+          auth?: string
+          created_at?: string
+          endpoint?: string
+          id?: string
+          p256dh?: string
+          updated_at?: string
+          user_agent?: string | null
+          user_id?: string
+        }
+        Relationships: []
+      }
+      sent_reminders: {
+        Row: {
+          channel: string
+          reminder_key: string
+          sent_at: string
+          user_id: string
+        }
+        Insert: {
+          channel?: string
+          reminder_key: string
+          sent_at?: string
+          user_id: string
+        }
+        Update: {
+          channel?: string
+          reminder_key?: string
+          sent_at?: string
+          user_id?: string
+        }
+        Relationships: []
+      }
+      shopping_list_items: {
+        Row: {
+          category: string
+          checked_at: string | null
+          created_at: string
+          household_id: string | null
+          id: string
+          is_checked: boolean
+          name: string
+          quantity: number
+          source: Database["public"]["Enums"]["shopping_list_source"]
+          updated_at: string
+          user_id: string
+        }
+        Insert: {
+          category?: string
+          checked_at?: string | null
+          created_at?: string
+          household_id?: string | null
+          id?: string
+          is_checked?: boolean
+          name: string
+          quantity?: number
+          source?: Database["public"]["Enums"]["shopping_list_source"]
+          updated_at?: string
+          user_id: string
+        }
+        Update: {
+          category?: string
+          checked_at?: string | null
+          created_at?: string
+          household_id?: string | null
+          id?: string
+          is_checked?: boolean
+          name?: string
+          quantity?: number
+          source?: Database["public"]["Enums"]["shopping_list_source"]
+          updated_at?: string
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "shopping_list_items_household_id_fkey"
+            columns: ["household_id"]
+            isOneToOne: false
+            referencedRelation: "households"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      user_preferences: {
+        Row: {
+          categories: string[]
+          created_at: string
+          digest_time: string
+          email_digest_enabled: boolean
+          enable_category_reminders: boolean
+          enable_daily_digest: boolean
+          notifications_enabled: boolean
+          reminder_1_day: boolean
+          reminder_3_days: boolean
+          reminder_7_days: boolean
+          timezone: string
+          updated_at: string
+          user_id: string
+        }
+        Insert: {
+          categories?: string[]
+          created_at?: string
+          digest_time?: string
+          email_digest_enabled?: boolean
+          enable_category_reminders?: boolean
+          enable_daily_digest?: boolean
+          notifications_enabled?: boolean
+          reminder_1_day?: boolean
+          reminder_3_days?: boolean
+          reminder_7_days?: boolean
+          timezone?: string
+          updated_at?: string
+          user_id: string
+        }
+        Update: {
+          categories?: string[]
+          created_at?: string
+          digest_time?: string
+          email_digest_enabled?: boolean
+          enable_category_reminders?: boolean
+          enable_daily_digest?: boolean
+          notifications_enabled?: boolean
+          reminder_1_day?: boolean
+          reminder_3_days?: boolean
+          reminder_7_days?: boolean
+          timezone?: string
           updated_at?: string
           user_id?: string
         }
         Relationships: []
       }
+      waste_events: {
+        Row: {
+          amount: number
+          category: string | null
+          created_at: string
+          currency: string
+          discarded_at: string
+          estimated_cost: number | null
+          expiry_date: string | null
+          food_item_id: string | null
+          household_id: string | null
+          id: string
+          item_name: string
+          purchase_date: string | null
+          reason: Database["public"]["Enums"]["waste_reason"]
+          user_id: string
+        }
+        Insert: {
+          amount: number
+          category?: string | null
+          created_at?: string
+          currency?: string
+          discarded_at?: string
+          estimated_cost?: number | null
+          expiry_date?: string | null
+          food_item_id?: string | null
+          household_id?: string | null
+          id?: string
+          item_name: string
+          purchase_date?: string | null
+          reason: Database["public"]["Enums"]["waste_reason"]
+          user_id: string
+        }
+        Update: {
+          amount?: number
+          category?: string | null
+          created_at?: string
+          currency?: string
+          discarded_at?: string
+          estimated_cost?: number | null
+          expiry_date?: string | null
+          food_item_id?: string | null
+          household_id?: string | null
+          id?: string
+          item_name?: string
+          purchase_date?: string | null
+          reason?: Database["public"]["Enums"]["waste_reason"]
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "waste_events_food_item_id_fkey"
+            columns: ["food_item_id"]
+            isOneToOne: false
+            referencedRelation: "food_items"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "waste_events_household_id_fkey"
+            columns: ["household_id"]
+            isOneToOne: false
+            referencedRelation: "households"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
     }
     Views: {
       [_ in never]: never
     }
     Functions: {
-      [_ in never]: never
+      accept_household_invite: {
+        Args: { _invite_id: string }
+        Returns: {
+          created_at: string
+          created_by: string
+          id: string
+          invite_code: string
+          name: string
+          updated_at: string
+        }
+      }
+      can_edit_household: {
+        Args: { _household_id: string }
+        Returns: boolean
+      }
+      consume_food_item: {
+        Args: {
+          _amount: number
+          _consumed_at?: string
+          _event_id?: string
+          _item_id: string
+        }
+        Returns: {
+          category: string | null
+          created_at: string
+          currency: string
+          days_left_when_frozen: number | null
+          expiry_date: string
+          freeze_state: Database["public"]["Enums"]["freeze_state"]
+          frozen_at: string | null
+          household_id: string | null
+          id: string
+          is_consumed: boolean | null
+          kind: Database["public"]["Enums"]["item_kind"]
+          lot_number: string | null
+          made_from: string[]
+          name: string
+          notes: string | null
+          opened_at: string | null
+          printed_expiry_date: string | null
+          purchase_date: string
+          quantity: number | null
+          storage_location: Database["public"]["Enums"]["storage_location"]
+          thawed_at: string | null
+          total_price: number | null
+          unit_price: number | null
+          updated_at: string
+          user_id: string
+        }
+      }
+      create_household: {
+        Args: { _name: string }
+        Returns: {
+          created_at: string
+          created_by: string
+          id: string
+          invite_code: string
+          name: string
+          updated_at: string
+        }
+      }
+      discard_food_item: {
+        Args: {
+          _amount: number
+          _discarded_at?: string
+          _estimated_cost?: number
+          _event_id?: string
+          _item_id: string
+          _reason: Database["public"]["Enums"]["waste_reason"]
+        }
+        Returns: {
+          category: string | null
+          created_at: string
+          currency: string
+          days_left_when_frozen: number | null
+          expiry_date: string
+          freeze_state: Database["public"]["Enums"]["freeze_state"]
+          frozen_at: string | null
+          household_id: string | null
+          id: string
+          is_consumed: boolean | null
+          kind: Database["public"]["Enums"]["item_kind"]
+          lot_number: string | null
+          made_from: string[]
+          name: string
+          notes: string | null
+          opened_at: string | null
+          printed_expiry_date: string | null
+          purchase_date: string
+          quantity: number | null
+          storage_location: Database["public"]["Enums"]["storage_location"]
+          thawed_at: string | null
+          total_price: number | null
+          unit_price: number | null
+          updated_at: string
+          user_id: string
+        }
+      }
+      get_household_role: {
+        Args: { _household_id: string }
+        Returns: Database["public"]["Enums"]["household_role"]
+      }
+      is_household_member: {
+        Args: { _household_id: string }
+        Returns: boolean
+      }
+      join_household: {
+        Args: { _invite_code: string }
+        Returns: {
+          created_at: string
+          created_by: string
+          id: string
+          invite_code: string
+          name: string
+          updated_at: string
+        }
+      }
+      leave_household: {
+        Args: never
+        Returns: undefined
+      }
+      purchase_shopping_list_items: {
+        Args: { _entry_ids: string[]; _items: Json }
+        Returns: {
+          category: string | null
+          created_at: string
+          currency: string
+          days_left_when_frozen: number | null
+          expiry_date: string
+          freeze_state: Database["public"]["Enums"]["freeze_state"]
+          frozen_at: string | null
+          household_id: string | null
+          id: string
+          is_consumed: boolean | null
+          kind: Database["public"]["Enums"]["item_kind"]
+          lot_number: string | null
+          made_from: string[]
+          name: string
+          notes: string | null
+          opened_at: string | null
+          printed_expiry_date: string | null
+          purchase_date: string
+          quantity: number | null
+          storage_location: Database["public"]["Enums"]["storage_location"]
+          thawed_at: string | null
+          total_price: number | null
+          unit_price: number | null
+          updated_at: string
+          user_id: string
+        }[]
+      }
+      save_push_subscription: {
+        Args: {
+          _auth: string
+          _endpoint: string
+          _p256dh: string
+          _user_agent: string
+        }
+        Returns: undefined
+      }
+      set_freeze_state: {
+        Args: {
+          _event_id?: string
+          _expiry_date: string
+          _item_id: string
+          _occurred_at?: string
+          _state: Database["public"]["Enums"]["freeze_state"]
+        }
+        Returns: {
+          category: string | null
+          created_at: string
+          currency: string
+          days_left_when_frozen: number | null
+          expiry_date: string
+          freeze_state: Database["public"]["Enums"]["freeze_state"]
+          frozen_at: string | null
+          household_id: string | null
+          id: string
+          is_consumed: boolean | null
+          kind: Database["public"]["Enums"]["item_kind"]
+          lot_number: string | null
+          made_from: string[]
+          name: string
+          notes: string | null
+          opened_at: string | null
+          printed_expiry_date: string | null
+          purchase_date: string
+          quantity: number | null
+          storage_location: Database["public"]["Enums"]["storage_location"]
+          thawed_at: string | null
+          total_price: number | null
+          unit_price: number | null
+          updated_at: string
+          user_id: string
+        }
+      }
     }
     Enums: {
-      [_ in never]: never
+      freeze_state: "fresh" | "frozen" | "thawed"
+      household_role: "owner" | "editor" | "viewer"
+      item_kind: "grocery" | "leftover"
+      shopping_list_source: "manual" | "consumed" | "low_stock"
+      storage_location: "fridge" | "freezer" | "pantry"
+      waste_reason: "spoiled" | "expired" | "forgot" | "too_much"
     }
     CompositeTypes: {
       [_ in never]: never
@@ -191,6 +1051,13 @@ export type CompositeTypes<
 
 export const Constants = {
   public: {
-    Enums: {},
+    Enums: {
+      freeze_state: ["fresh", "frozen", "thawed"],
+      household_role: ["owner", "editor", "viewer"],
+      item_kind: ["grocery", "leftover"],
+      shopping_list_source: ["manual", "consumed", "low_stock"],
+      storage_location: ["fridge", "freezer", "pantry"],
+      waste_reason: ["spoiled", "expired", "forgot", "too_much"],
+    },
   },
 } as const
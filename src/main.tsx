@@ -1,5 +1,11 @@
 import { createRoot } from "react-dom/client";
 import App from "./App.tsx";
 import "./index.css";
+import { registerServiceWorker } from "./utils/pushNotifications";
 
 createRoot(document.getElementById("root")!).render(<App />);
+
+// The worker caches the built app shell; under the dev server it would serve stale modules
+if (import.meta.env.PROD) {
+  registerServiceWorker();
+}
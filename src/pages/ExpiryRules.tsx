@@ -0,0 +1,416 @@
+import { useState, useEffect } from 'react';
+import { useNavigate } from 'react-router-dom';
+import { supabase } from '@/integrations/supabase/client';
+import { User } from '@supabase/supabase-js';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Badge } from '@/components/ui/badge';
+import { Switch } from '@/components/ui/switch';
+import { Separator } from '@/components/ui/separator';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { useToast } from '@/hooks/use-toast';
+import { useHousehold } from '@/hooks/use-household';
+import { CustomExpiryRule, useExpiryRules } from '@/hooks/use-expiry-rules';
+import { ExpiryRule, expiryRules, findExpiryRule, shelfLifeDays } from '@/utils/expiryRules';
+import { STORAGE_LOCATION_LABELS, StorageLocation } from '@/utils/storageLocation';
+import { ArrowLeft, BookOpen, Pencil, Plus, Save, Search, Trash2, X } from 'lucide-react';
+
+const categories = ['Dairy', 'Vegetables', 'Fruits', 'Meat', 'Bakery', 'Eggs', 'Other'];
+
+const ANY_LOCATION = 'any';
+
+interface RuleForm {
+  keywords: string;
+  days: string;
+  // Empty when opening makes no difference
+  afterOpening: string;
+  category: string;
+  location: StorageLocation | typeof ANY_LOCATION;
+  shared: boolean;
+}
+
+// New rules are personal until explicitly shared with the household
+const emptyForm: RuleForm = {
+  keywords: '',
+  days: '7',
+  afterOpening: '',
+  category: 'Other',
+  location: ANY_LOCATION,
+  shared: false,
+};
+
+const parseKeywords = (text: string) =>
+  Array.from(new Set(text.split(',').map(keyword => keyword.trim().toLowerCase()).filter(Boolean)));
+
+const ExpiryRules = () => {
+  const [user, setUser] = useState<User | null>(null);
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [form, setForm] = useState<RuleForm>(emptyForm);
+  const [busy, setBusy] = useState(false);
+  const [testName, setTestName] = useState('');
+  const navigate = useNavigate();
+  const { toast } = useToast();
+  const { household, canEdit } = useHousehold(user);
+  const { rules, customRules, loading, refresh } = useExpiryRules(user);
+
+  useEffect(() => {
+    supabase.auth.getSession().then(({ data: { session } }) => {
+      if (session?.user) {
+        setUser(session.user);
+      } else {
+        navigate('/auth');
+      }
+    });
+
+    const { data: { subscription } } = supabase.auth.onAuthStateChange((_, session) => {
+      if (!session?.user) {
+        navigate('/auth');
+      }
+    });
+
+    return () => subscription.unsubscribe();
+  }, [navigate]);
+
+  // Keywords that a custom rule already covers, to flag the built-ins it overrides
+  const customKeywords = new Set(customRules.flatMap(rule => rule.keywords));
+  const testMatch = testName.trim() ? findExpiryRule(testName, customRules) : null;
+
+  const updateForm = <K extends keyof RuleForm>(key: K, value: RuleForm[K]) => {
+    setForm(prev => ({ ...prev, [key]: value }));
+  };
+
+  const resetForm = () => {
+    setEditingId(null);
+    setForm(emptyForm);
+  };
+
+  const handleEdit = (rule: CustomExpiryRule) => {
+    setEditingId(rule.id);
+    setForm({
+      keywords: rule.keywords.join(', '),
+      days: String(rule.days_until_expiry),
+      afterOpening: rule.days_after_opening ? String(rule.days_after_opening) : '',
+      category: rule.category,
+      location: rule.storage_location ?? ANY_LOCATION,
+      shared: !!rule.household_id,
+    });
+  };
+
+  // Starts a new rule from a built-in one, e.g. to give milk more days
+  const handleOverride = (rule: ExpiryRule) => {
+    setEditingId(null);
+    setForm({
+      keywords: rule.keywords.join(', '),
+      days: String(rule.daysUntilExpiry),
+      afterOpening: rule.daysAfterOpening ? String(rule.daysAfterOpening) : '',
+      category: rule.category,
+      location: ANY_LOCATION,
+      shared: false,
+    });
+  };
+
+  const run = async (action: () => PromiseLike<{ error: { message: string } | null }>, successTitle: string) => {
+    setBusy(true);
+    try {
+      const { error } = await action();
+      if (error) throw error;
+      toast({ title: successTitle });
+      await refresh();
+      return true;
+    } catch (error) {
+      toast({
+        title: 'Error',
+        description: (error as Error).message,
+        variant: 'destructive',
+      });
+      return false;
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const handleSave = async () => {
+    if (!user) return;
+    const keywords = parseKeywords(form.keywords);
+    const days = parseInt(form.days);
+    const afterOpening = form.afterOpening.trim() ? parseInt(form.afterOpening) : null;
+    if (keywords.length === 0 || !(days > 0) || (afterOpening !== null && !(afterOpening > 0))) {
+      toast({
+        title: 'Incomplete rule',
+        description: 'Enter at least one keyword and a number of days above zero.',
+        variant: 'destructive',
+      });
+      return;
+    }
+
+    const values = {
+      keywords,
+      days_until_expiry: days,
+      days_after_opening: afterOpening,
+      category: form.category,
+      storage_location: form.location === ANY_LOCATION ? null : form.location,
+      household_id: form.shared && household ? household.id : null,
+    };
+    const saved = await run(
+      () => editingId
+        ? supabase.from('custom_expiry_rules').update(values).eq('id', editingId)
+        : supabase.from('custom_expiry_rules').insert({ ...values, user_id: user.id }),
+      editingId ? 'Rule updated' : 'Rule added',
+    );
+    if (saved) resetForm();
+  };
+
+  const handleDelete = async (id: string) => {
+    const deleted = await run(() => supabase.from('custom_expiry_rules').delete().eq('id', id), 'Rule deleted');
+    if (deleted && editingId === id) resetForm();
+  };
+
+  // Household rules can only be changed by owners and editors
+  const canModify = (rule: CustomExpiryRule) => !rule.household_id || canEdit;
+
+  return (
+    <div className="min-h-screen bg-background">
+      {/* Header */}
+      <header className="sticky top-0 z-50 bg-background/95 backdrop-blur border-b">
+        <div className="max-w-3xl mx-auto px-4 py-3 flex items-center gap-4">
+          <Button variant="ghost" size="icon" onClick={() => navigate('/settings')}>
+            <ArrowLeft className="w-5 h-5" />
+          </Button>
+          <h1 className="text-xl font-bold">Expiry Rules</h1>
+        </div>
+      </header>
+
+      <main className="max-w-3xl mx-auto px-4 py-6 space-y-6">
+        {/* Rule editor */}
+        <Card>
+          <CardHeader>
+            <CardTitle className="flex items-center gap-2">
+              {editingId ? <Pencil className="w-5 h-5" /> : <Plus className="w-5 h-5" />}
+              {editingId ? 'Edit Rule' : 'Add a Rule'}
+            </CardTitle>
+            <CardDescription>
+              Your rules are used before the built-in ones when working out expiry dates.
+            </CardDescription>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            <div className="space-y-2">
+              <Label htmlFor="rule-keywords">Keywords</Label>
+              <Input
+                id="rule-keywords"
+                value={form.keywords}
+                onChange={(e) => updateForm('keywords', e.target.value)}
+                placeholder="e.g., idli batter, dosa batter"
+              />
+              <p className="text-xs text-muted-foreground">
+                Separate keywords with commas. Items whose name contains one of these words use this rule.
+              </p>
+            </div>
+
+            <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+              <div className="space-y-2">
+                <Label htmlFor="rule-days">Days until expiry</Label>
+                <Input
+                  id="rule-days"
+                  type="number"
+                  min={1}
+                  value={form.days}
+                  onChange={(e) => updateForm('days', e.target.value)}
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="rule-after-opening">Days once opened</Label>
+                <Input
+                  id="rule-after-opening"
+                  type="number"
+                  min={1}
+                  value={form.afterOpening}
+                  onChange={(e) => updateForm('afterOpening', e.target.value)}
+                  placeholder="Same as printed date"
+                />
+              </div>
+              <div className="space-y-2">
+                <Label>Category</Label>
+                <Select value={form.category} onValueChange={(value) => updateForm('category', value)}>
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {categories.map(cat => (
+                      <SelectItem key={cat} value={cat}>{cat}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="space-y-2">
+                <Label>Only when kept in</Label>
+                <Select
+                  value={form.location}
+                  onValueChange={(value) => updateForm('location', value as RuleForm['location'])}
+                >
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value={ANY_LOCATION}>Any</SelectItem>
+                    {(Object.keys(STORAGE_LOCATION_LABELS) as StorageLocation[]).map(key => (
+                      <SelectItem key={key} value={key}>{STORAGE_LOCATION_LABELS[key]}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            </div>
+
+            {household && (
+              <div className="flex items-center justify-between">
+                <div className="space-y-0.5">
+                  <Label>Share with {household.name}</Label>
+                  <p className="text-sm text-muted-foreground">
+                    {canEdit
+                      ? 'Everyone in the household will use this rule.'
+                      : 'Only owners and editors can add household rules.'}
+                  </p>
+                </div>
+                <Switch
+                  checked={form.shared}
+                  onCheckedChange={(checked) => updateForm('shared', checked)}
+                  disabled={!canEdit}
+                />
+              </div>
+            )}
+
+            <div className="flex gap-2">
+              <Button onClick={handleSave} disabled={busy}>
+                <Save className="w-4 h-4 mr-2" />
+                {editingId ? 'Save Rule' : 'Add Rule'}
+              </Button>
+              {(editingId || form.keywords) && (
+                <Button variant="outline" onClick={resetForm} disabled={busy}>
+                  <X className="w-4 h-4 mr-2" />
+                  Cancel
+                </Button>
+              )}
+            </div>
+          </CardContent>
+        </Card>
+
+        {/* Custom rules */}
+        <Card>
+          <CardHeader>
+            <CardTitle>Your Rules</CardTitle>
+            <CardDescription>
+              {household ? `Personal rules and rules shared in ${household.name}.` : 'Rules you have added.'}
+            </CardDescription>
+          </CardHeader>
+          <CardContent className="space-y-3">
+            {!loading && rules.length === 0 && (
+              <p className="text-sm text-muted-foreground">
+                No custom rules yet. Add one above, or override a built-in rule below.
+              </p>
+            )}
+            {rules.map(rule => (
+              <div key={rule.id} className="flex items-center justify-between gap-3 rounded-lg border p-3">
+                <div className="space-y-1 min-w-0">
+                  <p className="font-medium truncate">{rule.keywords.join(', ')}</p>
+                  <div className="flex flex-wrap items-center gap-2 text-sm text-muted-foreground">
+                    <span>{rule.days_until_expiry} day{rule.days_until_expiry === 1 ? '' : 's'}</span>
+                    {rule.days_after_opening && <span>· {rule.days_after_opening} once opened</span>}
+                    <Badge variant="outline">{rule.category}</Badge>
+                    {rule.storage_location && (
+                      <Badge variant="outline">{STORAGE_LOCATION_LABELS[rule.storage_location]}</Badge>
+                    )}
+                    <Badge variant="secondary">{rule.household_id ? 'Household' : 'Personal'}</Badge>
+                  </div>
+                </div>
+                {canModify(rule) && (
+                  <div className="flex gap-1 shrink-0">
+                    <Button variant="ghost" size="icon" onClick={() => handleEdit(rule)} disabled={busy}>
+                      <Pencil className="w-4 h-4" />
+                    </Button>
+                    <Button variant="ghost" size="icon" onClick={() => handleDelete(rule.id)} disabled={busy}>
+                      <Trash2 className="w-4 h-4" />
+                    </Button>
+                  </div>
+                )}
+              </div>
+            ))}
+          </CardContent>
+        </Card>
+
+        {/* Rule tester */}
+        <Card>
+          <CardHeader>
+            <CardTitle className="flex items-center gap-2">
+              <Search className="w-5 h-5" />
+              Try an Item Name
+            </CardTitle>
+            <CardDescription>
+              See which rule an item would get.
+            </CardDescription>
+          </CardHeader>
+          <CardContent className="space-y-3">
+            <Input
+              value={testName}
+              onChange={(e) => setTestName(e.target.value)}
+              placeholder="e.g., UHT Toned Milk 1L"
+            />
+            {testName.trim() && (
+              <p className="text-sm">
+                {testMatch
+                  ? `Matches "${testMatch.keyword}" (${testMatch.rule.customRuleId ? 'your rule' : 'built-in'}): `
+                    + `${shelfLifeDays(testName, undefined, customRules)} days, ${testMatch.rule.category}`
+                    + (testMatch.rule.daysAfterOpening ? `, ${testMatch.rule.daysAfterOpening} days once opened` : '')
+                    + (testMatch.confidence < 1 ? ` — ${Math.round(testMatch.confidence * 100)}% match` : '')
+                  : 'No rule matches; the default of 7 days is used.'}
+              </p>
+            )}
+          </CardContent>
+        </Card>
+
+        {/* Built-in rules */}
+        <Card>
+          <CardHeader>
+            <CardTitle className="flex items-center gap-2">
+              <BookOpen className="w-5 h-5" />
+              Built-in Rules
+            </CardTitle>
+            <CardDescription>
+              Used when none of your rules match.
+            </CardDescription>
+          </CardHeader>
+          <CardContent className="space-y-2">
+            {expiryRules.map((rule, index) => {
+              const overridden = rule.keywords.some(keyword => customKeywords.has(keyword));
+              return (
+                <div key={rule.keywords[0]}>
+                  {index > 0 && <Separator className="mb-2" />}
+                  <div className="flex items-center justify-between gap-3">
+                    <div className="min-w-0">
+                      <p className={`text-sm truncate ${overridden ? 'line-through text-muted-foreground' : ''}`}>
+                        {rule.keywords.join(', ')}
+                      </p>
+                      <p className="text-xs text-muted-foreground">
+                        {rule.daysUntilExpiry} days in the {STORAGE_LOCATION_LABELS[rule.defaultLocation ?? 'fridge'].toLowerCase()}
+                        {Object.entries(rule.locationDays ?? {}).map(([location, days]) =>
+                          `, ${days} in the ${STORAGE_LOCATION_LABELS[location as StorageLocation].toLowerCase()}`)}
+                        {rule.daysAfterOpening && `, ${rule.daysAfterOpening} once opened`}
+                        {' · '}{rule.category}
+                        {overridden && ' · overridden by your rule'}
+                      </p>
+                    </div>
+                    <Button variant="ghost" size="sm" onClick={() => handleOverride(rule)}>
+                      Override
+                    </Button>
+                  </div>
+                </div>
+              );
+            })}
+          </CardContent>
+        </Card>
+      </main>
+    </div>
+  );
+};
+
+export default ExpiryRules;
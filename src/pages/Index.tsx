@@ -1,44 +1,94 @@
-import { useState, useEffect } from 'react';
+import { useState, useEffect, useMemo } from 'react';
 import { useNavigate } from 'react-router-dom';
+import { format, parseISO } from 'date-fns';
 import { supabase } from '@/integrations/supabase/client';
 import { User } from '@supabase/supabase-js';
 import { ReceiptScanner } from '@/components/ReceiptScanner';
 import { ManualItemForm } from '@/components/ManualItemForm';
+import { LeftoverForm, NewLeftover } from '@/components/LeftoverForm';
 import { QRScanner } from '@/components/QRScanner';
 import { WelcomeBanner } from '@/components/WelcomeBanner';
+import { CookThisNow } from '@/components/CookThisNow';
 import { ExpiryCharts } from '@/components/ExpiryCharts';
 import { InventoryManagement } from '@/components/InventoryManagement';
 import { FoodItemCard } from '@/components/FoodItemCard';
+import { ItemHistoryDialog } from '@/components/ItemHistoryDialog';
+import { PrintLabelsDialog } from '@/components/PrintLabelsDialog';
+import { SyncStatus } from '@/components/SyncStatus';
 import { Button } from '@/components/ui/button';
 import { useToast } from '@/hooks/use-toast';
-import { LogOut, Bell, Plus, ScanLine, Settings, QrCode, Package } from 'lucide-react';
-import { requestNotificationPermission, checkExpiringItems } from '@/utils/notifications';
+import { useHousehold } from '@/hooks/use-household';
+import { useFoodItems } from '@/hooks/use-food-items';
+import { useExpiryRules } from '@/hooks/use-expiry-rules';
+import { useParLevels } from '@/hooks/use-par-levels';
+import { LogOut, Bell, Plus, ScanLine, Settings, QrCode, Package, CookingPot, ShoppingCart } from 'lucide-react';
+import { requestNotificationPermission, checkExpiringItems, checkRestockLevels } from '@/utils/notifications';
 import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
-import { calculateExpiryDate } from '@/utils/expiryRules';
+import { calculateExpiryDate, defaultStorageLocation, openedExpiryDate } from '@/utils/expiryRules';
+import { loadUserPreferences, UserPreferences } from '@/utils/preferences';
+import { hasPushSubscriptions } from '@/utils/pushNotifications';
+import { WASTE_REASON_LABELS, WasteReason } from '@/utils/waste';
+import { DEFAULT_CURRENCY, resolvePrices } from '@/utils/money';
+import { learnShelfLives } from '@/utils/shelfLife';
+import { StorageLocation } from '@/utils/storageLocation';
+import { frozenExpiryDate, thawedExpiryDate } from '@/utils/freezeState';
+import { SignedLabel, verifyLabel } from '@/utils/labels';
+import { LEFTOVER_CATEGORY } from '@/utils/leftovers';
+import { RecipeMatch } from '@/utils/recipes';
+import { parShortfalls } from '@/utils/parLevels';
 
 interface ScannedItem {
   name: string;
   category: string;
   expiryDate: Date;
+  purchaseDate?: Date;
   quantity?: number;
-}
-
-interface FoodItem {
-  id: string;
-  name: string;
-  category: string;
-  purchase_date: string;
-  expiry_date: string;
-  quantity: number;
-  is_consumed: boolean;
+  unitPrice?: number | null;
+  totalPrice?: number | null;
+  currency?: string;
+  storageLocation?: StorageLocation;
 }
 
 const Index = () => {
   const [user, setUser] = useState<User | null>(null);
-  const [foodItems, setFoodItems] = useState<FoodItem[]>([]);
-  const [loading, setLoading] = useState(true);
+  const [preferences, setPreferences] = useState<UserPreferences | null>(null);
+  // Null until known, so in-app reminders wait rather than double up with push
+  const [hasPushSubscription, setHasPushSubscription] = useState<boolean | null>(null);
+  const [historyItemId, setHistoryItemId] = useState<string | null>(null);
+  const [labelItemId, setLabelItemId] = useState<string | null>(null);
+  const [highlightedItemId, setHighlightedItemId] = useState<string | null>(null);
   const navigate = useNavigate();
   const { toast } = useToast();
+  const { household, canEdit } = useHousehold(user);
+  const {
+    items: foodItems,
+    consumptionEvents,
+    wasteEvents,
+    freezeEvents,
+    loading,
+    syncState,
+    pendingCount,
+    sync,
+    addItems,
+    updateItem,
+    consumeItem,
+    discardItem,
+    setFreezeState,
+    deleteItem,
+  } = useFoodItems(user);
+  const { customRules } = useExpiryRules(user);
+  const { parLevels } = useParLevels(user);
+  const shelfLives = useMemo(
+    () => learnShelfLives({ items: foodItems, consumptionEvents, wasteEvents, customRules }),
+    [foodItems, consumptionEvents, wasteEvents, customRules],
+  );
+  const shortfalls = useMemo(() => parShortfalls(parLevels, foodItems), [parLevels, foodItems]);
+  const itemNames = useMemo(() => new Map(foodItems.map(item => [item.id, item.name])), [foodItems]);
+  // Groceries in stock that a meal could be cooked from
+  const ingredientOptions = useMemo(
+    () => foodItems.filter(item => item.kind !== 'leftover' && !item.is_consumed && (item.quantity ?? 0) > 0),
+    [foodItems],
+  );
 
   useEffect(() => {
     supabase.auth.getSession().then(({ data: { session } }) => {
@@ -62,52 +112,46 @@ const Index = () => {
 
   useEffect(() => {
     if (user) {
-      fetchFoodItems();
       requestNotificationPermission();
+      loadUserPreferences(user.id).then(setPreferences).catch(console.error);
+      hasPushSubscriptions(user.id).then(setHasPushSubscription).catch(console.error);
     }
   }, [user]);
 
   useEffect(() => {
-    if (foodItems.length > 0) {
-      checkExpiringItems(foodItems);
-    }
-  }, [foodItems]);
+    // Users with push on any device get their reminders from the scheduled job instead
+    if (!user || !preferences || hasPushSubscription !== false) return;
 
-  const fetchFoodItems = async () => {
-    try {
-      const { data, error } = await supabase
-        .from('food_items')
-        .select('*')
-        .order('expiry_date', { ascending: true });
+    const check = () => checkExpiringItems(user.id, foodItems, preferences).catch(console.error);
+    check();
+    // Re-check every minute so the daily digest goes out at its scheduled time
+    const interval = setInterval(check, 60 * 1000);
+    return () => clearInterval(interval);
+  }, [user, foodItems, preferences, hasPushSubscription]);
 
-      if (error) throw error;
-      setFoodItems(data || []);
-    } catch (error: any) {
-      toast({
-        title: 'Error',
-        description: error.message,
-        variant: 'destructive',
-      });
-    } finally {
-      setLoading(false);
-    }
-  };
+  // Restock notifications only come from here; the scheduled job doesn't send them
+  useEffect(() => {
+    if (!user || !preferences || loading) return;
+    checkRestockLevels(user.id, shortfalls, preferences).catch(console.error);
+  }, [user, shortfalls, preferences, loading]);
 
   const handleItemsScanned = async (scannedItems: ScannedItem[]) => {
     try {
       const itemsToInsert = scannedItems.map(item => ({
         user_id: user!.id,
+        household_id: household?.id ?? null,
         name: item.name,
         category: item.category,
-        purchase_date: new Date().toISOString().split('T')[0],
-        expiry_date: item.expiryDate.toISOString().split('T')[0],
+        // Formatted in local time: receipt dates are local midnights
+        purchase_date: format(item.purchaseDate ?? new Date(), 'yyyy-MM-dd'),
+        expiry_date: format(item.expiryDate, 'yyyy-MM-dd'),
         quantity: item.quantity || 1,
+        ...resolvePrices(item.quantity || 1, item.unitPrice, item.totalPrice),
+        currency: item.currency || DEFAULT_CURRENCY,
+        storage_location: item.storageLocation ?? defaultStorageLocation(item.name, customRules),
       }));
 
-      const { error } = await supabase.from('food_items').insert(itemsToInsert);
-      if (error) throw error;
-
-      await fetchFoodItems();
+      await addItems(itemsToInsert);
       toast({
         title: 'Items added!',
         description: `${scannedItems.length} item(s) added to your tracker`,
@@ -131,23 +175,35 @@ const Index = () => {
     expiryDate?: Date;
     quantity: number;
     manufacturingDate?: Date;
+    openedDate?: Date;
+    lotNumber?: string;
+    unitPrice?: number | null;
+    totalPrice?: number | null;
+    currency?: string;
   }) => {
     try {
-      const expiryDate = data.expiryDate || calculateExpiryDate(data.name);
+      const printedExpiry = data.expiryDate || calculateExpiryDate(data.name, new Date(), customRules);
+      const expiryDate = data.openedDate
+        ? openedExpiryDate(data.name, printedExpiry, data.openedDate, customRules)
+        : printedExpiry;
       const mfgDate = data.manufacturingDate || new Date();
       
-      const { error } = await supabase.from('food_items').insert({
+      await addItems([{
         user_id: user!.id,
+        household_id: household?.id ?? null,
         name: data.name,
         category: data.category,
         purchase_date: mfgDate.toISOString().split('T')[0],
         expiry_date: expiryDate.toISOString().split('T')[0],
         quantity: data.quantity,
-      });
-      
-      if (error) throw error;
-      
-      await fetchFoodItems();
+        ...resolvePrices(data.quantity, data.unitPrice, data.totalPrice),
+        currency: data.currency || DEFAULT_CURRENCY,
+        storage_location: defaultStorageLocation(data.name, customRules),
+        opened_at: data.openedDate?.toISOString() ?? null,
+        printed_expiry_date: data.openedDate ? printedExpiry.toISOString().split('T')[0] : null,
+        lot_number: data.lotNumber ?? null,
+      }]);
+
       toast({
         title: 'Item added from QR!',
         description: `${data.name} added to your tracker`,
@@ -161,11 +217,101 @@ const Index = () => {
     }
   };
 
+  const handleLeftoverAdded = async (leftover: NewLeftover) => {
+    try {
+      await addItems([{
+        user_id: user!.id,
+        household_id: household?.id ?? null,
+        kind: 'leftover',
+        name: leftover.name,
+        category: LEFTOVER_CATEGORY,
+        purchase_date: format(leftover.cookedOn, 'yyyy-MM-dd'),
+        expiry_date: format(leftover.expiryDate, 'yyyy-MM-dd'),
+        quantity: leftover.portions,
+        storage_location: leftover.storageLocation,
+        made_from: leftover.ingredients.map(ingredient => ingredient.id),
+      }]);
+      for (const ingredient of leftover.ingredients) {
+        await consumeItem(ingredient.id, ingredient.amount);
+      }
+
+      toast({
+        title: 'Leftovers added!',
+        description: `${leftover.portions} portion(s) of ${leftover.name}, eat by ${format(leftover.expiryDate, 'MMM d')}`,
+      });
+    } catch (error) {
+      toast({
+        title: 'Error',
+        description: (error as Error).message,
+        variant: 'destructive',
+      });
+    }
+  };
+
+  // One unit of each matched item: quantities count packs and pieces, not recipe amounts
+  const handleRecipeCooked = async (match: RecipeMatch) => {
+    const used = match.ingredients.flatMap(({ item }) => (item ? [item] : []));
+    try {
+      for (const item of used) {
+        await consumeItem(item.id, Math.min(1, item.quantity));
+      }
+      toast({
+        title: `Enjoy your ${match.recipe.name}!`,
+        description: `Used ${used.map(item => item.name).join(', ')}`,
+      });
+    } catch (error) {
+      toast({
+        title: 'Error',
+        description: (error as Error).message,
+        variant: 'destructive',
+      });
+    }
+  };
+
+  // A scanned label opens the item it was printed for rather than adding a copy.
+  // Items come from row-level security, so labels from another home find nothing.
+  const handleLabelScanned = async (label: SignedLabel) => {
+    try {
+      if (!(await verifyLabel(label))) {
+        toast({
+          title: 'Unrecognised label',
+          description: 'This label was not printed by Expiry Tracker or has been changed.',
+          variant: 'destructive',
+        });
+        return;
+      }
+    } catch (error) {
+      toast({
+        title: 'Error',
+        description: (error as Error).message,
+        variant: 'destructive',
+      });
+      return;
+    }
+
+    const item = foodItems.find(i => i.id === label.id);
+    if (!item) {
+      toast({
+        title: `${label.name} isn't in your tracker`,
+        description: 'It was used up, discarded or deleted, or the label is from another home.',
+      });
+      return;
+    }
+
+    setHighlightedItemId(item.id);
+    document.getElementById(`item-${item.id}`)?.scrollIntoView({ behavior: 'smooth', block: 'center' });
+    setTimeout(() => setHighlightedItemId(current => (current === item.id ? null : current)), 4000);
+    toast({
+      title: `Found ${item.name}`,
+      description: item.is_consumed
+        ? 'Already marked as consumed'
+        : `Use by ${format(parseISO(item.expiry_date), 'MMM d, yyyy')}`,
+    });
+  };
+
   const handleDelete = async (id: string) => {
     try {
-      const { error } = await supabase.from('food_items').delete().eq('id', id);
-      if (error) throw error;
-      setFoodItems(foodItems.filter(item => item.id !== id));
+      await deleteItem(id);
       toast({ title: 'Item deleted' });
     } catch (error: any) {
       toast({
@@ -177,16 +323,16 @@ const Index = () => {
   };
 
   const handleToggleConsumed = async (id: string, isConsumed: boolean) => {
+    const item = foodItems.find(i => i.id === id);
+    if (!item) return;
+
     try {
-      const { error } = await supabase
-        .from('food_items')
-        .update({ is_consumed: isConsumed })
-        .eq('id', id);
-      if (error) throw error;
-      
-      setFoodItems(foodItems.map(item => 
-        item.id === id ? { ...item, is_consumed: isConsumed } : item
-      ));
+      if (isConsumed) {
+        // Uses up whatever is left so the history records the real amount
+        await consumeItem(id, item.quantity ?? 0);
+      } else {
+        await updateItem(id, { is_consumed: false, quantity: Math.max(item.quantity ?? 0, 1) });
+      }
       toast({ title: isConsumed ? 'Marked as consumed' : 'Marked as unconsumed' });
     } catch (error: any) {
       toast({
@@ -197,6 +343,96 @@ const Index = () => {
     }
   };
 
+  const handleConsume = async (id: string, amount: number) => {
+    const item = foodItems.find(i => i.id === id);
+    if (!item) return;
+
+    try {
+      await consumeItem(id, amount);
+      const remaining = Math.max((item.quantity ?? 0) - amount, 0);
+      toast({
+        title: remaining > 0 ? `Used ${amount} of ${item.name}` : `${item.name} used up`,
+        description: remaining > 0 ? `${remaining} left` : undefined,
+      });
+    } catch (error) {
+      toast({
+        title: 'Error',
+        description: (error as Error).message,
+        variant: 'destructive',
+      });
+    }
+  };
+
+  const handleDiscard = async (id: string, amount: number, reason: WasteReason, estimatedCost: number | null) => {
+    const item = foodItems.find(i => i.id === id);
+    if (!item) return;
+
+    try {
+      await discardItem(id, amount, reason, estimatedCost);
+      toast({
+        title: `Discarded ${amount} ${item.name}`,
+        description: `Logged as ${WASTE_REASON_LABELS[reason].toLowerCase()}`,
+      });
+    } catch (error) {
+      toast({
+        title: 'Error',
+        description: (error as Error).message,
+        variant: 'destructive',
+      });
+    }
+  };
+
+  // Opening can bring expiry forward; the printed date is kept alongside
+  const handleOpen = async (id: string) => {
+    const item = foodItems.find(i => i.id === id);
+    if (!item) return;
+
+    try {
+      const now = new Date();
+      const expiryDate = openedExpiryDate(item.name, parseISO(item.expiry_date), now, customRules);
+      await updateItem(id, {
+        opened_at: now.toISOString(),
+        printed_expiry_date: item.expiry_date,
+        expiry_date: format(expiryDate, 'yyyy-MM-dd'),
+      });
+      toast({
+        title: `${item.name} opened`,
+        description: `Use by ${format(expiryDate, 'MMM d, yyyy')}`,
+      });
+    } catch (error) {
+      toast({
+        title: 'Error',
+        description: (error as Error).message,
+        variant: 'destructive',
+      });
+    }
+  };
+
+  // Freezing switches to the freezer shelf life; thawing starts a short fridge countdown
+  const handleFreezeChange = async (id: string, state: 'frozen' | 'thawed') => {
+    const item = foodItems.find(i => i.id === id);
+    if (!item) return;
+
+    try {
+      const expiryDate = state === 'frozen'
+        ? frozenExpiryDate(item, new Date(), customRules)
+        : thawedExpiryDate(item, new Date());
+      await setFreezeState(id, state, format(expiryDate, 'yyyy-MM-dd'));
+      toast({
+        title: state === 'frozen' ? `${item.name} frozen` : `${item.name} thawed`,
+        description: state === 'frozen'
+          ? `Keeps until ${format(expiryDate, 'MMM d, yyyy')}`
+          : `Use by ${format(expiryDate, 'MMM d, yyyy')}`,
+      });
+    } catch (error) {
+      toast({
+        title: 'Error',
+        description: (error as Error).message,
+        variant: 'destructive',
+      });
+    }
+  };
+
   const handleSignOut = async () => {
     await supabase.auth.signOut();
     navigate('/auth');
@@ -228,11 +464,20 @@ const Index = () => {
       {/* Header */}
       <header className="sticky top-0 z-50 bg-background/95 backdrop-blur border-b">
         <div className="max-w-6xl mx-auto px-4 py-3 flex justify-between items-center">
-          <h1 className="text-xl font-bold text-primary">Expiry Tracker</h1>
-          <div className="flex gap-2">
+          <div className="flex items-baseline gap-2 min-w-0">
+            <h1 className="text-xl font-bold text-primary">Expiry Tracker</h1>
+            {household && (
+              <span className="text-sm text-muted-foreground truncate">{household.name}</span>
+            )}
+          </div>
+          <div className="flex gap-2 items-center">
+            <SyncStatus state={syncState} pendingCount={pendingCount} onRetry={sync} />
             <Button variant="outline" size="icon" onClick={handleNotificationRequest}>
               <Bell className="w-4 h-4" />
             </Button>
+            <Button variant="outline" size="icon" onClick={() => navigate('/shopping')}>
+              <ShoppingCart className="w-4 h-4" />
+            </Button>
             <Button variant="outline" size="icon" onClick={() => navigate('/settings')}>
               <Settings className="w-4 h-4" />
             </Button>
@@ -248,38 +493,71 @@ const Index = () => {
         {/* Welcome Banner with Quick Stats */}
         {user && <WelcomeBanner user={user} items={foodItems} />}
 
+        {/* Recipes for what is about to expire */}
+        <CookThisNow items={foodItems} onCooked={handleRecipeCooked} readOnly={!canEdit} />
+
         {/* Add Items Section */}
-        <Tabs defaultValue="manual" className="w-full">
-          <TabsList className="grid w-full grid-cols-3 max-w-lg">
-            <TabsTrigger value="manual" className="flex items-center gap-2">
-              <Plus className="w-4 h-4" />
-              Manual
-            </TabsTrigger>
-            <TabsTrigger value="qr" className="flex items-center gap-2">
-              <QrCode className="w-4 h-4" />
-              QR Scan
-            </TabsTrigger>
-            <TabsTrigger value="receipt" className="flex items-center gap-2">
-              <ScanLine className="w-4 h-4" />
-              Receipt
-            </TabsTrigger>
-          </TabsList>
-          <TabsContent value="manual" className="mt-4">
-            <ManualItemForm onItemAdded={handleManualItemAdded} />
-          </TabsContent>
-          <TabsContent value="qr" className="mt-4">
-            <QRScanner onScanSuccess={handleQRScanSuccess} />
-          </TabsContent>
-          <TabsContent value="receipt" className="mt-4">
-            <ReceiptScanner onItemsScanned={handleItemsScanned} />
-          </TabsContent>
-        </Tabs>
+        {canEdit ? (
+          <Tabs defaultValue="manual" className="w-full">
+            <TabsList className="grid w-full grid-cols-4 max-w-2xl">
+              <TabsTrigger value="manual" className="flex items-center gap-2">
+                <Plus className="w-4 h-4" />
+                Manual
+              </TabsTrigger>
+              <TabsTrigger value="qr" className="flex items-center gap-2">
+                <QrCode className="w-4 h-4" />
+                QR Scan
+              </TabsTrigger>
+              <TabsTrigger value="receipt" className="flex items-center gap-2">
+                <ScanLine className="w-4 h-4" />
+                Receipt
+              </TabsTrigger>
+              <TabsTrigger value="leftover" className="flex items-center gap-2">
+                <CookingPot className="w-4 h-4" />
+                Leftovers
+              </TabsTrigger>
+            </TabsList>
+            <TabsContent value="manual" className="mt-4">
+              <ManualItemForm
+                onItemAdded={handleManualItemAdded}
+                customRules={customRules}
+                shelfLives={shelfLives}
+              />
+            </TabsContent>
+            <TabsContent value="qr" className="mt-4">
+              <QRScanner
+                user={user}
+                householdId={household?.id ?? null}
+                onScanSuccess={handleQRScanSuccess}
+                onLabelScanned={handleLabelScanned}
+                customRules={customRules}
+              />
+            </TabsContent>
+            <TabsContent value="receipt" className="mt-4">
+              <ReceiptScanner
+                onItemsScanned={handleItemsScanned}
+                customRules={customRules}
+                shelfLives={shelfLives}
+              />
+            </TabsContent>
+            <TabsContent value="leftover" className="mt-4">
+              <LeftoverForm
+                onLeftoverAdded={handleLeftoverAdded}
+                ingredientOptions={ingredientOptions}
+              />
+            </TabsContent>
+          </Tabs>
+        ) : household && (
+          <div className="text-sm text-muted-foreground bg-muted/30 rounded-xl border border-dashed p-4">
+            You have view-only access to {household.name}. Ask an owner for editor access to add or change items.
+          </div>
+        )}
 
         {/* Charts Section */}
-        <ExpiryCharts items={foodItems} />
+        <ExpiryCharts items={foodItems} consumptionEvents={consumptionEvents} wasteEvents={wasteEvents} />
 
         {/* Inventory Management */}
-        <InventoryManagement items={foodItems} />
+        <InventoryManagement items={foodItems} wasteEvents={wasteEvents} parLevels={parLevels} />
 
         {/* Items Grid */}
         <div>
@@ -299,11 +577,35 @@ const Index = () => {
                   item={item}
                   onDelete={handleDelete}
                   onToggleConsumed={handleToggleConsumed}
+                  onConsume={handleConsume}
+                  onDiscard={handleDiscard}
+                  onFreezeChange={handleFreezeChange}
+                  onShowHistory={setHistoryItemId}
+                  onOpen={handleOpen}
+                  onPrintLabel={setLabelItemId}
+                  madeFrom={(item.made_from ?? []).flatMap(id => itemNames.get(id) ?? [])}
+                  highlighted={item.id === highlightedItemId}
+                  readOnly={!canEdit}
                 />
               ))}
             </div>
           )}
         </div>
+
+        <ItemHistoryDialog
+          item={foodItems.find(i => i.id === historyItemId) ?? null}
+          consumptionEvents={consumptionEvents}
+          wasteEvents={wasteEvents}
+          freezeEvents={freezeEvents}
+          onOpenChange={open => !open && setHistoryItemId(null)}
+        />
+
+        {user && (
+          <PrintLabelsDialog
+            item={foodItems.find(i => i.id === labelItemId) ?? null}
+            onOpenChange={open => !open && setLabelItemId(null)}
+          />
+        )}
       </main>
     </div>
   );
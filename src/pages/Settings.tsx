@@ -1,4 +1,4 @@
-import { useState, useEffect } from 'react';
+import { useState, useEffect, useCallback } from 'react';
 import { useNavigate } from 'react-router-dom';
 import { supabase } from '@/integrations/supabase/client';
 import { User } from '@supabase/supabase-js';
@@ -9,7 +9,21 @@ import { Switch } from '@/components/ui/switch';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
 import { Separator } from '@/components/ui/separator';
 import { useToast } from '@/hooks/use-toast';
-import { ArrowLeft, User as UserIcon, Bell, Clock, Save } from 'lucide-react';
+import { HouseholdSettings } from '@/components/HouseholdSettings';
+import {
+  ReminderSettings,
+  DEFAULT_REMINDER_SETTINGS,
+  loadUserPreferences,
+  saveUserPreferences,
+  getBrowserTimezone,
+} from '@/utils/preferences';
+import {
+  isPushSupported,
+  getPushSubscription,
+  subscribeToPush,
+  unsubscribeFromPush,
+} from '@/utils/pushNotifications';
+import { ArrowLeft, User as UserIcon, Bell, Clock, Save, CalendarClock, ChevronRight } from 'lucide-react';
 import {
   Select,
   SelectContent,
@@ -18,44 +32,52 @@ import {
   SelectValue,
 } from '@/components/ui/select';
 
-interface ReminderSettings {
-  enableDailyDigest: boolean;
-  digestTime: string;
-  reminder1Day: boolean;
-  reminder3Days: boolean;
-  reminder7Days: boolean;
-  enableCategoryReminders: boolean;
-  categories: string[];
-}
-
-const DEFAULT_REMINDER_SETTINGS: ReminderSettings = {
-  enableDailyDigest: true,
-  digestTime: '09:00',
-  reminder1Day: true,
-  reminder3Days: true,
-  reminder7Days: false,
-  enableCategoryReminders: true,
-  categories: ['Dairy', 'Vegetables', 'Fruits', 'Meat'],
-};
-
 const Settings = () => {
   const [user, setUser] = useState<User | null>(null);
   const [loading, setLoading] = useState(true);
   const [saving, setSaving] = useState(false);
+  const [savingReminders, setSavingReminders] = useState(false);
   const navigate = useNavigate();
   const { toast } = useToast();
 
   // Profile state
   const [displayName, setDisplayName] = useState('');
-  const [householdName, setHouseholdName] = useState('');
 
   // Notification preferences
   const [notificationsEnabled, setNotificationsEnabled] = useState(false);
+  const [emailDigestEnabled, setEmailDigestEnabled] = useState(false);
   const [browserNotifications, setBrowserNotifications] = useState(false);
+  const [pushEnabled, setPushEnabled] = useState(false);
+  const [updatingPush, setUpdatingPush] = useState(false);
 
   // Reminder settings
   const [reminderSettings, setReminderSettings] = useState<ReminderSettings>(DEFAULT_REMINDER_SETTINGS);
 
+  const loadUserSettings = useCallback(async (user: User) => {
+    // Load from user metadata
+    const metadata = user.user_metadata || {};
+    setDisplayName(metadata.display_name || user.email?.split('@')[0] || '');
+
+    // Load notification permission status
+    if ('Notification' in window) {
+      setBrowserNotifications(Notification.permission === 'granted');
+    }
+    getPushSubscription().then(sub => setPushEnabled(!!sub)).catch(console.error);
+
+    try {
+      const preferences = await loadUserPreferences(user.id);
+      setReminderSettings(preferences.reminderSettings);
+      setNotificationsEnabled(preferences.notificationsEnabled);
+      setEmailDigestEnabled(preferences.emailDigestEnabled);
+    } catch (error) {
+      toast({
+        title: 'Error',
+        description: (error as Error).message,
+        variant: 'destructive',
+      });
+    }
+  }, [toast]);
+
   useEffect(() => {
     supabase.auth.getSession().then(({ data: { session } }) => {
       if (session?.user) {
@@ -74,28 +96,8 @@ const Settings = () => {
     });
 
     return () => subscription.unsubscribe();
-  }, [navigate]);
-
-  const loadUserSettings = (user: User) => {
-    // Load from user metadata
-    const metadata = user.user_metadata || {};
-    setDisplayName(metadata.display_name || user.email?.split('@')[0] || '');
-    setHouseholdName(metadata.household_name || '');
-
-    // Load notification permission status
-    if ('Notification' in window) {
-      setBrowserNotifications(Notification.permission === 'granted');
-    }
+  }, [navigate, loadUserSettings]);
 
-    // Load reminder settings from localStorage (could be moved to Supabase later)
-    const savedReminders = localStorage.getItem(`reminder_settings_${user.id}`);
-    if (savedReminders) {
-      setReminderSettings(JSON.parse(savedReminders));
-    }
-
-    const savedNotifications = localStorage.getItem(`notifications_enabled_${user.id}`);
-    setNotificationsEnabled(savedNotifications === 'true');
-  };
 
   const handleSaveProfile = async () => {
     if (!user) return;
@@ -105,7 +107,6 @@ const Settings = () => {
       const { error } = await supabase.auth.updateUser({
         data: {
           display_name: displayName,
-          household_name: householdName,
         },
       });
 
@@ -126,16 +127,31 @@ const Settings = () => {
     }
   };
 
-  const handleSaveReminders = () => {
+  const handleSaveReminders = async () => {
     if (!user) return;
+    setSavingReminders(true);
 
-    localStorage.setItem(`reminder_settings_${user.id}`, JSON.stringify(reminderSettings));
-    localStorage.setItem(`notifications_enabled_${user.id}`, String(notificationsEnabled));
+    try {
+      await saveUserPreferences(user.id, {
+        notificationsEnabled,
+        emailDigestEnabled,
+        reminderSettings,
+        timezone: getBrowserTimezone(),
+      });
 
-    toast({
-      title: 'Reminder settings saved',
-      description: 'Your notification preferences have been updated.',
-    });
+      toast({
+        title: 'Reminder settings saved',
+        description: 'Your notification preferences have been updated.',
+      });
+    } catch (error) {
+      toast({
+        title: 'Error',
+        description: (error as Error).message,
+        variant: 'destructive',
+      });
+    } finally {
+      setSavingReminders(false);
+    }
   };
 
   const handleRequestBrowserNotifications = async () => {
@@ -159,6 +175,34 @@ const Settings = () => {
     });
   };
 
+  const handleTogglePush = async (enabled: boolean) => {
+    setUpdatingPush(true);
+    try {
+      if (enabled) {
+        await subscribeToPush();
+        setBrowserNotifications(true);
+      } else {
+        await unsubscribeFromPush();
+      }
+      setPushEnabled(enabled);
+
+      toast({
+        title: enabled ? 'Background notifications enabled' : 'Background notifications disabled',
+        description: enabled
+          ? 'Reminders will arrive on this device even when the app is closed.'
+          : 'This device will only be notified while the app is open.',
+      });
+    } catch (error) {
+      toast({
+        title: 'Error',
+        description: (error as Error).message,
+        variant: 'destructive',
+      });
+    } finally {
+      setUpdatingPush(false);
+    }
+  };
+
   const updateReminderSetting = <K extends keyof ReminderSettings>(
     key: K,
     value: ReminderSettings[K]
@@ -195,7 +239,7 @@ const Settings = () => {
               Profile
             </CardTitle>
             <CardDescription>
-              Manage your account information and household settings.
+              Manage your account information.
             </CardDescription>
           </CardHeader>
           <CardContent className="space-y-4">
@@ -222,19 +266,6 @@ const Settings = () => {
               />
             </div>
 
-            <div className="space-y-2">
-              <Label htmlFor="householdName">Household Name</Label>
-              <Input
-                id="householdName"
-                value={householdName}
-                onChange={(e) => setHouseholdName(e.target.value)}
-                placeholder="e.g., The Smith Family"
-              />
-              <p className="text-xs text-muted-foreground">
-                Optional: Name your household for shared tracking.
-              </p>
-            </div>
-
             <Button onClick={handleSaveProfile} disabled={saving}>
               <Save className="w-4 h-4 mr-2" />
               {saving ? 'Saving...' : 'Save Profile'}
@@ -242,6 +273,28 @@ const Settings = () => {
           </CardContent>
         </Card>
 
+        {/* Household Sharing */}
+        {user && <HouseholdSettings user={user} />}
+
+        {/* Expiry Rules */}
+        <Card>
+          <CardHeader>
+            <CardTitle className="flex items-center gap-2">
+              <CalendarClock className="w-5 h-5" />
+              Expiry Rules
+            </CardTitle>
+            <CardDescription>
+              Add your own shelf lives or change the built-in ones.
+            </CardDescription>
+          </CardHeader>
+          <CardContent>
+            <Button variant="outline" onClick={() => navigate('/settings/expiry-rules')}>
+              Manage Expiry Rules
+              <ChevronRight className="w-4 h-4 ml-2" />
+            </Button>
+          </CardContent>
+        </Card>
+
         {/* Notification Settings */}
         <Card>
           <CardHeader>
@@ -284,6 +337,39 @@ const Settings = () => {
                 </Button>
               )}
             </div>
+
+            <Separator />
+
+            <div className="flex items-center justify-between">
+              <div className="space-y-0.5">
+                <Label>Background Notifications</Label>
+                <p className="text-sm text-muted-foreground">
+                  {isPushSupported()
+                    ? 'Get reminders on this device even when the app is closed.'
+                    : 'Not supported in this browser.'}
+                </p>
+              </div>
+              <Switch
+                checked={pushEnabled}
+                onCheckedChange={handleTogglePush}
+                disabled={!isPushSupported() || updatingPush}
+              />
+            </div>
+
+            <Separator />
+
+            <div className="flex items-center justify-between">
+              <div className="space-y-0.5">
+                <Label>Email Digest</Label>
+                <p className="text-sm text-muted-foreground">
+                  Email a summary to {user?.email} at your daily summary time, using your category filter.
+                </p>
+              </div>
+              <Switch
+                checked={emailDigestEnabled}
+                onCheckedChange={setEmailDigestEnabled}
+              />
+            </div>
           </CardContent>
         </Card>
 
@@ -314,7 +400,7 @@ const Settings = () => {
                 />
               </div>
 
-              {reminderSettings.enableDailyDigest && (
+              {(reminderSettings.enableDailyDigest || emailDigestEnabled) && (
                 <div className="ml-6 space-y-2">
                   <Label>Summary Time</Label>
                   <Select
@@ -381,7 +467,7 @@ const Settings = () => {
                 <div className="space-y-0.5">
                   <Label>Category-based Reminders</Label>
                   <p className="text-sm text-muted-foreground">
-                    Get extra reminders for perishable categories.
+                    Only send alerts for the categories selected below.
                   </p>
                 </div>
                 <Switch
@@ -415,9 +501,9 @@ const Settings = () => {
               )}
             </div>
 
-            <Button onClick={handleSaveReminders} className="w-full">
+            <Button onClick={handleSaveReminders} className="w-full" disabled={savingReminders}>
               <Save className="w-4 h-4 mr-2" />
-              Save Reminder Settings
+              {savingReminders ? 'Saving...' : 'Save Reminder Settings'}
             </Button>
           </CardContent>
         </Card>
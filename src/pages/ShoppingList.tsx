@@ -0,0 +1,442 @@
+import { useState, useEffect, useMemo } from 'react';
+import { useNavigate } from 'react-router-dom';
+import { format } from 'date-fns';
+import { supabase } from '@/integrations/supabase/client';
+import { User } from '@supabase/supabase-js';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Badge } from '@/components/ui/badge';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Switch } from '@/components/ui/switch';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { useToast } from '@/hooks/use-toast';
+import { useHousehold } from '@/hooks/use-household';
+import { useFoodItems } from '@/hooks/use-food-items';
+import { useExpiryRules } from '@/hooks/use-expiry-rules';
+import { ShoppingListItem, useShoppingList } from '@/hooks/use-shopping-list';
+import { useParLevels } from '@/hooks/use-par-levels';
+import { calculateExpiryDate, defaultStorageLocation, findExpiryRule } from '@/utils/expiryRules';
+import { SHOPPING_LIST_SOURCE_LABELS, ShoppingSuggestion, suggestShoppingItems } from '@/utils/shoppingList';
+import { parShortfalls } from '@/utils/parLevels';
+import { DEFAULT_CURRENCY } from '@/utils/money';
+import { ArrowLeft, Bell, PackageCheck, Plus, ShoppingBag, ShoppingCart, Sparkles, Trash2 } from 'lucide-react';
+
+const categories = ['Dairy', 'Vegetables', 'Fruits', 'Meat', 'Bakery', 'Eggs', 'Other'];
+
+const AUTO_CATEGORY = 'auto';
+
+const ShoppingList = () => {
+  const [user, setUser] = useState<User | null>(null);
+  const [name, setName] = useState('');
+  const [quantity, setQuantity] = useState(1);
+  const [category, setCategory] = useState(AUTO_CATEGORY);
+  const [busy, setBusy] = useState(false);
+  const [parName, setParName] = useState('');
+  const [parQuantity, setParQuantity] = useState(1);
+  const navigate = useNavigate();
+  const { toast } = useToast();
+  const { household, canEdit } = useHousehold(user);
+  const { items: foodItems, consumptionEvents, sync: syncFoodItems } = useFoodItems(user);
+  const { customRules } = useExpiryRules(user);
+  const { items, loading, addItems, setChecked, removeItems, purchaseItems } = useShoppingList(user);
+  const { parLevels, refresh: refreshParLevels } = useParLevels(user);
+
+  useEffect(() => {
+    supabase.auth.getSession().then(({ data: { session } }) => {
+      if (session?.user) {
+        setUser(session.user);
+      } else {
+        navigate('/auth');
+      }
+    });
+
+    const { data: { subscription } } = supabase.auth.onAuthStateChange((_, session) => {
+      if (!session?.user) {
+        navigate('/auth');
+      }
+    });
+
+    return () => subscription.unsubscribe();
+  }, [navigate]);
+
+  useEffect(() => {
+    document.title = 'Shopping List | Expiry Tracker';
+  }, []);
+
+  const shortfalls = useMemo(() => parShortfalls(parLevels, foodItems), [parLevels, foodItems]);
+  const suggestions = useMemo(
+    () => suggestShoppingItems({
+      items: foodItems,
+      consumptionEvents,
+      listedNames: items.filter(item => !item.is_checked).map(item => item.name),
+      shortfalls,
+    }),
+    [foodItems, consumptionEvents, items, shortfalls],
+  );
+  const toBuy = items.filter(item => !item.is_checked);
+  const checked = items.filter(item => item.is_checked);
+
+  const run = async (action: () => Promise<void>) => {
+    setBusy(true);
+    try {
+      await action();
+    } catch (error) {
+      toast({
+        title: 'Error',
+        description: (error as Error).message,
+        variant: 'destructive',
+      });
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const handleAdd = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!name.trim()) return;
+
+    run(async () => {
+      await addItems([{
+        household_id: household?.id ?? null,
+        name: name.trim(),
+        category: category === AUTO_CATEGORY ? findExpiryRule(name, customRules)?.rule.category ?? 'Other' : category,
+        quantity: Math.max(Math.floor(quantity), 1),
+        source: 'manual',
+      }]);
+      setName('');
+      setQuantity(1);
+      setCategory(AUTO_CATEGORY);
+    });
+  };
+
+  const handleAddSuggestions = (chosen: ShoppingSuggestion[]) =>
+    run(async () => {
+      await addItems(chosen.map(suggestion => ({ ...suggestion, household_id: household?.id ?? null })));
+      toast({ title: chosen.length === 1 ? `${chosen[0].name} added to the list` : `${chosen.length} items added to the list` });
+    });
+
+  const handleToggle = (item: ShoppingListItem, isChecked: boolean) =>
+    setChecked(item.id, isChecked).catch(error =>
+      toast({
+        title: 'Error',
+        description: (error as Error).message,
+        variant: 'destructive',
+      }),
+    );
+
+  // Checked entries become tracked items, with expiry worked out from the rules. The
+  // server moves them in one go, so nothing ends up both tracked and still on the list,
+  // or off the list and not tracked.
+  const handlePurchased = () => {
+    if (!user) return;
+    const purchased = checked;
+
+    run(async () => {
+      const today = new Date();
+      await purchaseItems(purchased.map(item => item.id), purchased.map(item => {
+        const location = defaultStorageLocation(item.name, customRules);
+        return {
+          user_id: user.id,
+          household_id: household?.id ?? null,
+          name: item.name,
+          category: item.category,
+          purchase_date: format(today, 'yyyy-MM-dd'),
+          expiry_date: format(calculateExpiryDate(item.name, today, customRules, location), 'yyyy-MM-dd'),
+          quantity: item.quantity,
+          currency: DEFAULT_CURRENCY,
+          storage_location: location,
+        };
+      }));
+      await syncFoodItems();
+      toast({
+        title: 'Shopping done!',
+        description: `${purchased.length} item(s) added to your tracker`,
+      });
+    });
+  };
+
+  const handleAddParLevel = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!user || !parName.trim() || !(parQuantity > 0)) return;
+
+    run(async () => {
+      const { error } = await supabase.from('par_levels').insert({
+        user_id: user.id,
+        household_id: household?.id ?? null,
+        name: parName.trim(),
+        quantity: Math.floor(parQuantity),
+      });
+      if (error) throw error;
+      await refreshParLevels();
+      setParName('');
+      setParQuantity(1);
+    });
+  };
+
+  const handleParNotify = (id: string, notify: boolean) =>
+    run(async () => {
+      const { error } = await supabase.from('par_levels').update({ notify }).eq('id', id);
+      if (error) throw error;
+      await refreshParLevels();
+    });
+
+  const handleDeleteParLevel = (id: string) =>
+    run(async () => {
+      const { error } = await supabase.from('par_levels').delete().eq('id', id);
+      if (error) throw error;
+      await refreshParLevels();
+    });
+
+  const renderEntry = (item: ShoppingListItem) => (
+    <div key={item.id} className="flex items-center gap-3 rounded-lg border p-3">
+      <Checkbox
+        id={`shopping-${item.id}`}
+        checked={item.is_checked}
+        onCheckedChange={(value) => handleToggle(item, value === true)}
+        disabled={!canEdit}
+        className="h-5 w-5"
+      />
+      <Label
+        htmlFor={`shopping-${item.id}`}
+        className={`flex-1 min-w-0 font-normal ${item.is_checked ? 'line-through text-muted-foreground' : ''}`}
+      >
+        <span className="font-medium">{item.name}</span>
+        {item.quantity > 1 && <span className="text-muted-foreground"> × {item.quantity}</span>}
+      </Label>
+      <div className="hidden sm:flex items-center gap-2 shrink-0">
+        <Badge variant="outline">{item.category}</Badge>
+        {item.source !== 'manual' && <Badge variant="secondary">{SHOPPING_LIST_SOURCE_LABELS[item.source]}</Badge>}
+      </div>
+      {canEdit && (
+        <Button variant="ghost" size="icon" onClick={() => run(() => removeItems([item.id]))} disabled={busy}>
+          <Trash2 className="w-4 h-4" />
+        </Button>
+      )}
+    </div>
+  );
+
+  return (
+    <div className="min-h-screen bg-background">
+      {/* Header */}
+      <header className="sticky top-0 z-50 bg-background/95 backdrop-blur border-b">
+        <div className="max-w-3xl mx-auto px-4 py-3 flex items-center gap-4">
+          <Button variant="ghost" size="icon" onClick={() => navigate('/')}>
+            <ArrowLeft className="w-5 h-5" />
+          </Button>
+          <h1 className="text-xl font-bold">Shopping List</h1>
+        </div>
+      </header>
+
+      <main className="max-w-3xl mx-auto px-4 py-6 space-y-6">
+        {canEdit ? (
+          <Card>
+            <CardHeader>
+              <CardTitle className="flex items-center gap-2">
+                <Plus className="w-5 h-5" />
+                Add to the List
+              </CardTitle>
+              {household && (
+                <CardDescription>Shared with everyone in {household.name}.</CardDescription>
+              )}
+            </CardHeader>
+            <CardContent>
+              <form onSubmit={handleAdd} className="grid grid-cols-1 sm:grid-cols-[1fr_6rem_10rem_auto] gap-3 items-end">
+                <div className="space-y-2">
+                  <Label htmlFor="shopping-name">Item</Label>
+                  <Input
+                    id="shopping-name"
+                    value={name}
+                    onChange={(e) => setName(e.target.value)}
+                    placeholder="e.g., Milk"
+                    required
+                  />
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="shopping-quantity">Qty</Label>
+                  <Input
+                    id="shopping-quantity"
+                    type="number"
+                    min={1}
+                    value={quantity}
+                    onChange={(e) => setQuantity(Number(e.target.value))}
+                  />
+                </div>
+                <div className="space-y-2">
+                  <Label>Category</Label>
+                  <Select value={category} onValueChange={setCategory}>
+                    <SelectTrigger>
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value={AUTO_CATEGORY}>Auto-detect</SelectItem>
+                      {categories.map(cat => (
+                        <SelectItem key={cat} value={cat}>{cat}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+                <Button type="submit" disabled={busy || !name.trim()}>
+                  <Plus className="w-4 h-4 mr-2" />
+                  Add
+                </Button>
+              </form>
+            </CardContent>
+          </Card>
+        ) : household && (
+          <div className="text-sm text-muted-foreground bg-muted/30 rounded-xl border border-dashed p-4">
+            You have view-only access to {household.name}. Ask an owner for editor access to change the list.
+          </div>
+        )}
+
+        {/* Suggestions */}
+        {canEdit && suggestions.length > 0 && (
+          <Card>
+            <CardHeader>
+              <div className="flex items-start justify-between gap-3">
+                <div className="space-y-1.5">
+                  <CardTitle className="flex items-center gap-2">
+                    <Sparkles className="w-5 h-5" />
+                    Suggestions
+                  </CardTitle>
+                  <CardDescription>Used up in the last two weeks, or running low.</CardDescription>
+                </div>
+                <Button variant="outline" size="sm" onClick={() => handleAddSuggestions(suggestions)} disabled={busy}>
+                  Add all
+                </Button>
+              </div>
+            </CardHeader>
+            <CardContent className="space-y-2">
+              {suggestions.map(suggestion => (
+                <div key={suggestion.name} className="flex items-center justify-between gap-3 rounded-lg bg-muted/40 px-3 py-2">
+                  <div className="min-w-0">
+                    <p className="font-medium truncate">
+                      {suggestion.name}
+                      <span className="text-muted-foreground font-normal"> × {suggestion.quantity}</span>
+                    </p>
+                    <p className="text-xs text-muted-foreground">{SHOPPING_LIST_SOURCE_LABELS[suggestion.source]}</p>
+                  </div>
+                  <Button variant="ghost" size="sm" onClick={() => handleAddSuggestions([suggestion])} disabled={busy}>
+                    <Plus className="w-4 h-4 mr-1" />
+                    Add
+                  </Button>
+                </div>
+              ))}
+            </CardContent>
+          </Card>
+        )}
+
+        {/* The list */}
+        <Card>
+          <CardHeader>
+            <CardTitle className="flex items-center gap-2">
+              <ShoppingCart className="w-5 h-5" />
+              To Buy ({toBuy.length})
+            </CardTitle>
+            <CardDescription>Tick items off as they go in the basket.</CardDescription>
+          </CardHeader>
+          <CardContent className="space-y-2">
+            {!loading && items.length === 0 && (
+              <p className="text-sm text-muted-foreground">Your list is empty.</p>
+            )}
+            {toBuy.map(renderEntry)}
+
+            {checked.length > 0 && (
+              <div className="space-y-2 pt-4">
+                <p className="text-sm font-medium text-muted-foreground">In the basket ({checked.length})</p>
+                {checked.map(renderEntry)}
+                {canEdit && (
+                  <Button className="w-full mt-2" onClick={handlePurchased} disabled={busy}>
+                    <ShoppingBag className="w-4 h-4 mr-2" />
+                    Purchased — add {checked.length} item{checked.length > 1 ? 's' : ''} to tracker
+                  </Button>
+                )}
+              </div>
+            )}
+          </CardContent>
+        </Card>
+
+        {/* Par levels */}
+        <Card>
+          <CardHeader>
+            <CardTitle className="flex items-center gap-2">
+              <PackageCheck className="w-5 h-5" />
+              Always Keep
+            </CardTitle>
+            <CardDescription>
+              Par levels, counted like the quantities of your items, e.g. 2 cartons of milk or 12 eggs. Anything below
+              par is suggested above and flagged in your inventory.
+            </CardDescription>
+          </CardHeader>
+          <CardContent className="space-y-3">
+            {canEdit && (
+              <form onSubmit={handleAddParLevel} className="grid grid-cols-1 sm:grid-cols-[1fr_6rem_auto] gap-3 items-end">
+                <div className="space-y-2">
+                  <Label htmlFor="par-name">Product</Label>
+                  <Input
+                    id="par-name"
+                    value={parName}
+                    onChange={(e) => setParName(e.target.value)}
+                    placeholder="e.g., Milk"
+                    required
+                  />
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="par-quantity">How many</Label>
+                  <Input
+                    id="par-quantity"
+                    type="number"
+                    min={1}
+                    value={parQuantity}
+                    onChange={(e) => setParQuantity(Number(e.target.value))}
+                  />
+                </div>
+                <Button type="submit" disabled={busy || !parName.trim()}>
+                  <Plus className="w-4 h-4 mr-2" />
+                  Add
+                </Button>
+              </form>
+            )}
+
+            {shortfalls.length === 0 && (
+              <p className="text-sm text-muted-foreground">No par levels yet.</p>
+            )}
+            {shortfalls.map(({ par, inStock, shortfall }) => (
+              <div key={par.id} className="flex items-center justify-between gap-3 rounded-lg border p-3">
+                <div className="min-w-0 space-y-1">
+                  <p className="font-medium truncate">{par.name}</p>
+                  <div className="flex flex-wrap items-center gap-2 text-sm text-muted-foreground">
+                    <span>
+                      {inStock} of {par.quantity}
+                    </span>
+                    {shortfall > 0
+                      ? <Badge className="bg-amber-500 hover:bg-amber-600 text-white">Buy {shortfall}</Badge>
+                      : <Badge variant="outline">Stocked</Badge>}
+                    <Badge variant="secondary">{par.household_id ? 'Household' : 'Personal'}</Badge>
+                  </div>
+                </div>
+                {canEdit && (
+                  <div className="flex items-center gap-2 shrink-0">
+                    <Bell className="w-4 h-4 text-muted-foreground" />
+                    <Switch
+                      checked={par.notify}
+                      onCheckedChange={(checked) => handleParNotify(par.id, checked)}
+                      disabled={busy}
+                      aria-label={`Notify me when ${par.name} runs low`}
+                    />
+                    <Button variant="ghost" size="icon" onClick={() => handleDeleteParLevel(par.id)} disabled={busy}>
+                      <Trash2 className="w-4 h-4" />
+                    </Button>
+                  </div>
+                )}
+              </div>
+            ))}
+          </CardContent>
+        </Card>
+      </main>
+    </div>
+  );
+};
+
+export default ShoppingList;
@@ -0,0 +1,43 @@
+// Retail barcodes (EAN-13, UPC-A, EAN-8) and the GTIN-14 form they are stored in
+
+// GS1 check digit: weights 3 and 1 alternate from the rightmost data digit
+const checkDigit = (digits: string) => {
+  let sum = 0;
+  for (let i = digits.length - 1, weight = 3; i >= 0; i--, weight = 4 - weight) {
+    sum += Number(digits[i]) * weight;
+  }
+  return (10 - (sum % 10)) % 10;
+};
+
+// Expands UPC-E (8 digits, number system 0 or 1) to the UPC-A it stands for
+const expandUpcE = (code: string) => {
+  const [system, d1, d2, d3, d4, d5, d6, check] = code;
+  const body =
+    d6 <= '2' ? `${d1}${d2}${d6}0000${d3}${d4}${d5}`
+    : d6 === '3' ? `${d1}${d2}${d3}00000${d4}${d5}`
+    : d6 === '4' ? `${d1}${d2}${d3}${d4}00000${d5}`
+    : `${d1}${d2}${d3}${d4}${d5}0000${d6}`;
+  return `${system}${body}${check}`;
+};
+
+/**
+ * Normalizes a scanned retail barcode to GTIN-14, or returns null when the
+ * text isn't one or its check digit is wrong. UPC-E is expanded first, so the
+ * same product gets the same key however its code was printed.
+ */
+export const normalizeGtin = (text: string): string | null => {
+  const code = text.trim();
+  if (!/^(\d{8}|\d{12}|\d{13}|\d{14})$/.test(code)) return null;
+
+  const isValid = (candidate: string) => checkDigit(candidate.slice(0, -1)) === Number(candidate.slice(-1));
+  if (isValid(code)) return code.padStart(14, '0');
+
+  if (code.length === 8 && /^[01]/.test(code)) {
+    const upcA = expandUpcE(code);
+    if (isValid(upcA)) return upcA.padStart(14, '0');
+  }
+  return null;
+};
+
+// Drops the padding again, e.g. for showing the code to people
+export const displayGtin = (gtin: string) => gtin.replace(/^0+(?=\d{8}$|\d{12,13}$)/, '');
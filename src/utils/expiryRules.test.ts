@@ -0,0 +1,47 @@
+import { describe, expect, it } from 'vitest';
+import { calculateExpiryDate, CONFIDENT_MATCH, findExpiryRule, shelfLifeDays } from '@/utils/expiryRules';
+
+const keywordFor = (name: string) => findExpiryRule(name)?.keyword ?? null;
+
+describe('findExpiryRule', () => {
+  it('matches whole words, plurals and multi-word keywords', () => {
+    expect(keywordFor('Pineapple')).toBeNull();
+    expect(keywordFor('Tomatoes 1kg')).toBe('tomato');
+    expect(keywordFor('Amul Cottage Cheese 200g')).toBe('cottage cheese');
+    expect(keywordFor('Pattagobi')).toBe('patta gobi');
+  });
+
+  it('tolerates misread letters after the first one', () => {
+    const match = findExpiryRule('TOMATQ');
+    expect(match?.keyword).toBe('tomato');
+    expect(match!.confidence).toBeLessThan(1);
+  });
+
+  it('does not fuzz the first letter', () => {
+    expect(keywordFor('Union')).toBeNull();
+  });
+
+  it('reads known words as themselves rather than as misspellings', () => {
+    expect(keywordFor('Idli Batter')).toBe('idli batter');
+    expect(keywordFor('Dosa batter 1kg')).toBe('dosa batter');
+  });
+
+  it('lets custom rules win ties with the built-in ones', () => {
+    const custom = { keywords: ['milk'], daysUntilExpiry: 5, category: 'Dairy', customRuleId: 'mine' };
+    expect(findExpiryRule('Toned Milk', [custom])?.rule).toBe(custom);
+  });
+});
+
+describe('shelfLifeDays', () => {
+  it('uses the rule for the location the item is kept in', () => {
+    expect(shelfLifeDays('Chicken breast', 'fridge')).toBe(2);
+    expect(shelfLifeDays('Chicken breast', 'freezer')).toBe(270);
+    expect(shelfLifeDays('Potatoes')).toBe(14);
+  });
+
+  it('falls back to the defaults below a confident match', () => {
+    expect(findExpiryRule('Lamp oil')!.confidence).toBeLessThan(CONFIDENT_MATCH);
+    expect(shelfLifeDays('Lamp oil', 'fridge')).toBe(7);
+    expect(calculateExpiryDate('Lamp oil', new Date(2025, 0, 1))).toEqual(new Date(2025, 0, 8));
+  });
+});
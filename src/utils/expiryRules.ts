@@ -1,68 +1,272 @@
 // Rule-based expiry database for common food items
+import type { StorageLocation } from '@/utils/storageLocation';
+
 export interface ExpiryRule {
   keywords: string[];
+  // Shelf life where the item is normally kept (defaultLocation)
   daysUntilExpiry: number;
   category: string;
+  // Where the item is normally kept; the fridge unless set
+  defaultLocation?: StorageLocation;
+  // Shelf life when kept somewhere else
+  locationDays?: Partial<Record<StorageLocation, number>>;
+  // How long it keeps once opened, when that is sooner than the printed date
+  daysAfterOpening?: number;
+  // Custom rules can be limited to items kept in one place
+  storageLocation?: StorageLocation | null;
+  // Set for rules users added themselves
+  customRuleId?: string;
 }
 
 export const expiryRules: ExpiryRule[] = [
   // Dairy products
-  { keywords: ['milk', 'doodh'], daysUntilExpiry: 3, category: 'Dairy' },
-  { keywords: ['curd', 'dahi', 'yogurt', 'yoghurt'], daysUntilExpiry: 5, category: 'Dairy' },
-  { keywords: ['paneer', 'cottage cheese'], daysUntilExpiry: 3, category: 'Dairy' },
-  { keywords: ['butter', 'ghee'], daysUntilExpiry: 30, category: 'Dairy' },
-  { keywords: ['cheese'], daysUntilExpiry: 14, category: 'Dairy' },
+  { keywords: ['milk', 'doodh'], daysUntilExpiry: 3, category: 'Dairy', locationDays: { freezer: 90 }, daysAfterOpening: 3 },
+  { keywords: ['curd', 'dahi', 'yogurt', 'yoghurt'], daysUntilExpiry: 5, category: 'Dairy', locationDays: { freezer: 60 }, daysAfterOpening: 5 },
+  { keywords: ['paneer', 'cottage cheese'], daysUntilExpiry: 3, category: 'Dairy', locationDays: { freezer: 90 }, daysAfterOpening: 3 },
+  { keywords: ['butter', 'ghee'], daysUntilExpiry: 30, category: 'Dairy', locationDays: { freezer: 180 }, daysAfterOpening: 30 },
+  { keywords: ['cheese'], daysUntilExpiry: 14, category: 'Dairy', locationDays: { freezer: 180 }, daysAfterOpening: 21 },
   
   // Vegetables
-  { keywords: ['tomato', 'tamatar'], daysUntilExpiry: 5, category: 'Vegetables' },
-  { keywords: ['potato', 'aloo'], daysUntilExpiry: 14, category: 'Vegetables' },
-  { keywords: ['onion', 'pyaz'], daysUntilExpiry: 14, category: 'Vegetables' },
-  { keywords: ['carrot', 'gajar'], daysUntilExpiry: 7, category: 'Vegetables' },
-  { keywords: ['cabbage', 'patta gobi'], daysUntilExpiry: 7, category: 'Vegetables' },
-  { keywords: ['cauliflower', 'phool gobi'], daysUntilExpiry: 5, category: 'Vegetables' },
-  { keywords: ['spinach', 'palak'], daysUntilExpiry: 3, category: 'Vegetables' },
-  { keywords: ['brinjal', 'baingan', 'eggplant'], daysUntilExpiry: 5, category: 'Vegetables' },
-  { keywords: ['capsicum', 'bell pepper', 'shimla mirch'], daysUntilExpiry: 5, category: 'Vegetables' },
+  { keywords: ['tomato', 'tamatar'], daysUntilExpiry: 5, category: 'Vegetables', locationDays: { pantry: 3, freezer: 60 } },
+  { keywords: ['potato', 'aloo'], daysUntilExpiry: 14, category: 'Vegetables', defaultLocation: 'pantry', locationDays: { fridge: 21 } },
+  { keywords: ['onion', 'pyaz'], daysUntilExpiry: 14, category: 'Vegetables', defaultLocation: 'pantry', locationDays: { fridge: 30 } },
+  { keywords: ['carrot', 'gajar'], daysUntilExpiry: 7, category: 'Vegetables', locationDays: { freezer: 240 } },
+  { keywords: ['cabbage', 'patta gobi'], daysUntilExpiry: 7, category: 'Vegetables', locationDays: { freezer: 240 } },
+  { keywords: ['cauliflower', 'phool gobi'], daysUntilExpiry: 5, category: 'Vegetables', locationDays: { freezer: 240 } },
+  { keywords: ['spinach', 'palak'], daysUntilExpiry: 3, category: 'Vegetables', locationDays: { freezer: 240 } },
+  { keywords: ['brinjal', 'baingan', 'eggplant'], daysUntilExpiry: 5, category: 'Vegetables', locationDays: { pantry: 2 } },
+  { keywords: ['capsicum', 'bell pepper', 'shimla mirch'], daysUntilExpiry: 5, category: 'Vegetables', locationDays: { freezer: 240 } },
   
   // Fruits
-  { keywords: ['apple', 'seb'], daysUntilExpiry: 7, category: 'Fruits' },
-  { keywords: ['banana', 'kela'], daysUntilExpiry: 3, category: 'Fruits' },
-  { keywords: ['orange', 'santara'], daysUntilExpiry: 7, category: 'Fruits' },
-  { keywords: ['mango', 'aam'], daysUntilExpiry: 5, category: 'Fruits' },
-  { keywords: ['grapes', 'angoor'], daysUntilExpiry: 5, category: 'Fruits' },
+  { keywords: ['apple', 'seb'], daysUntilExpiry: 7, category: 'Fruits', defaultLocation: 'pantry', locationDays: { fridge: 30 } },
+  { keywords: ['banana', 'kela'], daysUntilExpiry: 3, category: 'Fruits', defaultLocation: 'pantry', locationDays: { freezer: 90 } },
+  { keywords: ['orange', 'santara'], daysUntilExpiry: 7, category: 'Fruits', defaultLocation: 'pantry', locationDays: { fridge: 21 } },
+  { keywords: ['mango', 'aam'], daysUntilExpiry: 5, category: 'Fruits', defaultLocation: 'pantry', locationDays: { fridge: 7, freezer: 180 } },
+  { keywords: ['grapes', 'angoor'], daysUntilExpiry: 5, category: 'Fruits', locationDays: { freezer: 300 } },
   
   // Meat & Fish
-  { keywords: ['chicken', 'murgi'], daysUntilExpiry: 2, category: 'Meat' },
-  { keywords: ['mutton', 'lamb', 'goat'], daysUntilExpiry: 2, category: 'Meat' },
-  { keywords: ['fish', 'machli'], daysUntilExpiry: 1, category: 'Meat' },
-  { keywords: ['prawn', 'shrimp', 'jhinga'], daysUntilExpiry: 1, category: 'Meat' },
+  { keywords: ['chicken', 'murgi'], daysUntilExpiry: 2, category: 'Meat', locationDays: { freezer: 270 } },
+  { keywords: ['mutton', 'lamb', 'goat'], daysUntilExpiry: 2, category: 'Meat', locationDays: { freezer: 270 } },
+  { keywords: ['fish', 'machli'], daysUntilExpiry: 1, category: 'Meat', locationDays: { freezer: 180 } },
+  { keywords: ['prawn', 'shrimp', 'jhinga'], daysUntilExpiry: 1, category: 'Meat', locationDays: { freezer: 180 } },
   
   // Bread & Bakery
-  { keywords: ['bread', 'pav'], daysUntilExpiry: 3, category: 'Bakery' },
-  { keywords: ['cake'], daysUntilExpiry: 3, category: 'Bakery' },
+  { keywords: ['bread', 'pav'], daysUntilExpiry: 3, category: 'Bakery', defaultLocation: 'pantry', locationDays: { fridge: 7, freezer: 90 } },
+  { keywords: ['cake'], daysUntilExpiry: 3, category: 'Bakery', defaultLocation: 'pantry', locationDays: { fridge: 5, freezer: 90 } },
+  { keywords: ['idli batter', 'dosa batter', 'batter'], daysUntilExpiry: 4, category: 'Other', locationDays: { freezer: 60 } },
   
   // Eggs
-  { keywords: ['egg', 'anda'], daysUntilExpiry: 14, category: 'Eggs' },
+  { keywords: ['egg', 'anda'], daysUntilExpiry: 14, category: 'Eggs', locationDays: { pantry: 7 } },
+
+  // Jars and bottles: long-lived until opened
+  { keywords: ['jam', 'jelly', 'marmalade'], daysUntilExpiry: 365, category: 'Other', defaultLocation: 'pantry', daysAfterOpening: 30 },
+  { keywords: ['ketchup', 'sauce', 'tomato sauce', 'chutney'], daysUntilExpiry: 365, category: 'Other', defaultLocation: 'pantry', daysAfterOpening: 60 },
+  { keywords: ['pickle', 'achar'], daysUntilExpiry: 365, category: 'Other', defaultLocation: 'pantry', daysAfterOpening: 90 },
+  { keywords: ['mayonnaise', 'mayo'], daysUntilExpiry: 90, category: 'Other', defaultLocation: 'pantry', daysAfterOpening: 30 },
 ];
 
-export const findExpiryRule = (itemName: string): ExpiryRule | null => {
-  const lowerName = itemName.toLowerCase();
-  
-  for (const rule of expiryRules) {
-    if (rule.keywords.some(keyword => lowerName.includes(keyword))) {
-      return rule;
+// Used when nothing better is known about an item
+const DEFAULT_DAYS: Record<StorageLocation, number> = {
+  fridge: 7,
+  freezer: 90,
+  pantry: 7,
+};
+
+export interface ExpiryRuleMatch {
+  rule: ExpiryRule;
+  // The keyword that matched, as written in the rule
+  keyword: string;
+  // 1 for an exact word match, lower the more OCR-style edits were needed
+  confidence: number;
+}
+
+// Matches below this are still returned, but callers shouldn't act on them unattended
+export const CONFIDENT_MATCH = 0.8;
+
+// Reduces plurals to their singular so "tomatoes", "berries" and "eggs" match their rules
+const stem = (word: string) => {
+  if (word.length > 4 && word.endsWith('ies')) return `${word.slice(0, -3)}y`;
+  if (/(ch|sh|x|ss|o)es$/.test(word)) return word.slice(0, -2);
+  if (word.length > 3 && word.endsWith('s') && !/(ss|us)$/.test(word)) return word.slice(0, -1);
+  return word;
+};
+
+const tokenize = (text: string) =>
+  (text.toLowerCase().normalize('NFKD').replace(/\p{M}/gu, '').match(/\p{L}+/gu) || []).map(stem);
+
+const editDistance = (a: string, b: string) => {
+  let prev = Array.from({ length: b.length + 1 }, (_, i) => i);
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i];
+    for (let j = 1; j <= b.length; j++) {
+      current[j] = Math.min(
+        prev[j] + 1,
+        current[j - 1] + 1,
+        prev[j - 1] + (a[i - 1] === b[j - 1] ? 0 : 1),
+      );
     }
+    prev = current;
   }
-  
-  return null;
+  return prev[b.length];
+};
+
+// Short words must match exactly; longer ones tolerate one or two misread letters
+const allowedEdits = (length: number) => (length >= 8 ? 2 : length >= 4 ? 1 : 0);
+
+// Words of the built-in keywords. A name word that is one of them means that
+// word, so "batter" is never read as a misspelt "butter".
+const KNOWN_WORDS = new Set(expiryRules.flatMap(rule => rule.keywords.flatMap(tokenize)));
+
+// Misreads are only tolerated past the first letter, so "Union" isn't "onion"
+const tokenSimilarity = (token: string, keyword: string, knownWords: Set<string>) => {
+  if (token === keyword) return 1;
+  if (token[0] !== keyword[0] || knownWords.has(token)) return 0;
+  if (Math.abs(token.length - keyword.length) > allowedEdits(keyword.length)) return 0;
+  const distance = editDistance(token, keyword);
+  return distance <= allowedEdits(keyword.length) ? 1 - distance / Math.max(token.length, keyword.length) : 0;
+};
+
+// Best similarity of a (possibly multi-word) keyword against any run of consecutive tokens
+const keywordSimilarity = (tokens: string[], keywordTokens: string[], knownWords = KNOWN_WORDS) => {
+  let best = 0;
+  for (let start = 0; start + keywordTokens.length <= tokens.length; start++) {
+    let total = 0;
+    for (let k = 0; k < keywordTokens.length; k++) {
+      const similarity = tokenSimilarity(tokens[start + k], keywordTokens[k], knownWords);
+      if (similarity === 0) {
+        total = 0;
+        break;
+      }
+      total += similarity;
+    }
+    best = Math.max(best, total / keywordTokens.length);
+  }
+  return best;
+};
+
+const keywordTokenCache = new Map<string, string[]>();
+const keywordTokens = (keyword: string) => {
+  if (!keywordTokenCache.has(keyword)) keywordTokenCache.set(keyword, tokenize(keyword));
+  return keywordTokenCache.get(keyword)!;
+};
+
+// How well an item name matches any of the keywords, with the same fuzziness as the rules; 0 for no match
+export const keywordConfidence = (itemName: string, keywords: string[]): number => {
+  const tokens = tokenize(itemName);
+  return keywords.reduce((best, keyword) => {
+    const parts = keywordTokens(keyword);
+    return parts.length === 0 ? best : Math.max(best, keywordSimilarity(tokens, parts));
+  }, 0);
 };
 
-export const calculateExpiryDate = (itemName: string, purchaseDate: Date = new Date()): Date => {
-  const rule = findExpiryRule(itemName);
-  const daysToAdd = rule?.daysUntilExpiry || 7; // Default 7 days if no rule found
+/**
+ * Finds the rule for an item name by whole words, so "pineapple" doesn't match
+ * "apple". Plurals and small OCR typos ("tomatq") still match, at lower
+ * confidence. When several keywords match, the longest one wins, so
+ * "cottage cheese" beats "cheese". Custom rules are checked first and win ties,
+ * so a user's own "milk" rule overrides the built-in one. Custom rules limited
+ * to a storage location only apply when the item is known to be kept there.
+ */
+export const findExpiryRule = (
+  itemName: string,
+  customRules: ExpiryRule[] = [],
+  location?: StorageLocation,
+): ExpiryRuleMatch | null => {
+  const tokens = tokenize(itemName);
+  if (tokens.length === 0) return null;
+
+  const applicableRules = customRules.filter(rule => !rule.storageLocation || rule.storageLocation === location);
+  const knownWords = new Set([...KNOWN_WORDS, ...applicableRules.flatMap(rule => rule.keywords.flatMap(keywordTokens))]);
+  let best: (ExpiryRuleMatch & { score: number }) | null = null;
+  for (const rule of [...applicableRules, ...expiryRules]) {
+    for (const keyword of rule.keywords) {
+      const parts = keywordTokens(keyword);
+      if (parts.length === 0) continue;
+      // "pattagobi" as one word still counts for "patta gobi"
+      const confidence = parts.length > 1
+        ? Math.max(keywordSimilarity(tokens, parts, knownWords), keywordSimilarity(tokens, [parts.join('')], knownWords))
+        : keywordSimilarity(tokens, parts, knownWords);
+      if (confidence === 0) continue;
+
+      const score = parts.join('').length * confidence;
+      if (!best || score > best.score || (score === best.score && confidence > best.confidence)) {
+        best = { rule, keyword, confidence, score };
+      }
+    }
+  }
+
+  if (!best) return null;
+  return { rule: best.rule, keyword: best.keyword, confidence: Math.round(best.confidence * 100) / 100 };
+};
+
+// The rule to act on without asking: shaky matches ("lamp oil" for lamb) get the defaults instead
+const confidentRule = (itemName: string, customRules: ExpiryRule[], location?: StorageLocation) => {
+  const match = findExpiryRule(itemName, customRules, location);
+  return match && match.confidence >= CONFIDENT_MATCH ? match.rule : null;
+};
+
+// Where an item is normally kept, going by its rule
+export const defaultStorageLocation = (itemName: string, customRules: ExpiryRule[] = []): StorageLocation => {
+  const rule = confidentRule(itemName, customRules);
+  return rule?.defaultLocation ?? rule?.storageLocation ?? 'fridge';
+};
+
+/**
+ * Shelf life in days of an item kept in the given location. Rules without a
+ * figure for that location fall back to their usual days, except the freezer,
+ * which always buys more time.
+ */
+export const shelfLifeDays = (
+  itemName: string,
+  location?: StorageLocation,
+  customRules: ExpiryRule[] = [],
+): number => {
+  const where = location ?? defaultStorageLocation(itemName, customRules);
+  const rule = confidentRule(itemName, customRules, where);
+  if (!rule) return DEFAULT_DAYS[where];
+  // Location-limited custom rules already give the days for that location
+  if (rule.storageLocation === where) return rule.daysUntilExpiry;
+
+  const specific = rule.locationDays?.[where];
+  if (specific) return specific;
+  if (where === (rule.defaultLocation ?? 'fridge')) return rule.daysUntilExpiry;
+  return where === 'freezer' ? Math.max(DEFAULT_DAYS.freezer, rule.daysUntilExpiry) : rule.daysUntilExpiry;
+};
+
+export const calculateExpiryDate = (
+  itemName: string,
+  purchaseDate: Date = new Date(),
+  customRules: ExpiryRule[] = [],
+  location?: StorageLocation,
+): Date => {
+  const daysToAdd = shelfLifeDays(itemName, location, customRules);
   
   const expiryDate = new Date(purchaseDate);
   expiryDate.setDate(expiryDate.getDate() + daysToAdd);
   
   return expiryDate;
 };
+
+// How long an item keeps once opened, or null when opening makes no difference
+export const afterOpeningDays = (itemName: string, customRules: ExpiryRule[] = []): number | null =>
+  confidentRule(itemName, customRules)?.daysAfterOpening ?? null;
+
+/**
+ * Expiry of an opened item: the printed date or the after-opening window,
+ * whichever comes first. Items without an after-opening window keep their
+ * printed date.
+ */
+export const openedExpiryDate = (
+  itemName: string,
+  printedExpiry: Date,
+  openedAt: Date = new Date(),
+  customRules: ExpiryRule[] = [],
+): Date => {
+  const days = afterOpeningDays(itemName, customRules);
+  if (days === null) return printedExpiry;
+
+  const openedExpiry = new Date(openedAt);
+  openedExpiry.setHours(0, 0, 0, 0);
+  openedExpiry.setDate(openedExpiry.getDate() + days);
+  return openedExpiry < printedExpiry ? openedExpiry : printedExpiry;
+};
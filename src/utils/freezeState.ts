@@ -0,0 +1,47 @@
+// Freezing pauses an item's expiry clock and thawing starts a short new one
+import { addDays, differenceInCalendarDays, parseISO, startOfDay } from 'date-fns';
+import type { Enums } from '@/integrations/supabase/types';
+import { ExpiryRule, shelfLifeDays } from '@/utils/expiryRules';
+
+export type FreezeState = Enums<'freeze_state'>;
+
+export const FREEZE_STATE_LABELS: Record<FreezeState, string> = {
+  fresh: 'Fresh',
+  frozen: 'Frozen',
+  thawed: 'Thawed',
+};
+
+// How long food keeps in the fridge once thawed
+const THAW_DAYS: Record<string, number> = {
+  Meat: 1,
+  Dairy: 2,
+  Bakery: 2,
+};
+const DEFAULT_THAW_DAYS = 2;
+
+interface FreezableItem {
+  name: string;
+  category?: string | null;
+  expiry_date: string;
+  days_left_when_frozen?: number | null;
+}
+
+export const daysLeft = (expiryDate: string, today: Date = new Date()) =>
+  Math.max(differenceInCalendarDays(parseISO(expiryDate), startOfDay(today)), 0);
+
+// Frozen items keep for their freezer shelf life, counted from the day they went in
+export const frozenExpiryDate = (
+  item: FreezableItem,
+  frozenAt: Date = new Date(),
+  customRules: ExpiryRule[] = [],
+): Date => addDays(startOfDay(frozenAt), shelfLifeDays(item.name, 'freezer', customRules));
+
+/**
+ * Thawed items get a short countdown by category, never longer than the fresh
+ * shelf life that was left when they were frozen.
+ */
+export const thawedExpiryDate = (item: FreezableItem, thawedAt: Date = new Date()): Date => {
+  const window = THAW_DAYS[item.category ?? ''] ?? DEFAULT_THAW_DAYS;
+  const days = item.days_left_when_frozen != null ? Math.min(window, item.days_left_when_frozen) : window;
+  return addDays(startOfDay(thawedAt), days);
+};
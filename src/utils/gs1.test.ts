@@ -0,0 +1,75 @@
+import { describe, expect, it } from 'vitest';
+import { parseGs1, parseGs1Date } from '@/utils/gs1';
+
+const GS = '\u001d';
+const TODAY = new Date(2025, 11, 15);
+
+describe('parseGs1', () => {
+  it('reads parentheses notation', () => {
+    expect(parseGs1('(01)08901058000290(17)260630(10)B2417', TODAY)).toEqual({
+      gtin: '08901058000290',
+      expiryDate: new Date(2026, 5, 30),
+      lot: 'B2417',
+    });
+  });
+
+  it('reads raw data behind a ]d2 DataMatrix identifier', () => {
+    expect(parseGs1(']d201089010580002901726063010B2417', TODAY)).toEqual({
+      gtin: '08901058000290',
+      expiryDate: new Date(2026, 5, 30),
+      lot: 'B2417',
+    });
+  });
+
+  it('reads raw data behind a ]C1 GS1-128 identifier', () => {
+    expect(parseGs1(']C101089010580002901525123111250110', TODAY)).toEqual({
+      gtin: '08901058000290',
+      bestBefore: new Date(2025, 11, 31),
+      productionDate: new Date(2025, 0, 10),
+    });
+  });
+
+  it('ends a variable-length lot at the GS separator', () => {
+    expect(parseGs1(`${GS}010890105800029010LOT42${GS}17260630`, TODAY)).toEqual({
+      gtin: '08901058000290',
+      lot: 'LOT42',
+      expiryDate: new Date(2026, 5, 30),
+    });
+  });
+
+  it('reads unmarked raw data that starts with a valid GTIN', () => {
+    expect(parseGs1('010890105800029017260630', TODAY)).toEqual({
+      gtin: '08901058000290',
+      expiryDate: new Date(2026, 5, 30),
+    });
+  });
+
+  it('leaves bare retail barcodes and plain numbers alone', () => {
+    expect(parseGs1('8901058000290', TODAY)).toBeNull();
+    expect(parseGs1('0108901058000291', TODAY)).toBeNull();
+    expect(parseGs1('Amul Butter', TODAY)).toBeNull();
+  });
+});
+
+describe('parseGs1Date', () => {
+  it('reads YYMMDD', () => {
+    expect(parseGs1Date('260630', TODAY)).toEqual(new Date(2026, 5, 30));
+  });
+
+  it('takes day 00 as the last day of the month', () => {
+    expect(parseGs1Date('260200', TODAY)).toEqual(new Date(2026, 1, 28));
+    expect(parseGs1Date('280200', TODAY)).toEqual(new Date(2028, 1, 29));
+  });
+
+  it('uses the sliding century: up to 50 years ahead, 49 back', () => {
+    expect(parseGs1Date('750101', TODAY)).toEqual(new Date(2075, 0, 1));
+    expect(parseGs1Date('760101', TODAY)).toEqual(new Date(1976, 0, 1));
+    expect(parseGs1Date('990101', new Date(2001, 0, 1))).toEqual(new Date(1999, 0, 1));
+  });
+
+  it('rejects impossible dates', () => {
+    expect(parseGs1Date('261301', TODAY)).toBeUndefined();
+    expect(parseGs1Date('260231', TODAY)).toBeUndefined();
+    expect(parseGs1Date('2606', TODAY)).toBeUndefined();
+  });
+});
@@ -0,0 +1,151 @@
+// GS1 element strings as found in GS1 DataMatrix, GS1-128 and GS1 QR codes,
+// e.g. "(01)08901058000290(17)260630(10)B2417" or the same data with FNC1/GS
+// separators instead of parentheses.
+import { normalizeGtin } from '@/utils/barcode';
+
+export interface Gs1Data {
+  gtin?: string;
+  // AI 10: batch or lot number
+  lot?: string;
+  // AI 11
+  productionDate?: Date;
+  // AI 15
+  bestBefore?: Date;
+  // AI 17
+  expiryDate?: Date;
+}
+
+// Group separator, which scanners return for FNC1 between variable-length fields
+const GS = '\u001d';
+
+// Data length of fixed-length AIs
+const FIXED_LENGTH: Record<string, number> = {
+  '00': 18,
+  '01': 14,
+  '02': 14,
+  '11': 6,
+  '12': 6,
+  '13': 6,
+  '15': 6,
+  '16': 6,
+  '17': 6,
+  '20': 2,
+};
+
+// Maximum data length of variable-length AIs, which end at a GS or the end of the data
+const VARIABLE_LENGTH: Record<string, number> = {
+  '10': 20,
+  '21': 20,
+  '22': 20,
+  '30': 8,
+  '37': 8,
+  '240': 30,
+  '241': 30,
+  '250': 30,
+  '400': 30,
+  '90': 30,
+};
+
+/**
+ * Reads the AI starting at `index`, with the length of its data: a number for
+ * fixed-length AIs, or the maximum for variable-length ones. Null for AIs not
+ * listed here, since their length can't be known.
+ */
+const readAi = (data: string, index: number): { ai: string; fixed?: number; max?: number } | null => {
+  const two = data.slice(index, index + 2);
+  const three = data.slice(index, index + 3);
+  const four = data.slice(index, index + 4);
+
+  // Measures such as net weight: 4-digit AI and 6 digits of data
+  if (/^3[1-6]\d\d$/.test(four)) return { ai: four, fixed: 6 };
+  // Global location numbers
+  if (/^41[0-7]$/.test(three)) return { ai: three, fixed: 13 };
+  if (three in VARIABLE_LENGTH) return { ai: three, max: VARIABLE_LENGTH[three] };
+  if (/^9[1-9]$/.test(two)) return { ai: two, max: 90 };
+  if (two in FIXED_LENGTH) return { ai: two, fixed: FIXED_LENGTH[two] };
+  if (two in VARIABLE_LENGTH) return { ai: two, max: VARIABLE_LENGTH[two] };
+  return null;
+};
+
+/**
+ * YYMMDD with the GS1 sliding century (up to 49 years back, 50 ahead). Day
+ * 00 means the last day of the month.
+ */
+export const parseGs1Date = (value: string, today: Date = new Date()): Date | undefined => {
+  if (!/^\d{6}$/.test(value)) return undefined;
+  const yy = Number(value.slice(0, 2));
+  const month = Number(value.slice(2, 4));
+  const day = Number(value.slice(4, 6));
+  if (month < 1 || month > 12) return undefined;
+
+  const currentYear = today.getFullYear();
+  let year = Math.floor(currentYear / 100) * 100 + yy;
+  if (year - currentYear > 50) year -= 100;
+  else if (currentYear - year > 49) year += 100;
+
+  const lastDay = new Date(year, month, 0).getDate();
+  if (day > lastDay) return undefined;
+  return new Date(year, month - 1, day === 0 ? lastDay : day);
+};
+
+// "(01)...(17)..." into AI/value pairs
+const splitParenthesized = (text: string) =>
+  Array.from(text.matchAll(/\((\d{2,4})\)([^(]*)/g), match => [match[1], match[2].trim()] as const);
+
+// Raw element string into AI/value pairs; stops at the first AI it doesn't know
+const splitRaw = (text: string) => {
+  const pairs: (readonly [string, string])[] = [];
+  let index = 0;
+  while (index < text.length) {
+    if (text[index] === GS) {
+      index++;
+      continue;
+    }
+    const ai = readAi(text, index);
+    if (!ai) break;
+    index += ai.ai.length;
+
+    if (ai.fixed) {
+      pairs.push([ai.ai, text.slice(index, index + ai.fixed)]);
+      index += ai.fixed;
+    } else {
+      const end = text.indexOf(GS, index);
+      const stop = Math.min(end === -1 ? text.length : end, index + ai.max!);
+      pairs.push([ai.ai, text.slice(index, stop)]);
+      index = stop;
+    }
+  }
+  return pairs;
+};
+
+/**
+ * Parses a GS1 element string, or returns null when the text isn't one.
+ * Accepts parentheses notation, symbology identifiers (]d2, ]C1, ]Q3), a
+ * leading FNC1 and GS separators. Without a symbology identifier or FNC1,
+ * raw digits only count as GS1 when they start with a valid (01) GTIN, so
+ * plain numbers aren't mistaken for it.
+ */
+export const parseGs1 = (text: string, today: Date = new Date()): Gs1Data | null => {
+  const trimmed = text.trim();
+  let pairs: (readonly [string, string])[];
+
+  if (/^\(\d{2,4}\)/.test(trimmed)) {
+    pairs = splitParenthesized(trimmed);
+  } else {
+    const marked = /^\][CdQe]\d/.test(trimmed) || trimmed.startsWith(GS);
+    const raw = trimmed.replace(/^\][A-Za-z]\d/, '');
+    if (!marked && !(/^01\d{14}/.test(raw) && normalizeGtin(raw.slice(2, 16)))) return null;
+    pairs = splitRaw(raw);
+  }
+
+  const data: Gs1Data = {};
+  pairs.forEach(([ai, value]) => {
+    if (ai === '01') data.gtin = normalizeGtin(value) ?? undefined;
+    else if (ai === '10' && value) data.lot = value;
+    else if (ai === '11') data.productionDate = parseGs1Date(value, today);
+    else if (ai === '15') data.bestBefore = parseGs1Date(value, today);
+    else if (ai === '17') data.expiryDate = parseGs1Date(value, today);
+  });
+
+  return Object.values(data).some(value => value !== undefined) ? data : null;
+};
@@ -0,0 +1,147 @@
+// Printable QR labels for home-made food, leftovers and meal-prep containers.
+// A label points at one tracked item, so scanning it opens that item instead of adding a new one.
+// Labels are signed by the food-labels edge function with a secret only the
+// server holds, so hand-made or edited codes are turned away when scanned.
+import jsPDF from 'jspdf';
+import QRCode from 'qrcode';
+import { format, parseISO } from 'date-fns';
+import { supabase } from '@/integrations/supabase/client';
+
+export interface FoodLabel {
+  id: string;
+  name: string;
+  // yyyy-MM-dd
+  cooked: string;
+  expiry: string;
+}
+
+export interface SignedLabel extends FoodLabel {
+  sig: string;
+}
+
+const LABEL_TYPE = 'food-label';
+const LABEL_VERSION = 1;
+
+export interface StickerSheet {
+  label: string;
+  pageFormat: 'a4' | 'letter';
+  columns: number;
+  rows: number;
+  // Millimetres
+  width: number;
+  height: number;
+  top: number;
+  left: number;
+  columnGap: number;
+}
+
+export type StickerSheetId = 'L7160' | 'L7163' | '5160';
+
+export const STICKER_SHEETS: Record<StickerSheetId, StickerSheet> = {
+  L7160: {
+    label: 'A4, 21 per sheet — 63.5 × 38.1 mm (Avery L7160)',
+    pageFormat: 'a4', columns: 3, rows: 7, width: 63.5, height: 38.1, top: 15.15, left: 7.25, columnGap: 2.5,
+  },
+  L7163: {
+    label: 'A4, 14 per sheet — 99.1 × 38.1 mm (Avery L7163)',
+    pageFormat: 'a4', columns: 2, rows: 7, width: 99.1, height: 38.1, top: 15.15, left: 4.65, columnGap: 2.5,
+  },
+  '5160': {
+    label: 'Letter, 30 per sheet — 66.7 × 25.4 mm (Avery 5160)',
+    pageFormat: 'letter', columns: 3, rows: 10, width: 66.7, height: 25.4, top: 12.7, left: 4.75, columnGap: 3.2,
+  },
+};
+
+// The label for an item, signed by the server from the item as stored
+export const signLabel = async (itemId: string): Promise<SignedLabel> => {
+  const { data, error } = await supabase.functions.invoke<{ label: SignedLabel }>('food-labels', {
+    body: { sign: itemId },
+  });
+  if (error) throw error;
+  return data!.label;
+};
+
+// Whether a scanned label was signed by the server and hasn't been edited since
+export const verifyLabel = async (label: SignedLabel): Promise<boolean> => {
+  const { data, error } = await supabase.functions.invoke<{ valid: boolean }>('food-labels', {
+    body: { verify: label },
+  });
+  if (error) throw error;
+  return !!data?.valid;
+};
+
+// Short keys keep the QR code small enough to read off a sticker
+export const encodeLabel = (label: SignedLabel) =>
+  JSON.stringify({
+    t: LABEL_TYPE,
+    v: LABEL_VERSION,
+    id: label.id,
+    n: label.name,
+    c: label.cooked,
+    e: label.expiry,
+    s: label.sig,
+  });
+
+// Null for anything that isn't one of our labels; the signature is checked separately with verifyLabel
+export const decodeLabel = (text: string): SignedLabel | null => {
+  try {
+    const data = JSON.parse(text);
+    if (data?.t !== LABEL_TYPE || data.v !== LABEL_VERSION) return null;
+    if (![data.id, data.n, data.c, data.e, data.s].every(value => typeof value === 'string')) return null;
+    return { id: data.id, name: data.n, cooked: data.c, expiry: data.e, sig: data.s };
+  } catch {
+    return null;
+  }
+};
+
+/**
+ * Lays labels out on sticker sheets, starting at `skip` so a partly used sheet
+ * can go back into the printer.
+ */
+export const generateLabelsPdf = async (
+  labels: SignedLabel[],
+  sheetId: StickerSheetId,
+  skip = 0,
+): Promise<jsPDF> => {
+  const sheet = STICKER_SHEETS[sheetId];
+  const perPage = sheet.columns * sheet.rows;
+  const doc = new jsPDF({ unit: 'mm', format: sheet.pageFormat });
+  const padding = 2;
+  const qrSize = sheet.height - padding * 2;
+
+  for (let i = 0; i < labels.length; i++) {
+    const position = skip + i;
+    const page = Math.floor(position / perPage);
+    while (doc.getNumberOfPages() <= page) doc.addPage();
+    doc.setPage(page + 1);
+
+    const slot = position % perPage;
+    const x = sheet.left + (slot % sheet.columns) * (sheet.width + sheet.columnGap);
+    const y = sheet.top + Math.floor(slot / sheet.columns) * sheet.height;
+    const label = labels[i];
+
+    const qr = await QRCode.toDataURL(encodeLabel(label), {
+      errorCorrectionLevel: 'M',
+      margin: 0,
+      width: 256,
+    });
+    doc.addImage(qr, 'PNG', x + padding, y + padding, qrSize, qrSize);
+
+    const textX = x + qrSize + padding * 2;
+    const textWidth = sheet.width - qrSize - padding * 3;
+    const lineHeight = sheet.height < 30 ? 3.6 : 4.4;
+    doc.setFont('helvetica', 'bold');
+    doc.setFontSize(sheet.height < 30 ? 9 : 11);
+    const nameLines = (doc.splitTextToSize(label.name, textWidth) as string[]).slice(0, 2);
+    doc.text(nameLines, textX, y + padding + 4);
+
+    const detailsY = y + padding + 4 + nameLines.length * lineHeight + 1;
+    doc.setFontSize(sheet.height < 30 ? 7 : 8);
+    doc.setFont('helvetica', 'normal');
+    doc.text(`Made: ${format(parseISO(label.cooked), 'MMM d, yyyy')}`, textX, detailsY);
+    doc.setFont('helvetica', 'bold');
+    doc.text(`Use by: ${format(parseISO(label.expiry), 'MMM d, yyyy')}`, textX, detailsY + lineHeight);
+  }
+
+  return doc;
+};
@@ -0,0 +1,15 @@
+import type { Enums } from '@/integrations/supabase/types';
+
+export type ItemKind = Enums<'item_kind'>;
+
+// Category given to leftovers, so consumption and waste logs can tell them apart
+export const LEFTOVER_CATEGORY = 'Leftovers';
+
+/**
+ * Days cooked food stays safe to eat: 3–4 in the fridge, with the shorter end
+ * for dishes made with meat, fish or dairy, and a few months frozen.
+ */
+export const leftoverSafeDays = (location: 'fridge' | 'freezer', ingredientCategories: (string | null)[] = []) => {
+  if (location === 'freezer') return 90;
+  return ingredientCategories.some(category => category === 'Meat' || category === 'Dairy') ? 3 : 4;
+};
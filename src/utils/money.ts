@@ -0,0 +1,79 @@
+// Prices and money totals for items and the waste log
+export const DEFAULT_CURRENCY = 'INR';
+export const CURRENCIES = ['INR', 'USD', 'EUR', 'GBP', 'AED'];
+
+// Amounts keyed by ISO currency code, so mixed currencies are never added together
+export type MoneyTotals = Record<string, number>;
+
+const roundMoney = (amount: number) => Math.round(amount * 100) / 100;
+
+// Plain-text form for places without currency symbol glyphs, such as PDF exports
+export const formatMoneyCode = (amount: number, currency: string = DEFAULT_CURRENCY) =>
+  `${currency} ${amount.toFixed(2)}`;
+
+export const formatMoney = (amount: number, currency: string = DEFAULT_CURRENCY) => {
+  try {
+    return new Intl.NumberFormat(undefined, { style: 'currency', currency, maximumFractionDigits: 2 }).format(amount);
+  } catch {
+    return formatMoneyCode(amount, currency);
+  }
+};
+
+export const addMoney = (totals: MoneyTotals, amount: number | null | undefined, currency: string | null | undefined) => {
+  if (!amount) return totals;
+  const code = currency || DEFAULT_CURRENCY;
+  totals[code] = roundMoney((totals[code] || 0) + amount);
+  return totals;
+};
+
+// Largest amount first, e.g. "₹1,240.00 + $12.00"
+export const formatMoneyTotals = (totals: MoneyTotals, formatAmount = formatMoney) => {
+  const entries = Object.entries(totals).filter(([, amount]) => amount > 0);
+  if (entries.length === 0) return formatAmount(0, DEFAULT_CURRENCY);
+  return entries
+    .sort(([, a], [, b]) => b - a)
+    .map(([currency, amount]) => formatAmount(amount, currency))
+    .join(' + ');
+};
+
+// The currency most of the amounts are in, used to pick what a chart is drawn in
+export const primaryCurrency = (totals: MoneyTotals) =>
+  Object.entries(totals).sort(([, a], [, b]) => b - a)[0]?.[0] || DEFAULT_CURRENCY;
+
+/**
+ * Reads a price as printed on a receipt or typed by hand: "₹ 1,249.50",
+ * "Rs.45", "3,99" (decimal comma). Returns null when there is no usable number.
+ */
+export const parsePrice = (value: string | number | null | undefined): number | null => {
+  if (value === null || value === undefined) return null;
+  if (typeof value === 'number') return Number.isFinite(value) && value >= 0 ? roundMoney(value) : null;
+
+  let cleaned = value.replace(/[^\d.,]/g, '');
+  if (/^\d+,\d{1,2}$/.test(cleaned)) {
+    cleaned = cleaned.replace(',', '.');
+  } else {
+    cleaned = cleaned.replace(/,/g, '');
+  }
+
+  const amount = parseFloat(cleaned);
+  return Number.isFinite(amount) && amount >= 0 ? roundMoney(amount) : null;
+};
+
+/**
+ * Fills in whichever of unit and total price is missing. The total is what was
+ * paid for the whole purchase; the unit price is what each remaining unit is worth.
+ */
+export const resolvePrices = (
+  quantity: number,
+  unitPrice?: number | null,
+  totalPrice?: number | null,
+): { unit_price: number | null; total_price: number | null } => {
+  const units = Math.max(quantity, 1);
+  if (unitPrice != null) {
+    return { unit_price: roundMoney(unitPrice), total_price: roundMoney(totalPrice ?? unitPrice * units) };
+  }
+  if (totalPrice != null) {
+    return { unit_price: roundMoney(totalPrice / units), total_price: roundMoney(totalPrice) };
+  }
+  return { unit_price: null, total_price: null };
+};
@@ -1,3 +1,9 @@
+import { format, subDays } from 'date-fns';
+import { supabase } from '@/integrations/supabase/client';
+import { DueReminder, getDueReminders, ReminderItem } from '@shared/reminders.ts';
+import { toPreferencesRow, UserPreferences } from '@/utils/preferences';
+import { ParShortfall } from '@/utils/parLevels';
+
 export const requestNotificationPermission = async (): Promise<boolean> => {
   if (!('Notification' in window)) {
     console.log('This browser does not support notifications');
@@ -26,22 +32,97 @@ export const showNotification = (title: string, body: string) => {
   }
 };
 
-export const checkExpiringItems = (items: Array<{ name: string; expiry_date: string }>) => {
-  const today = new Date();
-  today.setHours(0, 0, 0, 0);
-  
-  const expiringSoon = items.filter(item => {
-    const expiryDate = new Date(item.expiry_date);
-    expiryDate.setHours(0, 0, 0, 0);
-    const daysUntilExpiry = Math.floor((expiryDate.getTime() - today.getTime()) / (1000 * 60 * 60 * 24));
-    return daysUntilExpiry >= 0 && daysUntilExpiry <= 2;
-  });
-
-  if (expiringSoon.length > 0) {
-    const itemNames = expiringSoon.map(item => item.name).join(', ');
-    showNotification(
-      'Food Items Expiring Soon!',
-      `These items are expiring soon: ${itemNames}`
-    );
-  }
+// How far back shown reminder keys are loaded for de-duplication, as in the scheduled job
+const SENT_REMINDER_LOOKBACK_DAYS = 30;
+const IN_APP_CHANNEL = 'in_app';
+
+/**
+ * One notification a day listing products below their par level, for par
+ * levels with restock notifications turned on. Pure, like getDueReminders.
+ */
+export const getDueRestockReminder = (
+  shortfalls: ParShortfall[],
+  preferences: UserPreferences,
+  sentKeys: Set<string>,
+  now: Date = new Date(),
+): DueReminder | null => {
+  if (!preferences.notificationsEnabled) return null;
+
+  const day = format(now, 'yyyy-MM-dd');
+  const due = shortfalls.filter(entry => entry.par.notify && entry.shortfall > 0 && !sentKeys.has(`restock:${entry.par.id}:${day}`));
+  if (due.length === 0) return null;
+
+  return {
+    title: due.length === 1 ? `Running low on ${due[0].par.name}` : 'Time to restock',
+    body: due
+      .map(entry => `${entry.par.name}: ${entry.inStock} of ${entry.par.quantity}`)
+      .join('\n'),
+    tag: 'restock',
+    keys: due.map(entry => `restock:${entry.par.id}:${day}`),
+  };
+};
+
+// Reminders already shown on any of the user's devices
+const loadSentKeys = async (userId: string, now: Date): Promise<Set<string>> => {
+  const { data, error } = await supabase
+    .from('sent_reminders')
+    .select('reminder_key')
+    .eq('user_id', userId)
+    .eq('channel', IN_APP_CHANNEL)
+    .gte('sent_at', subDays(now, SENT_REMINDER_LOOKBACK_DAYS).toISOString());
+  if (error) throw error;
+  return new Set((data || []).map(row => row.reminder_key));
+};
+
+/**
+ * Records reminders as shown and returns the ones this device got to first.
+ * Devices checking at the same moment race on the primary key, so only one
+ * of them shows each reminder.
+ */
+const claimReminders = async (userId: string, reminders: DueReminder[]): Promise<DueReminder[]> => {
+  const { data, error } = await supabase
+    .from('sent_reminders')
+    .upsert(
+      reminders.flatMap(reminder => reminder.keys.map(reminder_key => ({ user_id: userId, reminder_key, channel: IN_APP_CHANNEL }))),
+      { onConflict: 'user_id,reminder_key,channel', ignoreDuplicates: true },
+    )
+    .select('reminder_key');
+  if (error) throw error;
+  const claimed = new Set((data || []).map(row => row.reminder_key));
+  return reminders.filter(reminder => reminder.keys.some(key => claimed.has(key)));
+};
+
+const showOnce = async (userId: string, reminders: DueReminder[]) => {
+  if (reminders.length === 0) return;
+  (await claimReminders(userId, reminders)).forEach(reminder => showNotification(reminder.title, reminder.body));
+};
+
+/**
+ * Shows any reminders that are due according to the user's preferences, by the
+ * same rules as the scheduled job. Shown reminders are recorded for the user,
+ * not the device, so reloads and the user's other devices don't repeat them.
+ */
+export const checkExpiringItems = async (
+  userId: string,
+  items: ReminderItem[],
+  preferences: UserPreferences,
+  now: Date = new Date(),
+) => {
+  if (!('Notification' in window) || Notification.permission !== 'granted') return;
+
+  const sentKeys = await loadSentKeys(userId, now);
+  await showOnce(userId, getDueReminders(items, toPreferencesRow(userId, preferences), sentKeys, now));
+};
+
+// Shows the restock notification when one is due, recorded like expiry reminders
+export const checkRestockLevels = async (
+  userId: string,
+  shortfalls: ParShortfall[],
+  preferences: UserPreferences,
+  now: Date = new Date(),
+) => {
+  if (!('Notification' in window) || Notification.permission !== 'granted') return;
+
+  const reminder = getDueRestockReminder(shortfalls, preferences, await loadSentKeys(userId, now), now);
+  if (reminder) await showOnce(userId, [reminder]);
 };
@@ -0,0 +1,26 @@
+// Receipt OCR languages. Worker, core and trained data are served locally
+// (see vite.config.ts), so scanning never depends on a CDN.
+export type OcrLanguage = 'eng' | 'hin' | 'mixed';
+
+export const OCR_LANGUAGES: Record<OcrLanguage, { label: string; tesseract: string }> = {
+  eng: { label: 'English', tesseract: 'eng' },
+  hin: { label: 'Hindi', tesseract: 'hin' },
+  mixed: { label: 'English + Hindi', tesseract: 'eng+hin' },
+};
+
+export const OCR_WORKER_OPTIONS = {
+  workerPath: '/tesseract/worker.min.js',
+  corePath: '/tesseract/core',
+  langPath: '/tesseract/lang',
+};
+
+const OCR_LANGUAGE_KEY = 'receipt_ocr_language';
+
+export const loadOcrLanguage = (): OcrLanguage => {
+  const saved = localStorage.getItem(OCR_LANGUAGE_KEY);
+  return saved && saved in OCR_LANGUAGES ? (saved as OcrLanguage) : 'eng';
+};
+
+export const saveOcrLanguage = (language: OcrLanguage) => {
+  localStorage.setItem(OCR_LANGUAGE_KEY, language);
+};
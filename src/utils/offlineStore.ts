@@ -0,0 +1,172 @@
+// IndexedDB-backed local copy of the inventory plus a queue of pending writes.
+// One database per user so a shared device never mixes accounts.
+import type { Database, Tables, TablesInsert, TablesUpdate } from '@/integrations/supabase/types';
+
+export type CachedFoodItem = Tables<'food_items'>;
+export type CachedConsumptionEvent = Tables<'consumption_events'>;
+export type CachedWasteEvent = Tables<'waste_events'>;
+export type CachedFreezeEvent = Tables<'freeze_events'>;
+
+// 'rpc' calls the database function `fn` with `args`
+export type MutationType = 'insert' | 'update' | 'delete' | 'rpc';
+
+type PublicTables = Database['public']['Tables'];
+
+// Queued writes address rows by their uuid `id`, so only tables keyed that way qualify
+export type QueuedTable = {
+  [T in keyof PublicTables]: PublicTables[T]['Row'] extends { id: string } ? T : never;
+}[keyof PublicTables];
+
+interface QueuedMutationBase {
+  id?: number;
+  recordId: string;
+  // When the change was made locally; compared with the server's updated_at on replay
+  queuedAt: string;
+}
+
+export type TableMutation = QueuedMutationBase & { table: QueuedTable } & (
+  | { type: 'insert'; payload: TablesInsert<QueuedTable> }
+  | { type: 'update'; payload: TablesUpdate<QueuedTable> }
+  | { type: 'delete'; payload: Record<string, never> }
+);
+
+type PublicFunctions = Database['public']['Functions'];
+export type QueuedFunction = keyof PublicFunctions;
+
+export type RpcMutation = QueuedMutationBase & {
+  type: 'rpc';
+  // The table whose `recordId` row the function modifies
+  recordTable: QueuedTable;
+} & { [F in QueuedFunction]: { fn: F; args: PublicFunctions[F]['Args'] } }[QueuedFunction];
+
+export type QueuedMutation = TableMutation | RpcMutation;
+
+const DB_VERSION = 1;
+const ITEMS_STORE = 'food_items';
+const MUTATIONS_STORE = 'mutations';
+const CONSUMPTION_STORE = 'consumption_events';
+const WASTE_STORE = 'waste_events';
+const FREEZE_STORE = 'freeze_events';
+
+const openDatabases = new Map<string, Promise<IDBDatabase>>();
+
+const openDatabase = (userId: string): Promise<IDBDatabase> => {
+  const name = `expiry-tracker-${userId}`;
+  const existing = openDatabases.get(name);
+  if (existing) return existing;
+
+  const opening = new Promise<IDBDatabase>((resolve, reject) => {
+    const request = indexedDB.open(name, DB_VERSION);
+    request.onupgradeneeded = () => {
+      const db = request.result;
+      if (!db.objectStoreNames.contains(ITEMS_STORE)) {
+        db.createObjectStore(ITEMS_STORE, { keyPath: 'id' });
+      }
+      if (!db.objectStoreNames.contains(MUTATIONS_STORE)) {
+        db.createObjectStore(MUTATIONS_STORE, { keyPath: 'id', autoIncrement: true });
+      }
+      if (!db.objectStoreNames.contains(CONSUMPTION_STORE)) {
+        db.createObjectStore(CONSUMPTION_STORE, { keyPath: 'id' });
+      }
+      if (!db.objectStoreNames.contains(WASTE_STORE)) {
+        db.createObjectStore(WASTE_STORE, { keyPath: 'id' });
+      }
+      if (!db.objectStoreNames.contains(FREEZE_STORE)) {
+        db.createObjectStore(FREEZE_STORE, { keyPath: 'id' });
+      }
+    };
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+  openDatabases.set(name, opening);
+  return opening;
+};
+
+const runTransaction = async <T>(
+  userId: string,
+  storeName: string,
+  mode: IDBTransactionMode,
+  work: (store: IDBObjectStore) => IDBRequest<T> | void,
+): Promise<T | undefined> => {
+  const db = await openDatabase(userId);
+  return new Promise((resolve, reject) => {
+    const tx = db.transaction(storeName, mode);
+    const request = work(tx.objectStore(storeName));
+    tx.oncomplete = () => resolve(request ? request.result : undefined);
+    tx.onerror = () => reject(tx.error);
+    tx.onabort = () => reject(tx.error);
+  });
+};
+
+export const isIndexedDBAvailable = () => typeof indexedDB !== 'undefined';
+
+export const getCachedItems = async (userId: string): Promise<CachedFoodItem[]> =>
+  (await runTransaction<CachedFoodItem[]>(userId, ITEMS_STORE, 'readonly', store => store.getAll())) || [];
+
+// Replaces the whole local copy with a fresh server snapshot
+export const replaceCachedItems = (userId: string, items: CachedFoodItem[]) =>
+  runTransaction(userId, ITEMS_STORE, 'readwrite', store => {
+    store.clear();
+    items.forEach(item => store.put(item));
+  });
+
+export const putCachedItems = (userId: string, items: CachedFoodItem[]) =>
+  runTransaction(userId, ITEMS_STORE, 'readwrite', store => {
+    items.forEach(item => store.put(item));
+  });
+
+export const removeCachedItem = (userId: string, id: string) =>
+  runTransaction(userId, ITEMS_STORE, 'readwrite', store => store.delete(id));
+
+export const getCachedConsumptionEvents = async (userId: string): Promise<CachedConsumptionEvent[]> =>
+  (await runTransaction<CachedConsumptionEvent[]>(userId, CONSUMPTION_STORE, 'readonly', store => store.getAll())) || [];
+
+export const replaceCachedConsumptionEvents = (userId: string, events: CachedConsumptionEvent[]) =>
+  runTransaction(userId, CONSUMPTION_STORE, 'readwrite', store => {
+    store.clear();
+    events.forEach(event => store.put(event));
+  });
+
+export const putCachedConsumptionEvents = (userId: string, events: CachedConsumptionEvent[]) =>
+  runTransaction(userId, CONSUMPTION_STORE, 'readwrite', store => {
+    events.forEach(event => store.put(event));
+  });
+
+export const getCachedWasteEvents = async (userId: string): Promise<CachedWasteEvent[]> =>
+  (await runTransaction<CachedWasteEvent[]>(userId, WASTE_STORE, 'readonly', store => store.getAll())) || [];
+
+export const replaceCachedWasteEvents = (userId: string, events: CachedWasteEvent[]) =>
+  runTransaction(userId, WASTE_STORE, 'readwrite', store => {
+    store.clear();
+    events.forEach(event => store.put(event));
+  });
+
+export const putCachedWasteEvents = (userId: string, events: CachedWasteEvent[]) =>
+  runTransaction(userId, WASTE_STORE, 'readwrite', store => {
+    events.forEach(event => store.put(event));
+  });
+
+export const getCachedFreezeEvents = async (userId: string): Promise<CachedFreezeEvent[]> =>
+  (await runTransaction<CachedFreezeEvent[]>(userId, FREEZE_STORE, 'readonly', store => store.getAll())) || [];
+
+export const replaceCachedFreezeEvents = (userId: string, events: CachedFreezeEvent[]) =>
+  runTransaction(userId, FREEZE_STORE, 'readwrite', store => {
+    store.clear();
+    events.forEach(event => store.put(event));
+  });
+
+export const putCachedFreezeEvents = (userId: string, events: CachedFreezeEvent[]) =>
+  runTransaction(userId, FREEZE_STORE, 'readwrite', store => {
+    events.forEach(event => store.put(event));
+  });
+
+export const enqueueMutation = (userId: string, mutation: QueuedMutation) =>
+  runTransaction(userId, MUTATIONS_STORE, 'readwrite', store => store.add(mutation));
+
+// Oldest first, so replay preserves the order changes were made in
+export const getQueuedMutations = async (userId: string): Promise<QueuedMutation[]> =>
+  (await runTransaction<QueuedMutation[]>(userId, MUTATIONS_STORE, 'readonly', store => store.getAll())) || [];
+
+export const removeMutation = (userId: string, id: number) =>
+  runTransaction(userId, MUTATIONS_STORE, 'readwrite', store => store.delete(id));
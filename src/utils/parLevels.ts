@@ -0,0 +1,65 @@
+// Par levels: how much of a product to always keep, and how far stock has fallen below
+import { CONFIDENT_MATCH, keywordConfidence } from '@/utils/expiryRules';
+
+export interface ParLevel {
+  id: string;
+  name: string;
+  // A count, compared with item quantities as they are
+  quantity: number;
+  notify: boolean;
+}
+
+interface StockItem {
+  id: string;
+  name: string;
+  quantity: number | null;
+  is_consumed: boolean | null;
+  kind?: string;
+}
+
+export interface ParShortfall<P extends ParLevel = ParLevel> {
+  par: P;
+  // Non-consumed quantity of the items that count towards it
+  inStock: number;
+  // How much to buy to get back to par; 0 when stocked
+  shortfall: number;
+  itemIds: string[];
+}
+
+const confidence = (itemName: string, par: ParLevel) => keywordConfidence(itemName, [par.name]);
+
+// Whether an item name counts towards a par level, matched like an expiry rule keyword
+export const matchesParLevel = (itemName: string, par: ParLevel) => confidence(itemName, par) >= CONFIDENT_MATCH;
+
+/**
+ * The par level an item counts towards. When several match, the longest name
+ * wins, so "Cottage Cheese 200g" counts for "cottage cheese" and not "cheese".
+ */
+export const findParLevel = <P extends ParLevel>(itemName: string, parLevels: P[]): P | null =>
+  parLevels
+    .filter(par => matchesParLevel(itemName, par))
+    .sort((a, b) => b.name.trim().length - a.name.trim().length)[0] ?? null;
+
+/**
+ * Stock against every par level, counting non-consumed groceries only. Each
+ * item counts towards one par level at most.
+ */
+export const parShortfalls = <P extends ParLevel>(parLevels: P[], items: StockItem[]): ParShortfall<P>[] => {
+  const byPar = new Map<string, ParShortfall<P>>(
+    parLevels.map(par => [par.id, { par, inStock: 0, shortfall: 0, itemIds: [] }]),
+  );
+
+  items.forEach(item => {
+    if (item.is_consumed || item.kind === 'leftover') return;
+    const par = findParLevel(item.name, parLevels);
+    if (!par) return;
+    const entry = byPar.get(par.id)!;
+    entry.inStock += item.quantity || 0;
+    entry.itemIds.push(item.id);
+  });
+
+  return Array.from(byPar.values()).map(entry => ({
+    ...entry,
+    shortfall: Math.max(entry.par.quantity - entry.inStock, 0),
+  }));
+};
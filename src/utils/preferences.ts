@@ -0,0 +1,133 @@
+// User reminder preferences, persisted in Supabase so they follow the user across devices
+import { supabase } from '@/integrations/supabase/client';
+import type { Tables } from '@/integrations/supabase/types';
+
+export interface ReminderSettings {
+  enableDailyDigest: boolean;
+  digestTime: string;
+  reminder1Day: boolean;
+  reminder3Days: boolean;
+  reminder7Days: boolean;
+  enableCategoryReminders: boolean;
+  categories: string[];
+}
+
+export interface UserPreferences {
+  notificationsEnabled: boolean;
+  emailDigestEnabled: boolean;
+  reminderSettings: ReminderSettings;
+  // IANA zone the digest time is interpreted in by the scheduled reminder job
+  timezone: string;
+}
+
+export const getBrowserTimezone = () => Intl.DateTimeFormat().resolvedOptions().timeZone || 'UTC';
+
+export const DEFAULT_REMINDER_SETTINGS: ReminderSettings = {
+  enableDailyDigest: true,
+  digestTime: '09:00',
+  reminder1Day: true,
+  reminder3Days: true,
+  reminder7Days: false,
+  enableCategoryReminders: true,
+  categories: ['Dairy', 'Vegetables', 'Fruits', 'Meat'],
+};
+
+export const DEFAULT_USER_PREFERENCES: UserPreferences = {
+  notificationsEnabled: false,
+  emailDigestEnabled: false,
+  reminderSettings: DEFAULT_REMINDER_SETTINGS,
+  timezone: getBrowserTimezone(),
+};
+
+// Keys used before preferences were stored server-side
+const legacyReminderKey = (userId: string) => `reminder_settings_${userId}`;
+const legacyNotificationsKey = (userId: string) => `notifications_enabled_${userId}`;
+
+const fromRow = (row: Tables<'user_preferences'>): UserPreferences => ({
+  notificationsEnabled: row.notifications_enabled,
+  emailDigestEnabled: row.email_digest_enabled,
+  reminderSettings: {
+    enableDailyDigest: row.enable_daily_digest,
+    digestTime: row.digest_time,
+    reminder1Day: row.reminder_1_day,
+    reminder3Days: row.reminder_3_days,
+    reminder7Days: row.reminder_7_days,
+    enableCategoryReminders: row.enable_category_reminders,
+    categories: row.categories,
+  },
+  timezone: row.timezone,
+});
+
+// Row shape the scheduled jobs read; the in-app reminders evaluate the same one
+export const toPreferencesRow = (
+  userId: string,
+  preferences: UserPreferences,
+): Omit<Tables<'user_preferences'>, 'created_at' | 'updated_at'> => ({
+  user_id: userId,
+  notifications_enabled: preferences.notificationsEnabled,
+  email_digest_enabled: preferences.emailDigestEnabled,
+  enable_daily_digest: preferences.reminderSettings.enableDailyDigest,
+  digest_time: preferences.reminderSettings.digestTime,
+  reminder_1_day: preferences.reminderSettings.reminder1Day,
+  reminder_3_days: preferences.reminderSettings.reminder3Days,
+  reminder_7_days: preferences.reminderSettings.reminder7Days,
+  enable_category_reminders: preferences.reminderSettings.enableCategoryReminders,
+  categories: preferences.reminderSettings.categories,
+  timezone: preferences.timezone,
+});
+
+const readLegacyPreferences = (userId: string): UserPreferences | null => {
+  const savedReminders = localStorage.getItem(legacyReminderKey(userId));
+  const savedNotifications = localStorage.getItem(legacyNotificationsKey(userId));
+  if (savedReminders === null && savedNotifications === null) return null;
+
+  let reminderSettings = DEFAULT_REMINDER_SETTINGS;
+  if (savedReminders) {
+    try {
+      reminderSettings = { ...DEFAULT_REMINDER_SETTINGS, ...JSON.parse(savedReminders) };
+    } catch {
+      // Corrupt value - fall back to defaults
+    }
+  }
+
+  return {
+    notificationsEnabled: savedNotifications === 'true',
+    emailDigestEnabled: false,
+    reminderSettings,
+    timezone: getBrowserTimezone(),
+  };
+};
+
+const clearLegacyPreferences = (userId: string) => {
+  localStorage.removeItem(legacyReminderKey(userId));
+  localStorage.removeItem(legacyNotificationsKey(userId));
+};
+
+export const saveUserPreferences = async (userId: string, preferences: UserPreferences): Promise<void> => {
+  const { error } = await supabase
+    .from('user_preferences')
+    .upsert(toPreferencesRow(userId, preferences), { onConflict: 'user_id' });
+  if (error) throw error;
+};
+
+/**
+ * Loads the user's preferences. On the first load after upgrading, values
+ * previously kept in localStorage are copied to Supabase and then removed.
+ */
+export const loadUserPreferences = async (userId: string): Promise<UserPreferences> => {
+  const { data, error } = await supabase
+    .from('user_preferences')
+    .select('*')
+    .eq('user_id', userId)
+    .maybeSingle();
+  if (error) throw error;
+
+  if (data) return fromRow(data);
+
+  const legacy = readLegacyPreferences(userId);
+  if (!legacy) return DEFAULT_USER_PREFERENCES;
+
+  await saveUserPreferences(userId, legacy);
+  clearLegacyPreferences(userId);
+  return legacy;
+};
@@ -0,0 +1,90 @@
+// Web Push subscription management for background reminders
+import { supabase } from '@/integrations/supabase/client';
+
+const VAPID_PUBLIC_KEY = import.meta.env.VITE_VAPID_PUBLIC_KEY as string | undefined;
+
+export const isPushSupported = (): boolean =>
+  'serviceWorker' in navigator && 'PushManager' in window && !!VAPID_PUBLIC_KEY;
+
+export const registerServiceWorker = async (): Promise<ServiceWorkerRegistration | null> => {
+  if (!('serviceWorker' in navigator)) return null;
+
+  try {
+    return await navigator.serviceWorker.register('/sw.js');
+  } catch (error) {
+    console.error('Service worker registration failed:', error);
+    return null;
+  }
+};
+
+// VAPID keys are distributed as URL-safe base64
+const urlBase64ToUint8Array = (base64String: string): Uint8Array => {
+  const padding = '='.repeat((4 - (base64String.length % 4)) % 4);
+  const base64 = (base64String + padding).replace(/-/g, '+').replace(/_/g, '/');
+  const raw = atob(base64);
+  return Uint8Array.from(raw, char => char.charCodeAt(0));
+};
+
+export const getPushSubscription = async (): Promise<PushSubscription | null> => {
+  if (!isPushSupported()) return null;
+  const registration = await navigator.serviceWorker.getRegistration();
+  return registration ? registration.pushManager.getSubscription() : null;
+};
+
+// Whether any of the user's devices gets reminders from the scheduled job
+export const hasPushSubscriptions = async (userId: string): Promise<boolean> => {
+  const { count, error } = await supabase
+    .from('push_subscriptions')
+    .select('id', { count: 'exact', head: true })
+    .eq('user_id', userId);
+  if (error) throw error;
+  return (count ?? 0) > 0;
+};
+
+/**
+ * Subscribes this browser to Web Push and stores the subscription so the
+ * scheduled reminder job can reach it while the app is closed.
+ */
+export const subscribeToPush = async (): Promise<PushSubscription> => {
+  if (!isPushSupported()) {
+    throw new Error('Background notifications are not supported in this browser');
+  }
+
+  const permission = await Notification.requestPermission();
+  if (permission !== 'granted') {
+    throw new Error('Notification permission was not granted');
+  }
+
+  await registerServiceWorker();
+  const registration = await navigator.serviceWorker.ready;
+  const subscription =
+    (await registration.pushManager.getSubscription()) ||
+    (await registration.pushManager.subscribe({
+      userVisibleOnly: true,
+      applicationServerKey: urlBase64ToUint8Array(VAPID_PUBLIC_KEY!),
+    }));
+
+  const { endpoint, keys } = subscription.toJSON();
+  const { error } = await supabase.rpc('save_push_subscription', {
+    _endpoint: endpoint!,
+    _p256dh: keys!.p256dh,
+    _auth: keys!.auth,
+    _user_agent: navigator.userAgent,
+  });
+  if (error) throw error;
+
+  return subscription;
+};
+
+export const unsubscribeFromPush = async (): Promise<void> => {
+  const subscription = await getPushSubscription();
+  if (!subscription) return;
+
+  const { error } = await supabase
+    .from('push_subscriptions')
+    .delete()
+    .eq('endpoint', subscription.endpoint);
+  if (error) throw error;
+
+  await subscription.unsubscribe();
+};
@@ -0,0 +1,90 @@
+import { describe, expect, it } from 'vitest';
+import { parseReceipt, parseReceiptDate, parseReceiptLine } from '@/utils/receiptParser';
+import supermarket from '@/utils/__fixtures__/receipts/supermarket.txt?raw';
+import kirana from '@/utils/__fixtures__/receipts/kirana.txt?raw';
+import footerDate from '@/utils/__fixtures__/receipts/footer-date.txt?raw';
+
+const line = (text: string) => parseReceiptLine({ lineIndex: 0, text });
+
+// name, quantity, unit, unit price, line total
+const summarize = (text: string) =>
+  parseReceipt(text).items.map(item => [item.name, item.quantity, item.unit, item.unitPrice, item.lineTotal]);
+
+describe('parseReceipt', () => {
+  it('reads a supermarket bill with qty/rate columns, weighed goods and "@" lines', () => {
+    const receipt = parseReceipt(supermarket);
+
+    expect(receipt.storeName).toBe('Fresh Mart Supermarket');
+    expect(receipt.date).toEqual(new Date(2025, 11, 14));
+    expect(receipt.total).toBe(331);
+    expect(receipt.unmatchedLines).toEqual([]);
+    expect(summarize(supermarket)).toEqual([
+      ['Amul Taaza Milk 500ml', 2, 'pcs', 28, 56],
+      ['Britannia Bread', 1, 'pcs', 45, 45],
+      ['Tomato', 1.25, 'kg', 40, 50],
+      ['Paneer 200g', 2, 'pcs', 90, 180],
+    ]);
+  });
+
+  it('reads a handwritten-style bill with amounts written before the price', () => {
+    const receipt = parseReceipt(kirana);
+
+    expect(receipt.storeName).toBe('Sharma General Store');
+    expect(receipt.date).toEqual(new Date(2025, 11, 14));
+    expect(receipt.total).toBe(529);
+    expect(summarize(kirana)).toEqual([
+      ['Onion', 2, 'kg', 30, 60],
+      ['Potato', 1.5, 'kg', 30, 45],
+      ['Eggs', 12, 'pcs', 7, 84],
+      ['Atta', 5, 'kg', 50, 250],
+      ['Paneer 200 g', 1, 'pcs', 90, 90],
+    ]);
+  });
+
+  it('takes the date from the footer when the header has none', () => {
+    const receipt = parseReceipt(footerDate);
+
+    expect(receipt.storeName).toBe('Green Basket');
+    expect(receipt.date).toEqual(new Date(2025, 11, 20));
+    expect(receipt.total).toBe(120);
+    expect(summarize(footerDate)).toEqual([
+      ['Bananas', 6, 'pcs', 5, 30],
+      ['Curd', 2, 'pcs', 35, 70],
+      ['Spinach', 1, 'pcs', 20, 20],
+    ]);
+  });
+});
+
+describe('parseReceiptLine', () => {
+  it('pulls an inline quantity and unit out of the name', () => {
+    expect(line('Onion 2 kg 60.00')).toMatchObject({ name: 'Onion', quantity: 2, unit: 'kg', unitPrice: 30, lineTotal: 60 });
+    expect(line('Milk 1 L 28.00')).toMatchObject({ name: 'Milk', quantity: 1, unit: 'L', lineTotal: 28 });
+  });
+
+  it('keeps pack sizes in the name', () => {
+    expect(line('Paneer 200 g 90.00')).toMatchObject({ name: 'Paneer 200 g', quantity: 1 });
+    expect(line('Milk 1 L 2 28.00 56.00')).toMatchObject({ name: 'Milk 1 L', quantity: 2, unitPrice: 28 });
+  });
+
+  it('skips totals, taxes and column headers', () => {
+    expect(line('SUB TOTAL 331.00')).toBeNull();
+    expect(line('CGST 2.5% 8.00')).toBeNull();
+    expect(line('Item Qty Rate Amount')).toBeNull();
+  });
+});
+
+describe('parseReceiptDate', () => {
+  it('reads day-first, ISO and named-month dates', () => {
+    expect(parseReceiptDate('Date: 05/12/2025')).toEqual(new Date(2025, 11, 5));
+    expect(parseReceiptDate('2025-12-05 10:30')).toEqual(new Date(2025, 11, 5));
+    expect(parseReceiptDate('5 Dec 25')).toEqual(new Date(2025, 11, 5));
+  });
+
+  it('falls back to month-first when day-first is impossible', () => {
+    expect(parseReceiptDate('12/25/2025')).toEqual(new Date(2025, 11, 25));
+  });
+
+  it('rejects impossible dates', () => {
+    expect(parseReceiptDate('31/02/2025')).toBeNull();
+  });
+});
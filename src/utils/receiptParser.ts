@@ -0,0 +1,349 @@
+// Turns OCR'd receipt text into structured line items. Pure: no OCR, no
+// expiry rules, no network - just text in, receipt out.
+//
+// Handles the layouts common on supermarket and kirana bills, e.g.
+//
+//   FRESH MART SUPERMARKET
+//   Date: 14/12/2025  Bill No: 4521
+//   1. AMUL TAAZA MILK 500ML   2   28.00   56.00
+//   8901063010123 BRITANNIA BREAD       45.00
+//   TOMATO  1.250 kg x 40.00          50.00
+//   Paneer 200g 2 @ 90.00 = 180.00
+//   SUB TOTAL                         331.00
+//   GRAND TOTAL                   Rs. 331.00
+import { parsePrice } from '@/utils/money';
+
+export type ReceiptUnit = 'kg' | 'g' | 'L' | 'ml' | 'pcs';
+
+export interface ReceiptLineItem {
+  // Index of the line in the input, so callers can point back at the source
+  lineIndex: number;
+  raw: string;
+  name: string;
+  // Count for pieces, or the weight/volume for loose goods (e.g. 1.25 kg)
+  quantity: number;
+  unit: ReceiptUnit | null;
+  unitPrice: number | null;
+  lineTotal: number | null;
+}
+
+export interface ReceiptLine {
+  lineIndex: number;
+  text: string;
+}
+
+export interface ParsedReceipt {
+  storeName: string | null;
+  date: Date | null;
+  total: number | null;
+  items: ReceiptLineItem[];
+  // Lines that are neither header, totals nor recognisable items
+  unmatchedLines: ReceiptLine[];
+}
+
+const UNIT_ALIASES: Record<string, ReceiptUnit> = {
+  kg: 'kg', kgs: 'kg', kilo: 'kg',
+  g: 'g', gm: 'g', gms: 'g', gr: 'g', gram: 'g', grams: 'g',
+  l: 'L', lt: 'L', ltr: 'L', ltrs: 'L', litre: 'L', liter: 'L',
+  ml: 'ml',
+  pc: 'pcs', pcs: 'pcs', no: 'pcs', nos: 'pcs', ea: 'pcs', unit: 'pcs', units: 'pcs',
+};
+
+const UNIT_PATTERN = Object.keys(UNIT_ALIASES).sort((a, b) => b.length - a.length).join('|');
+
+const MONTHS = ['jan', 'feb', 'mar', 'apr', 'may', 'jun', 'jul', 'aug', 'sep', 'oct', 'nov', 'dec'];
+
+// Totals, in order of preference when a receipt prints several
+const TOTAL_PATTERNS = [
+  /\b(grand\s*total|net\s*(amount|total|payable)|amount\s*payable|total\s*payable|bill\s*amount)\b/i,
+  /\btotal(\s*amount)?\b/i,
+];
+
+const SUBTOTAL = /\bsub\s*-?\s*total\b/i;
+
+// Lines that carry bookkeeping rather than products
+const NOISE = new RegExp(
+  [
+    'sub\\s*-?\\s*total', 'tax', 'gst', 'cgst', 'sgst', 'igst', 'vat', 'cess', 'discount', 'savings?',
+    'you\\s+saved', 'change', 'cash', 'card', 'upi', 'paytm', 'tender', 'paid', 'balance', 'round(ed)?\\s*off',
+    'invoice', 'bill\\s*no', 'receipt\\s*no', 'cashier', 'counter', 'thank', 'visit', 'phone', 'ph', 'tel', 'mob',
+    'mobile', 'gstin', 'fssai', 'cin', 'www', 'com', 'items?\\s*:', 'qty\\s*:', 'no\\.?\\s*of\\s*items',
+  ].map(word => `\\b${word}(?![a-z])`).join('|'),
+  'i',
+);
+
+// Column header rows such as "Item  Qty  Rate  Amount"
+const COLUMN_HEADER = /\b(item|description|particulars)\b.*\b(qty|quantity|rate|price|amount|amt)\b/i;
+
+const CURRENCY_TOKEN = /^(rs\.?|inr|₹|\$|€|£)$/i;
+// Up to five digits, so PIN codes and phone numbers aren't read as prices
+const MONEY_TOKEN = /^(?:rs\.?|inr|₹|\$|€|£)?(\d{1,3}(?:,\d{3})+|\d{1,5})(?:[.,]\d{1,2})?$/i;
+const QUANTITY_TOKEN = new RegExp(`^(\\d+(?:\\.\\d+)?)\\s*(${UNIT_PATTERN})?$`, 'i');
+
+// "1.250 kg x 40.00", "2 @ 90.00", "3 pcs * 10" - but not pack sizes like "2X70G"
+const EXPLICIT_QUANTITY = new RegExp(
+  `(\\d+(?:\\.\\d+)?)\\s*(${UNIT_PATTERN})?(?:\\s*@\\s*|\\s+[x×*]\\s*|\\s*[x×*]\\s+)(?:rs\\.?|₹)?\\s*(\\d+(?:[.,]\\d{1,2})?)`,
+  'i',
+);
+
+// Counts above this are more likely an MRP or code than a quantity
+const MAX_COUNT = 99;
+
+const isClose = (a: number, b: number) => Math.abs(a - b) <= Math.max(0.05, b * 0.02);
+
+const normalizeUnit = (unit: string | undefined): ReceiptUnit | null =>
+  unit ? UNIT_ALIASES[unit.toLowerCase()] || null : null;
+
+const normalizeSpaces = (text: string) => text.replace(/\s+/g, ' ').trim();
+
+// Receipts print names in capitals; "AMUL TAAZA MILK" reads better as "Amul Taaza Milk"
+const tidyName = (name: string) => {
+  const cleaned = normalizeSpaces(
+    name
+      .replace(/\b\d{6,}\b/g, ' ') // barcodes, HSN codes
+      .replace(/[*#|_~=]+/g, ' ')
+      .replace(/^[\s.,:;-]+|[\s.,:;-]+$/g, ''),
+  );
+  if (cleaned !== cleaned.toUpperCase()) return cleaned;
+  return cleaned.toLowerCase().replace(/\b([a-z])/g, letter => letter.toUpperCase());
+};
+
+const hasEnoughLetters = (text: string) => (text.match(/\p{L}/gu) || []).length >= 2;
+
+const roundQuantity = (value: number) => {
+  const rounded = Math.round(value);
+  return Math.abs(value - rounded) < 0.01 ? rounded : Math.round(value * 1000) / 1000;
+};
+
+const readQuantity = (token: string) => {
+  const match = token.match(QUANTITY_TOKEN);
+  if (!match) return null;
+  const value = Number(match[1]);
+  if (!match[2] && (!Number.isInteger(value) || value > MAX_COUNT)) return null;
+  return { value, unit: normalizeUnit(match[2]) };
+};
+
+// "500ML" or "1L" is the size of a pack, part of the name; "1.250kg" is a weighed amount
+const isPackSize = (token: string) => {
+  const match = token.match(QUANTITY_TOKEN);
+  return !!match && !!match[2] && !match[1].includes('.') && normalizeUnit(match[2]) !== 'pcs';
+};
+
+/**
+ * Reads a receipt date. Numeric dates are taken as day-first (as printed in
+ * India) unless that is impossible, e.g. 12/25/2025.
+ */
+export const parseReceiptDate = (text: string): Date | null => {
+  const build = (year: number, month: number, day: number) => {
+    const fullYear = year < 100 ? 2000 + year : year;
+    const date = new Date(fullYear, month - 1, day);
+    const valid = date.getFullYear() === fullYear && date.getMonth() === month - 1 && date.getDate() === day;
+    return valid ? date : null;
+  };
+
+  const iso = text.match(/\b(\d{4})[-/.](\d{1,2})[-/.](\d{1,2})\b/);
+  if (iso) return build(Number(iso[1]), Number(iso[2]), Number(iso[3]));
+
+  const numeric = text.match(/\b(\d{1,2})[-/.](\d{1,2})[-/.](\d{2}|\d{4})\b/);
+  if (numeric) {
+    const [first, second, year] = [Number(numeric[1]), Number(numeric[2]), Number(numeric[3])];
+    return second > 12 ? build(year, first, second) : build(year, second, first);
+  }
+
+  const named = text.match(/\b(\d{1,2})[\s-]*([a-z]{3})[a-z]*[\s,-]*(\d{2}|\d{4})\b/i);
+  if (named) {
+    const month = MONTHS.indexOf(named[2].toLowerCase()) + 1;
+    if (month > 0) return build(Number(named[3]), month, Number(named[1]));
+  }
+
+  return null;
+};
+
+// The last amount printed on a line, e.g. the 331.00 in "GRAND TOTAL Rs. 331.00"
+const lastAmount = (text: string): number | null => {
+  const amounts = text.match(/\d{1,3}(?:,\d{3})+(?:\.\d{1,2})?|\d+[.,]\d{1,2}|\d+/g);
+  return amounts ? parsePrice(amounts[amounts.length - 1]) : null;
+};
+
+const findTotal = (lines: ReceiptLine[]): { total: number; lineIndex: number } | null => {
+  for (const pattern of TOTAL_PATTERNS) {
+    // Scan from the bottom: the final total comes after any subtotals
+    for (let i = lines.length - 1; i >= 0; i--) {
+      const { text, lineIndex } = lines[i];
+      if (!pattern.test(text) || SUBTOTAL.test(text)) continue;
+      const total = lastAmount(text);
+      if (total !== null) return { total, lineIndex };
+    }
+  }
+  return null;
+};
+
+const isStoreNameCandidate = (text: string) =>
+  hasEnoughLetters(text) &&
+  !NOISE.test(text) &&
+  !COLUMN_HEADER.test(text) &&
+  !parseReceiptDate(text) &&
+  !/\d{5,}/.test(text) &&
+  !/^(tax\s*)?(invoice|bill|receipt|cash\s*memo)$/i.test(text);
+
+const withItemDefaults = (
+  line: ReceiptLine,
+  name: string,
+  quantity: number,
+  unit: ReceiptUnit | null,
+  unitPrice: number | null,
+  lineTotal: number | null,
+): ReceiptLineItem | null => {
+  const tidy = tidyName(name);
+  if (!hasEnoughLetters(tidy)) return null;
+  return { lineIndex: line.lineIndex, raw: line.text, name: tidy, quantity, unit, unitPrice, lineTotal };
+};
+
+/**
+ * Splits one receipt line into name, quantity, unit and prices. Returns null
+ * for lines that don't look like a purchased item.
+ */
+export const parseReceiptLine = (line: ReceiptLine): ReceiptLineItem | null => {
+  const text = normalizeSpaces(line.text)
+    .replace(/^\d{1,3}[.)]\s+/, '') // serial number
+    .replace(/^\d{6,}\s+/, '') // leading barcode / SKU
+    .replace(/\s+[A-Z*#]$/, ''); // trailing tax code
+  if (!text || NOISE.test(text) || COLUMN_HEADER.test(text)) return null;
+
+  const explicit = text.match(EXPLICIT_QUANTITY);
+  if (explicit && explicit.index !== undefined && explicit.index > 0) {
+    const quantity = Number(explicit[1]);
+    const unitPrice = parsePrice(explicit[3]);
+    const after = text.slice(explicit.index + explicit[0].length);
+    const lineTotal = /\d/.test(after) ? lastAmount(after) : unitPrice !== null ? unitPrice * quantity : null;
+    return withItemDefaults(
+      line,
+      text.slice(0, explicit.index),
+      quantity,
+      normalizeUnit(explicit[2]) || 'pcs',
+      unitPrice,
+      lineTotal !== null ? Math.round(lineTotal * 100) / 100 : null,
+    );
+  }
+
+  // Otherwise read price columns from the right: [qty] [rate] amount
+  const tokens = text.split(' ');
+  const numbers: string[] = [];
+  while (tokens.length > 1 && numbers.length < 4) {
+    const token = tokens[tokens.length - 1];
+    if (CURRENCY_TOKEN.test(token)) {
+      tokens.pop();
+    } else if (!isPackSize(token) && (MONEY_TOKEN.test(token) || readQuantity(token))) {
+      numbers.unshift(tokens.pop()!);
+    } else {
+      break;
+    }
+  }
+  if (numbers.length === 0 || !MONEY_TOKEN.test(numbers[numbers.length - 1])) return null;
+
+  // Units may be split from their number: "1.250 kg 50.00", "12 pcs 84.00". With
+  // only a price after it, "Onion 2 kg 60.00" is the amount bought too, but
+  // "Paneer 200 g 90.00" and "Milk 1 L 2 28.00 56.00" are pack sizes.
+  let name = tokens.join(' ');
+  let unit: ReceiptUnit | null = null;
+  const unitOnly = name.match(new RegExp(`\\s(\\d+(?:\\.\\d+)?)\\s+(${UNIT_PATTERN})$`, 'i'));
+  const splitUnit = unitOnly && normalizeUnit(unitOnly[2]);
+  if (
+    unitOnly &&
+    (unitOnly[1].includes('.') || splitUnit === 'pcs' || (numbers.length === 1 && (splitUnit === 'kg' || splitUnit === 'L')))
+  ) {
+    numbers.unshift(`${unitOnly[1]}${unitOnly[2]}`);
+    name = name.slice(0, unitOnly.index);
+  }
+
+  const lineTotal = parsePrice(numbers[numbers.length - 1]);
+  const columns = numbers.slice(0, -1);
+  let quantity = 1;
+  let unitPrice: number | null = lineTotal;
+
+  if (columns.length >= 2) {
+    // qty rate amount, with anything further left (usually MRP) ignored
+    const [qtyToken, rateToken] = columns.slice(-2);
+    const qty = readQuantity(qtyToken);
+    const rate = parsePrice(rateToken);
+    const swapped = readQuantity(rateToken);
+    if (qty && rate !== null && lineTotal !== null && isClose(qty.value * rate, lineTotal)) {
+      quantity = qty.value;
+      unit = qty.unit;
+      unitPrice = rate;
+    } else if (swapped && lineTotal !== null && parsePrice(qtyToken) !== null && isClose(swapped.value * parsePrice(qtyToken)!, lineTotal)) {
+      // rate qty amount
+      quantity = swapped.value;
+      unit = swapped.unit;
+      unitPrice = parsePrice(qtyToken);
+    } else if (qty) {
+      quantity = qty.value;
+      unit = qty.unit;
+      unitPrice = rate;
+    }
+  } else if (columns.length === 1) {
+    const qty = readQuantity(columns[0]);
+    const rate = parsePrice(columns[0]);
+    if (qty && !/[.,]\d{2}$/.test(columns[0])) {
+      // qty amount
+      quantity = qty.value;
+      unit = qty.unit;
+      unitPrice = lineTotal !== null && quantity > 0 ? Math.round((lineTotal / quantity) * 100) / 100 : null;
+    } else if (rate !== null && lineTotal !== null && rate > 0) {
+      // rate amount: the quantity is implied
+      quantity = roundQuantity(lineTotal / rate);
+      unitPrice = rate;
+    }
+  }
+
+  if (quantity <= 0) return null;
+  return withItemDefaults(line, name, quantity, unit || (Number.isInteger(quantity) ? 'pcs' : null), unitPrice, lineTotal);
+};
+
+/**
+ * Parses receipt lines (e.g. the lines Tesseract returns) into header details
+ * and items. Everything above the first item is treated as header; everything
+ * from the final total down is footer.
+ */
+export const parseReceiptLines = (rawLines: string[]): ParsedReceipt => {
+  const lines: ReceiptLine[] = rawLines
+    .map((text, lineIndex) => ({ lineIndex, text: normalizeSpaces(text) }))
+    .filter(line => line.text.length > 0);
+
+  const totalLine = findTotal(lines);
+  const receipt: ParsedReceipt = {
+    storeName: null,
+    date: null,
+    total: totalLine?.total ?? null,
+    items: [],
+    unmatchedLines: [],
+  };
+
+  for (const line of lines) {
+    const date = parseReceiptDate(line.text);
+    if (!receipt.date) receipt.date = date;
+    if (totalLine && line.lineIndex >= totalLine.lineIndex) break;
+
+    const item = parseReceiptLine(line);
+    if (item) {
+      receipt.items.push(item);
+      continue;
+    }
+
+    if (receipt.items.length === 0) {
+      // Header: store name first, then address and the like
+      if (!receipt.storeName && isStoreNameCandidate(line.text)) receipt.storeName = tidyName(line.text);
+    } else if (!date && hasEnoughLetters(line.text) && !NOISE.test(line.text) && !COLUMN_HEADER.test(line.text)) {
+      receipt.unmatchedLines.push(line);
+    }
+  }
+
+  // Footer lines can still carry the date
+  if (!receipt.date && totalLine) {
+    receipt.date = lines.map(line => parseReceiptDate(line.text)).find(Boolean) || null;
+  }
+
+  return receipt;
+};
+
+export const parseReceipt = (text: string): ParsedReceipt => parseReceiptLines(text.split(/\r?\n/));
@@ -0,0 +1,76 @@
+import { describe, expect, it } from 'vitest';
+import { rankRecipes, Recipe, RecipeIngredient } from '@/utils/recipes';
+
+// Evening, so whole-day differences would come out a day short
+const TODAY = new Date(2025, 5, 10, 18, 30);
+
+const ingredient = (name: string, category: string, optional = false): RecipeIngredient =>
+  ({ name, keywords: [name.toLowerCase()], category, optional });
+
+const recipe = (id: string, minutes: number, ingredients: RecipeIngredient[]): Recipe =>
+  ({ id, name: id, cuisine: 'Test', minutes, ingredients });
+
+const item = (id: string, name: string, category: string, expiry_date: string, extra: Record<string, unknown> = {}) =>
+  ({ id, name, category, expiry_date, quantity: 1, is_consumed: false, freeze_state: 'fresh', kind: 'grocery', ...extra });
+
+const tomato = ingredient('Tomato', 'Vegetables');
+const onion = ingredient('Onion', 'Vegetables');
+
+const rankedIds = (items: ReturnType<typeof item>[], catalog: Recipe[]) =>
+  rankRecipes(items, TODAY, catalog).map(match => match.recipe.id);
+
+describe('rankRecipes', () => {
+  it('uses the first item to expire for each ingredient and no item twice', () => {
+    const eggs = ingredient('Egg', 'Eggs');
+    const [match] = rankRecipes(
+      [
+        item('late', 'Eggs', 'Eggs', '2025-06-20'),
+        item('second', 'Eggs', 'Eggs', '2025-06-12'),
+        item('first', 'Eggs', 'Eggs', '2025-06-11'),
+      ],
+      TODAY,
+      [recipe('omelette', 10, [eggs, eggs, ingredient('Milk', 'Dairy', true)])],
+    );
+
+    expect(match.ingredients.map(entry => entry.item?.id ?? null)).toEqual(['first', 'second', null]);
+    expect(match.expiringCount).toBe(2);
+    expect(match.missing).toEqual([]);
+  });
+
+  it('ranks by expiring items used, then missing ingredients, then soonest expiry, then time', () => {
+    const items = [
+      item('tomato', 'Tomato', 'Vegetables', '2025-06-11'),
+      item('onion', 'Onion', 'Vegetables', '2025-06-12'),
+    ];
+    const catalog = [
+      recipe('missing-paneer', 5, [tomato, ingredient('Paneer', 'Dairy')]),
+      recipe('onion-only', 10, [onion]),
+      recipe('slow-tomato', 40, [tomato]),
+      recipe('quick-tomato', 20, [tomato]),
+      recipe('both', 30, [tomato, onion]),
+    ];
+
+    expect(rankedIds(items, catalog)).toEqual(['both', 'quick-tomato', 'slow-tomato', 'onion-only', 'missing-paneer']);
+  });
+
+  it('skips frozen, leftover, expired and used-up items, and recipes using nothing expiring', () => {
+    const items = [
+      item('frozen', 'Tomato', 'Vegetables', '2025-06-11', { freeze_state: 'frozen' }),
+      item('leftover', 'Tomato', 'Vegetables', '2025-06-11', { kind: 'leftover' }),
+      item('expired', 'Tomato', 'Vegetables', '2025-06-09'),
+      item('consumed', 'Tomato', 'Vegetables', '2025-06-11', { is_consumed: true }),
+      item('empty', 'Tomato', 'Vegetables', '2025-06-11', { quantity: 0 }),
+      item('onion', 'Onion', 'Vegetables', '2025-06-20'),
+    ];
+
+    expect(rankedIds(items, [recipe('salad', 10, [tomato]), recipe('fry', 10, [onion])])).toEqual([]);
+  });
+
+  it('counts calendar days from the date-only expiry', () => {
+    const catalog = [recipe('salad', 10, [tomato])];
+
+    expect(rankedIds([item('today', 'Tomato', 'Vegetables', '2025-06-10')], catalog)).toEqual(['salad']);
+    expect(rankedIds([item('in-3', 'Tomato', 'Vegetables', '2025-06-13')], catalog)).toEqual(['salad']);
+    expect(rankedIds([item('in-4', 'Tomato', 'Vegetables', '2025-06-14')], catalog)).toEqual([]);
+  });
+});
@@ -0,0 +1,103 @@
+// Recipe suggestions that use up what is about to expire
+import { differenceInCalendarDays, parseISO } from 'date-fns';
+import recipeCatalog from '@/data/recipes.json';
+import { CONFIDENT_MATCH, keywordConfidence } from '@/utils/expiryRules';
+
+export interface RecipeIngredient {
+  name: string;
+  // Matched against item names the same way as expiry rule keywords
+  keywords: string[];
+  // One of the expiry rule categories; an item must be in it to count
+  category: string;
+  // Nice to have, but the recipe works without it
+  optional?: boolean;
+}
+
+export interface Recipe {
+  id: string;
+  name: string;
+  cuisine: string;
+  minutes: number;
+  ingredients: RecipeIngredient[];
+}
+
+export const recipes: Recipe[] = recipeCatalog;
+
+// Matches the "expiring soon" count on the welcome banner
+export const EXPIRING_SOON_DAYS = 3;
+
+interface PantryItem {
+  id: string;
+  name: string;
+  category: string;
+  expiry_date: string;
+  quantity: number;
+  is_consumed: boolean;
+  freeze_state?: string;
+  kind?: string;
+}
+
+export interface RecipeMatch<T extends PantryItem = PantryItem> {
+  recipe: Recipe;
+  // The stock item each ingredient would use, or null when there is none
+  ingredients: { ingredient: RecipeIngredient; item: T | null; expiringSoon: boolean }[];
+  // Distinct soon-to-expire items the recipe uses up
+  expiringCount: number;
+  // Required ingredients that aren't in stock
+  missing: RecipeIngredient[];
+}
+
+/**
+ * Ranks recipes by how many soon-to-expire items they use, then by how few
+ * ingredients are missing. Each ingredient takes the matching item that
+ * expires first, and no item is used twice. Frozen and expired items and
+ * leftovers aren't cooked with; recipes that use nothing expiring are left out.
+ */
+export const rankRecipes = <T extends PantryItem>(
+  items: T[],
+  today: Date = new Date(),
+  catalog: Recipe[] = recipes,
+): RecipeMatch<T>[] => {
+  // Expiry dates are date-only, so they're read as local days like `today`
+  const daysLeft = (item: T) => differenceInCalendarDays(parseISO(item.expiry_date), today);
+  const stock = items
+    .filter(item =>
+      !item.is_consumed &&
+      item.quantity > 0 &&
+      item.kind !== 'leftover' &&
+      item.freeze_state !== 'frozen' &&
+      daysLeft(item) >= 0,
+    )
+    .sort((a, b) => daysLeft(a) - daysLeft(b));
+
+  const matches = catalog.map(recipe => {
+    const used = new Set<string>();
+    const ingredients = recipe.ingredients.map(ingredient => {
+      const item = stock.find(candidate =>
+        !used.has(candidate.id) &&
+        candidate.category === ingredient.category &&
+        keywordConfidence(candidate.name, ingredient.keywords) >= CONFIDENT_MATCH,
+      ) ?? null;
+      if (item) used.add(item.id);
+      return { ingredient, item, expiringSoon: !!item && daysLeft(item) <= EXPIRING_SOON_DAYS };
+    });
+
+    return {
+      recipe,
+      ingredients,
+      expiringCount: ingredients.filter(entry => entry.expiringSoon).length,
+      missing: ingredients.filter(entry => !entry.item && !entry.ingredient.optional).map(entry => entry.ingredient),
+      soonest: Math.min(...ingredients.filter(entry => entry.item).map(entry => daysLeft(entry.item!))),
+    };
+  });
+
+  return matches
+    .filter(match => match.expiringCount > 0)
+    .sort((a, b) =>
+      b.expiringCount - a.expiringCount ||
+      a.missing.length - b.missing.length ||
+      a.soonest - b.soonest ||
+      a.recipe.minutes - b.recipe.minutes,
+    )
+    .map(({ soonest, ...match }) => match);
+};
@@ -0,0 +1,90 @@
+import { describe, expect, it } from 'vitest';
+import type { Enums } from '@/integrations/supabase/types';
+import { learnShelfLives, shelfLifeKey, ShelfLifeHistory, suggestExpiryDate } from '@/utils/shelfLife';
+
+const PURCHASED = '2025-01-01';
+
+// Items bought on the same day, thrown away for `reason` at each of the given ages
+const discards = (itemName: string, ages: number[], reason: Enums<'waste_reason'> = 'spoiled') =>
+  ages.map(age => ({
+    item_name: itemName,
+    purchase_date: PURCHASED,
+    reason,
+    discarded_at: `2025-01-${String(1 + age).padStart(2, '0')}T12:00:00`,
+  }));
+
+// One item per age, last eaten at that age
+const eaten = (itemName: string, ages: number[], storage_location: 'fridge' | 'freezer' | 'pantry' = 'pantry') => ({
+  items: ages.map((_, i) => ({ id: `${itemName}-${i}`, purchase_date: PURCHASED, storage_location })),
+  consumptionEvents: ages.flatMap((age, i) => [
+    { food_item_id: `${itemName}-${i}`, item_name: itemName, consumed_at: '2025-01-02T08:00:00' },
+    { food_item_id: `${itemName}-${i}`, item_name: itemName, consumed_at: `2025-01-${String(1 + age).padStart(2, '0')}T20:00:00` },
+  ]),
+});
+
+const learn = (history: Partial<ShelfLifeHistory>) =>
+  learnShelfLives({ items: [], consumptionEvents: [], wasteEvents: [], ...history });
+
+describe('shelfLifeKey', () => {
+  it('groups names by their expiry rule', () => {
+    expect(shelfLifeKey('Brown Bread')).toBe('bread');
+    expect(shelfLifeKey('Pav')).toBe('bread');
+  });
+
+  it('groups names without a confident rule match by their words', () => {
+    expect(shelfLifeKey('Kombucha!')).toBe('kombucha');
+    expect(shelfLifeKey('Lamp oil')).toBe('lamp oil');
+  });
+});
+
+describe('learnShelfLives', () => {
+  it('takes the median age of spoiled and forgotten items', () => {
+    const estimate = learn({
+      wasteEvents: [...discards('Bread', [4, 6]), ...discards('Pav', [5], 'forgot')],
+    }).get('bread');
+
+    expect(estimate).toEqual({ key: 'bread', days: 5, sampleSize: 3, confidence: 0.31, level: 'low', source: 'spoilage' });
+  });
+
+  it('grows confident with many samples that agree', () => {
+    const estimate = learn({ wasteEvents: discards('Curd', [6, 6, 6, 6, 6, 6, 6, 6]) }).get('curd');
+    expect(estimate).toMatchObject({ days: 6, confidence: 1, level: 'high' });
+  });
+
+  it('needs enough spoilage samples and ignores discards that say nothing about spoilage', () => {
+    expect(learn({ wasteEvents: discards('Bread', [4, 5]) }).size).toBe(0);
+    expect(learn({ wasteEvents: [...discards('Bread', [4, 5], 'expired'), ...discards('Bread', [6], 'too_much')] }).size).toBe(0);
+  });
+
+  it('learns from consumption only when items outlast the rule', () => {
+    // Bread keeps 3 days in the pantry by the rule
+    expect(learn(eaten('Bread', [6, 7, 8])).get('bread')).toMatchObject({ days: 7, sampleSize: 3, source: 'consumption' });
+    expect(learn(eaten('Bread', [1, 2, 2])).size).toBe(0);
+  });
+
+  it('ignores consumption of frozen items', () => {
+    expect(learn(eaten('Bread', [40, 50, 60], 'freezer')).size).toBe(0);
+  });
+
+  it('prefers spoilage over consumption', () => {
+    const estimate = learn({ ...eaten('Bread', [6, 7, 8]), wasteEvents: discards('Bread', [4, 4, 4]) }).get('bread');
+    expect(estimate).toMatchObject({ days: 4, source: 'spoilage' });
+  });
+});
+
+describe('suggestExpiryDate', () => {
+  const estimates = learn({ wasteEvents: discards('Bread', [5, 5, 5]) });
+
+  it('adds the learned days to the purchase date', () => {
+    expect(suggestExpiryDate('Brown bread', new Date(2025, 2, 10), estimates)).toMatchObject({
+      date: new Date(2025, 2, 15),
+      days: 5,
+      ruleDays: 3,
+    });
+  });
+
+  it('stays quiet without an estimate or when it agrees with the rule', () => {
+    expect(suggestExpiryDate('Milk', new Date(2025, 2, 10), estimates)).toBeNull();
+    expect(suggestExpiryDate('Bread', new Date(2025, 2, 10), learn({ wasteEvents: discards('Bread', [3, 3, 3]) }))).toBeNull();
+  });
+});
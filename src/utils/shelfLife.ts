@@ -0,0 +1,173 @@
+// Learns how long products actually last in this household from its own
+// consumption and waste history. Pure and deterministic: the same history
+// always gives the same estimates.
+import { addDays, differenceInCalendarDays, parseISO } from 'date-fns';
+import { CONFIDENT_MATCH, ExpiryRule, findExpiryRule, shelfLifeDays } from '@/utils/expiryRules';
+import type { CachedConsumptionEvent, CachedFoodItem, CachedWasteEvent } from '@/utils/offlineStore';
+
+export type ConfidenceLevel = 'low' | 'medium' | 'high';
+
+export interface ShelfLifeEstimate {
+  key: string;
+  days: number;
+  // Number of items the estimate is based on
+  sampleSize: number;
+  // 0-1, grows with more samples and shrinks when they disagree
+  confidence: number;
+  level: ConfidenceLevel;
+  // Spoilage gives the shelf life directly; consumption only shows it lasted at least that long
+  source: 'spoilage' | 'consumption';
+}
+
+export interface ShelfLifeHistory {
+  items: Pick<CachedFoodItem, 'id' | 'purchase_date' | 'storage_location'>[];
+  consumptionEvents: Pick<CachedConsumptionEvent, 'food_item_id' | 'item_name' | 'consumed_at'>[];
+  wasteEvents: Pick<CachedWasteEvent, 'item_name' | 'purchase_date' | 'reason' | 'discarded_at'>[];
+  customRules?: ExpiryRule[];
+}
+
+export interface ExpirySuggestion {
+  date: Date;
+  days: number;
+  ruleDays: number;
+  estimate: ShelfLifeEstimate;
+}
+
+// Fewer items than this say more about luck than about the product
+export const MIN_SAMPLES = 3;
+// Samples needed before sample count stops limiting confidence
+const FULL_CONFIDENCE_SAMPLES = 8;
+const MAX_SHELF_LIFE_DAYS = 365;
+
+// Discards that say the item had gone off; "expired" only repeats the predicted
+// date and "too much" says nothing about spoilage
+const SPOILAGE_REASONS = new Set<string>(['spoiled', 'forgot']);
+
+/**
+ * Groups names by expiry rule, so "Bread", "Brown bread" and "pav" are one
+ * product. Names without a confident rule match are grouped by their words
+ * alone, so "Lamp oil" doesn't learn from lamb.
+ */
+export const shelfLifeKey = (itemName: string, customRules: ExpiryRule[] = []) => {
+  const match = findExpiryRule(itemName, customRules);
+  if (match && match.confidence >= CONFIDENT_MATCH) return match.rule.keywords[0];
+  return itemName.toLowerCase().replace(/[^\p{L}\s]/gu, ' ').replace(/\s+/g, ' ').trim();
+};
+
+const percentile = (sorted: number[], p: number) => {
+  const position = (sorted.length - 1) * p;
+  const lower = Math.floor(position);
+  const upper = Math.ceil(position);
+  return sorted[lower] + (sorted[upper] - sorted[lower]) * (position - lower);
+};
+
+const ageInDays = (purchaseDate: string | null, eventAt: string) => {
+  if (!purchaseDate) return null;
+  const age = differenceInCalendarDays(parseISO(eventAt), parseISO(purchaseDate));
+  return age >= 0 && age <= MAX_SHELF_LIFE_DAYS ? age : null;
+};
+
+const addSample = (samples: Map<string, number[]>, key: string, days: number) => {
+  if (!key) return;
+  samples.set(key, [...(samples.get(key) || []), days]);
+};
+
+const toLevel = (confidence: number): ConfidenceLevel =>
+  confidence >= 0.7 ? 'high' : confidence >= 0.4 ? 'medium' : 'low';
+
+const estimateFrom = (key: string, samples: number[], source: ShelfLifeEstimate['source']): ShelfLifeEstimate => {
+  const sorted = [...samples].sort((a, b) => a - b);
+  const median = percentile(sorted, 0.5);
+  const spread = percentile(sorted, 0.75) - percentile(sorted, 0.25);
+  const sampleFactor = Math.min(sorted.length / FULL_CONFIDENCE_SAMPLES, 1);
+  const consistency = 1 / (1 + spread / Math.max(median, 1));
+  // Lower bounds are weaker evidence than observed spoilage
+  const sourceFactor = source === 'spoilage' ? 1 : 0.8;
+  const confidence = Math.round(sampleFactor * consistency * sourceFactor * 100) / 100;
+
+  return {
+    key,
+    days: Math.max(Math.round(median), 1),
+    sampleSize: sorted.length,
+    confidence,
+    level: toLevel(confidence),
+    source,
+  };
+};
+
+/**
+ * Estimates shelf life per product. Spoiled or forgotten discards give the age
+ * at which items went off; when there are enough of those, their median wins.
+ * Otherwise the age at which each item was last eaten shows how long it stays
+ * good, which is used only when it beats the rule — eating bread on day 5
+ * doesn't prove it wouldn't have lasted 7.
+ */
+export const learnShelfLives = ({
+  items,
+  consumptionEvents,
+  wasteEvents,
+  customRules = [],
+}: ShelfLifeHistory): Map<string, ShelfLifeEstimate> => {
+  const spoilage = new Map<string, number[]>();
+  wasteEvents.forEach(event => {
+    if (!SPOILAGE_REASONS.has(event.reason)) return;
+    const age = ageInDays(event.purchase_date, event.discarded_at);
+    if (age !== null) addSample(spoilage, shelfLifeKey(event.item_name, customRules), age);
+  });
+
+  // Latest age at which each item was still being eaten. Frozen items say
+  // nothing about how long the product keeps where it is normally stored.
+  const purchaseDates = new Map(items
+    .filter(item => item.storage_location !== 'freezer')
+    .map(item => [item.id, item.purchase_date]));
+  const lastEaten = new Map<string, { key: string; age: number }>();
+  consumptionEvents.forEach(event => {
+    if (!event.food_item_id) return;
+    const age = ageInDays(purchaseDates.get(event.food_item_id) ?? null, event.consumed_at);
+    const previous = lastEaten.get(event.food_item_id);
+    if (age !== null && (!previous || age > previous.age)) {
+      lastEaten.set(event.food_item_id, { key: shelfLifeKey(event.item_name, customRules), age });
+    }
+  });
+  const consumption = new Map<string, number[]>();
+  lastEaten.forEach(({ key, age }) => addSample(consumption, key, age));
+
+  const estimates = new Map<string, ShelfLifeEstimate>();
+  spoilage.forEach((samples, key) => {
+    if (samples.length >= MIN_SAMPLES) estimates.set(key, estimateFrom(key, samples, 'spoilage'));
+  });
+  consumption.forEach((samples, key) => {
+    if (estimates.has(key) || samples.length < MIN_SAMPLES) return;
+    const estimate = estimateFrom(key, samples, 'consumption');
+    const ruleDays = shelfLifeDays(key, undefined, customRules);
+    if (estimate.days > ruleDays) estimates.set(key, estimate);
+  });
+
+  return estimates;
+};
+
+/**
+ * Suggests an expiry date from learned shelf life, or null when there is no
+ * estimate for the item or it agrees with the rule anyway.
+ */
+export const suggestExpiryDate = (
+  itemName: string,
+  purchaseDate: Date,
+  estimates: Map<string, ShelfLifeEstimate>,
+  customRules: ExpiryRule[] = [],
+): ExpirySuggestion | null => {
+  if (!itemName.trim()) return null;
+  const estimate = estimates.get(shelfLifeKey(itemName, customRules));
+  if (!estimate) return null;
+
+  const ruleDays = shelfLifeDays(itemName, undefined, customRules);
+  if (estimate.days === ruleDays) return null;
+
+  return { date: addDays(purchaseDate, estimate.days), days: estimate.days, ruleDays, estimate };
+};
+
+export const CONFIDENCE_LABELS: Record<ConfidenceLevel, string> = {
+  low: 'Low confidence',
+  medium: 'Medium confidence',
+  high: 'High confidence',
+};
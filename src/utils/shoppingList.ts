@@ -0,0 +1,99 @@
+// Suggestions for the shopping list, from what was used up lately and what is running low
+import { differenceInDays } from 'date-fns';
+import type { Enums } from '@/integrations/supabase/types';
+import { LEFTOVER_CATEGORY } from '@/utils/leftovers';
+import { findExpiryRule } from '@/utils/expiryRules';
+import { findParLevel, matchesParLevel, ParShortfall } from '@/utils/parLevels';
+
+export type ShoppingListSource = Enums<'shopping_list_source'>;
+
+export const SHOPPING_LIST_SOURCE_LABELS: Record<ShoppingListSource, string> = {
+  manual: 'Added by hand',
+  consumed: 'Used up recently',
+  low_stock: 'Running low',
+};
+
+// How far back used-up items are suggested again
+export const RECENTLY_CONSUMED_DAYS = 14;
+
+interface StockItem {
+  name: string;
+  category: string | null;
+  quantity: number | null;
+  is_consumed: boolean | null;
+  kind?: string;
+}
+
+interface ConsumptionEvent {
+  item_name: string;
+  category: string | null;
+  amount: number;
+  consumed_at: string;
+}
+
+export interface ShoppingSuggestion {
+  name: string;
+  category: string;
+  quantity: number;
+  source: Exclude<ShoppingListSource, 'manual'>;
+}
+
+// Entries for the same product match however they were capitalised or spaced
+export const productKey = (name: string) => name.trim().toLowerCase().replace(/\s+/g, ' ');
+
+/**
+ * Products below their par level, and items without one that were used up in
+ * the last two weeks with none left. Leftovers and anything already on the
+ * list are skipped. Suggested quantities are what it takes to get back to
+ * par, or what was used in that time.
+ */
+export const suggestShoppingItems = ({
+  items,
+  consumptionEvents,
+  listedNames,
+  shortfalls = [],
+  today = new Date(),
+}: {
+  items: StockItem[];
+  consumptionEvents: ConsumptionEvent[];
+  listedNames: string[];
+  shortfalls?: ParShortfall[];
+  today?: Date;
+}): ShoppingSuggestion[] => {
+  const listed = new Set(listedNames.map(productKey));
+  const parLevels = shortfalls.map(entry => entry.par);
+
+  const inStock = new Map<string, number>();
+  items.forEach(item => {
+    if (item.is_consumed || item.kind === 'leftover') return;
+    const key = productKey(item.name);
+    inStock.set(key, (inStock.get(key) || 0) + (item.quantity || 0));
+  });
+
+  const used = new Map<string, { name: string; category: string; recent: number }>();
+  consumptionEvents.forEach(event => {
+    if (event.category === LEFTOVER_CATEGORY) return;
+    const key = productKey(event.item_name);
+    const entry = used.get(key) ?? { name: event.item_name.trim(), category: event.category || 'Other', recent: 0 };
+    if (differenceInDays(today, new Date(event.consumed_at)) <= RECENTLY_CONSUMED_DAYS) entry.recent += event.amount;
+    used.set(key, entry);
+  });
+
+  const suggestions: ShoppingSuggestion[] = [];
+  shortfalls.forEach(({ par, shortfall }) => {
+    if (shortfall === 0 || listedNames.some(name => matchesParLevel(name, par))) return;
+    const category = findExpiryRule(par.name)?.rule.category ?? 'Other';
+    suggestions.push({ name: par.name.trim(), category, quantity: shortfall, source: 'low_stock' });
+  });
+
+  used.forEach((entry, key) => {
+    // Products with a par level are covered above
+    if (listed.has(key) || findParLevel(entry.name, parLevels)) return;
+
+    if (!inStock.get(key) && entry.recent > 0) {
+      suggestions.push({ name: entry.name, category: entry.category, quantity: entry.recent, source: 'consumed' });
+    }
+  });
+
+  return suggestions.sort((a, b) => a.source.localeCompare(b.source) || a.name.localeCompare(b.name));
+};
@@ -0,0 +1,9 @@
+import type { Enums } from '@/integrations/supabase/types';
+
+export type StorageLocation = Enums<'storage_location'>;
+
+export const STORAGE_LOCATION_LABELS: Record<StorageLocation, string> = {
+  fridge: 'Fridge',
+  freezer: 'Freezer',
+  pantry: 'Pantry',
+};
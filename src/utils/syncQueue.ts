@@ -0,0 +1,104 @@
+// Replays queued offline writes against Supabase.
+// Conflicts are settled on updated_at: the newest change wins, so a queued edit
+// is dropped if the server row changed after the edit was made locally.
+import { supabase } from '@/integrations/supabase/client';
+import { getQueuedMutations, removeMutation, QueuedMutation } from '@/utils/offlineStore';
+
+export interface ReplayResult {
+  applied: number;
+  // Queued changes discarded because the server copy was newer (or gone)
+  superseded: number;
+  // Changes the server rejected outright, e.g. blocked by RLS
+  failed: string[];
+  // Stopped early because the network is unavailable; the rest stays queued
+  interrupted: boolean;
+}
+
+export const isNetworkError = (error: unknown): boolean => {
+  if (typeof navigator !== 'undefined' && !navigator.onLine) return true;
+  const message = (error as { message?: string })?.message || '';
+  return /failed to fetch|networkerror|load failed|network request failed/i.test(message);
+};
+
+const applyMutation = async (
+  mutation: QueuedMutation,
+  ownWrites: Map<string, string>,
+): Promise<'applied' | 'superseded'> => {
+  // Database functions apply relative changes (e.g. decrements) and are idempotent by design
+  if (mutation.type === 'rpc') {
+    const { data, error } = await supabase.rpc(mutation.fn, mutation.args);
+    if (error) throw error;
+    const row = data as { updated_at?: string } | null;
+    if (row?.updated_at) ownWrites.set(`${mutation.recordTable}:${mutation.recordId}`, row.updated_at);
+    return 'applied';
+  }
+
+  const writeKey = `${mutation.table}:${mutation.recordId}`;
+
+  if (mutation.type === 'insert') {
+    // Client-generated ids make the insert idempotent if it is replayed twice
+    const { data, error } = await supabase.from(mutation.table)
+      .upsert(mutation.payload, { onConflict: 'id', ignoreDuplicates: true })
+      .select('*');
+    if (error) throw error;
+    const row = (data as Array<{ updated_at?: string }> | null)?.[0];
+    if (row?.updated_at) ownWrites.set(writeKey, row.updated_at);
+    return 'applied';
+  }
+
+  const { data: current, error: readError } = await supabase.from(mutation.table)
+    .select('updated_at')
+    .eq('id', mutation.recordId)
+    .maybeSingle();
+  if (readError) throw readError;
+
+  if (!current) return 'superseded';
+  const serverUpdatedAt = (current as { updated_at?: string }).updated_at;
+
+  // Changed on the server after this edit was made, and not by this replay
+  if (
+    serverUpdatedAt &&
+    new Date(serverUpdatedAt) > new Date(mutation.queuedAt) &&
+    ownWrites.get(writeKey) !== serverUpdatedAt
+  ) {
+    return 'superseded';
+  }
+
+  if (mutation.type === 'update') {
+    const { data, error } = await supabase.from(mutation.table)
+      .update(mutation.payload)
+      .eq('id', mutation.recordId)
+      .select('*');
+    if (error) throw error;
+    const row = (data as Array<{ updated_at?: string }> | null)?.[0];
+    if (row?.updated_at) ownWrites.set(writeKey, row.updated_at);
+  } else {
+    const { error } = await supabase.from(mutation.table).delete().eq('id', mutation.recordId);
+    if (error) throw error;
+    ownWrites.delete(writeKey);
+  }
+
+  return 'applied';
+};
+
+export const replayMutations = async (userId: string): Promise<ReplayResult> => {
+  const result: ReplayResult = { applied: 0, superseded: 0, failed: [], interrupted: false };
+  const ownWrites = new Map<string, string>();
+  const mutations = await getQueuedMutations(userId);
+
+  for (const mutation of mutations) {
+    try {
+      const outcome = await applyMutation(mutation, ownWrites);
+      result[outcome]++;
+    } catch (error) {
+      if (isNetworkError(error)) {
+        result.interrupted = true;
+        break;
+      }
+      result.failed.push((error as Error).message);
+    }
+    await removeMutation(userId, mutation.id!);
+  }
+
+  return result;
+};
@@ -0,0 +1,166 @@
+// Romanizes Devanagari receipt text so Hindi item names can be matched against
+// the romanized keywords in expiryRules (दूध -> doodh, टमाटर -> tamatar).
+import { expiryRules } from '@/utils/expiryRules';
+
+const INDEPENDENT_VOWELS: Record<string, string> = {
+  'अ': 'a', 'आ': 'aa', 'इ': 'i', 'ई': 'ee', 'उ': 'u', 'ऊ': 'oo', 'ऋ': 'ri',
+  'ए': 'e', 'ऐ': 'ai', 'ओ': 'o', 'औ': 'au', 'ऑ': 'o', 'ऍ': 'e',
+};
+
+const VOWEL_SIGNS: Record<string, string> = {
+  'ा': 'aa', 'ि': 'i', 'ी': 'ee', 'ु': 'u', 'ू': 'oo', 'ृ': 'ri',
+  'े': 'e', 'ै': 'ai', 'ो': 'o', 'ौ': 'au', 'ॉ': 'o', 'ॅ': 'e',
+};
+
+const CONSONANTS: Record<string, string> = {
+  'क': 'k', 'ख': 'kh', 'ग': 'g', 'घ': 'gh', 'ङ': 'n',
+  'च': 'ch', 'छ': 'chh', 'ज': 'j', 'झ': 'jh', 'ञ': 'n',
+  'ट': 't', 'ठ': 'th', 'ड': 'd', 'ढ': 'dh', 'ण': 'n',
+  'त': 't', 'थ': 'th', 'द': 'd', 'ध': 'dh', 'न': 'n',
+  'प': 'p', 'फ': 'ph', 'ब': 'b', 'भ': 'bh', 'म': 'm',
+  'य': 'y', 'र': 'r', 'ल': 'l', 'ळ': 'l', 'व': 'v',
+  'श': 'sh', 'ष': 'sh', 'स': 's', 'ह': 'h',
+  // Precomposed nukta forms
+  'क़': 'q', 'ख़': 'kh', 'ग़': 'g', 'ज़': 'z', 'ड़': 'r', 'ढ़': 'rh', 'फ़': 'f', 'य़': 'y',
+};
+
+// Consonants written with a separate nukta sign (U+093C)
+const NUKTA_FORMS: Record<string, string> = {
+  'क': 'q', 'ख': 'kh', 'ग': 'g', 'ज': 'z', 'ड': 'r', 'ढ': 'rh', 'फ': 'f', 'य': 'y',
+};
+
+const NUKTA = '़';
+const VIRAMA = '्';
+const NASALS = new Set(['ं', 'ँ']);
+const VISARGA = 'ः';
+
+interface Syllable {
+  consonant: string;
+  vowel: string;
+  // Vowel is the implicit "a", which Hindi usually drops at word ends and in VC_CV
+  inherent: boolean;
+  coda: string;
+}
+
+export const containsDevanagari = (text: string) => /[ऀ-ॿ]/.test(text);
+
+const syllablesToRoman = (syllables: Syllable[]) => {
+  const last = syllables.length - 1;
+  if (last > 0 && syllables[last].inherent && !syllables[last].coda) {
+    syllables[last].vowel = '';
+  }
+
+  for (let i = last - 1; i >= 1; i--) {
+    const current = syllables[i];
+    const prev = syllables[i - 1];
+    const next = syllables[i + 1];
+    if (current.inherent && !current.coda && prev.vowel && next.consonant && next.vowel) {
+      current.vowel = '';
+    }
+  }
+
+  return syllables.map(s => s.consonant + s.vowel + s.coda).join('');
+};
+
+// Transliterates one run of Devanagari characters (a word)
+const romanizeWord = (word: string) => {
+  const chars = Array.from(word);
+  const syllables: Syllable[] = [];
+
+  for (let i = 0; i < chars.length; i++) {
+    const char = chars[i];
+    const current = syllables[syllables.length - 1];
+
+    if (CONSONANTS[char]) {
+      const withNukta = chars[i + 1] === NUKTA && NUKTA_FORMS[char];
+      if (withNukta) i++;
+      syllables.push({ consonant: withNukta || CONSONANTS[char], vowel: 'a', inherent: true, coda: '' });
+    } else if (INDEPENDENT_VOWELS[char]) {
+      syllables.push({ consonant: '', vowel: INDEPENDENT_VOWELS[char], inherent: false, coda: '' });
+    } else if (current && VOWEL_SIGNS[char]) {
+      current.vowel = VOWEL_SIGNS[char];
+      current.inherent = false;
+    } else if (current && char === VIRAMA) {
+      current.vowel = '';
+      current.inherent = false;
+    } else if (current && NASALS.has(char)) {
+      current.coda += 'n';
+    } else if (current && char === VISARGA) {
+      current.coda += 'h';
+    }
+  }
+
+  return syllablesToRoman(syllables);
+};
+
+const toAsciiDigits = (text: string) =>
+  text.replace(/[०-९]/g, digit => String(digit.charCodeAt(0) - '०'.charCodeAt(0)));
+
+/**
+ * Spelling-insensitive form of a romanized word, so "tamaatar" and "tamatar",
+ * "dahee" and "dahi", or "gobhee" and "gobi" compare equal.
+ */
+export const looseKey = (text: string) => {
+  const key = text
+    .toLowerCase()
+    .replace(/ee/g, 'i')
+    .replace(/oo/g, 'u')
+    .replace(/w/g, 'v')
+    .replace(/z/g, 'j')
+    .replace(/chh/g, 'ch')
+    .replace(/([bdgjkpt])h/g, '$1')
+    .replace(/(.)\1+/g, '$1');
+  return key.charAt(0) + key.slice(1).replace(/a/g, '');
+};
+
+const keywordsByKey = new Map<string, string>();
+expiryRules.forEach(rule => rule.keywords.forEach(keyword => {
+  const key = keyword.split(' ').map(looseKey).join(' ');
+  if (!keywordsByKey.has(key)) keywordsByKey.set(key, keyword);
+}));
+
+interface Word {
+  text: string;
+  // Only words romanized from Devanagari are snapped; Latin text is left as written
+  romanized: boolean;
+}
+
+// Swaps romanized words for the keyword they sound like, trying two-word keywords first
+const snapToKeywords = (words: Word[]) => {
+  const result: string[] = [];
+  for (let i = 0; i < words.length; i++) {
+    const word = words[i];
+    const next = words[i + 1];
+    if (!word.romanized) {
+      result.push(word.text);
+      continue;
+    }
+    const pair = next?.romanized && keywordsByKey.get(`${looseKey(word.text)} ${looseKey(next.text)}`);
+    if (pair) {
+      result.push(pair);
+      i++;
+      continue;
+    }
+    result.push(keywordsByKey.get(looseKey(word.text)) || word.text);
+  }
+  return result;
+};
+
+/**
+ * Romanizes any Devanagari in a line and snaps the result to expiryRules
+ * keywords where one sounds the same. Lines without Devanagari are returned as-is.
+ */
+export const transliterateDevanagari = (text: string): string => {
+  if (!containsDevanagari(text)) return text;
+
+  const words = toAsciiDigits(text)
+    .replace(/[।॥]/g, '.')
+    .replace(/[ऀ-ॿ]+/g, word => ` ${word} `)
+    .trim()
+    .split(/\s+/)
+    .map(word => (containsDevanagari(word)
+      ? { text: romanizeWord(word), romanized: true }
+      : { text: word, romanized: false }));
+
+  return snapToKeywords(words).join(' ');
+};
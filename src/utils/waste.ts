@@ -0,0 +1,10 @@
+import type { Enums } from '@/integrations/supabase/types';
+
+export type WasteReason = Enums<'waste_reason'>;
+
+export const WASTE_REASON_LABELS: Record<WasteReason, string> = {
+  spoiled: 'Spoiled',
+  expired: 'Expired',
+  forgot: 'Forgot about it',
+  too_much: 'Bought too much',
+};
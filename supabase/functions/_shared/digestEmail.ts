@@ -0,0 +1,70 @@
+// Renders the daily digest email in HTML and plain text
+import type { DigestGroups, ReminderItem } from './reminders.ts';
+import type { MailMessage } from './mail.ts';
+
+interface DigestEmailOptions {
+  to: string;
+  displayName: string;
+  date: string;
+  groups: DigestGroups;
+  appUrl: string;
+}
+
+const SECTIONS: Array<{ key: keyof DigestGroups; title: string; color: string }> = [
+  { key: 'expired', title: 'Expired', color: '#dc2626' },
+  { key: 'expiringToday', title: 'Expiring today', color: '#ea580c' },
+  { key: 'expiringThisWeek', title: 'Expiring this week', color: '#d97706' },
+];
+
+const escapeHtml = (value: string) =>
+  value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#39;');
+
+const describeItem = (item: ReminderItem) =>
+  item.category ? `${item.name} (${item.category}) - ${item.expiry_date}` : `${item.name} - ${item.expiry_date}`;
+
+export const countDigestItems = (groups: DigestGroups) =>
+  groups.expired.length + groups.expiringToday.length + groups.expiringThisWeek.length;
+
+export const renderDigestEmail = ({ to, displayName, date, groups, appUrl }: DigestEmailOptions): MailMessage => {
+  const total = countDigestItems(groups);
+  const subject = `Food summary for ${date}: ${total} item${total === 1 ? '' : 's'} need attention`;
+  const sections = SECTIONS.filter(section => groups[section.key].length > 0);
+
+  const text = [
+    `Hi ${displayName},`,
+    '',
+    ...sections.flatMap(section => [
+      `${section.title} (${groups[section.key].length}):`,
+      ...groups[section.key].map(item => `  - ${describeItem(item)}`),
+      '',
+    ]),
+    `Open Expiry Tracker: ${appUrl}`,
+    '',
+    'You can turn off this email under Settings > Notifications.',
+  ].join('\n');
+
+  const html = `<!doctype html>
+<html>
+  <body style="font-family: -apple-system, Segoe UI, Roboto, sans-serif; color: #111827; max-width: 560px; margin: 0 auto; padding: 24px;">
+    <h1 style="font-size: 20px; margin: 0 0 8px;">Your Daily Food Summary</h1>
+    <p style="color: #6b7280; margin: 0 0 24px;">Hi ${escapeHtml(displayName)}, here is what needs attention on ${escapeHtml(date)}.</p>
+${sections
+  .map(
+    section => `    <h2 style="font-size: 16px; color: ${section.color}; margin: 16px 0 8px;">${section.title} (${groups[section.key].length})</h2>
+    <ul style="padding-left: 20px; margin: 0;">
+${groups[section.key].map(item => `      <li>${escapeHtml(describeItem(item))}</li>`).join('\n')}
+    </ul>`
+  )
+  .join('\n')}
+    <p style="margin: 24px 0;"><a href="${escapeHtml(appUrl)}" style="background: #16a34a; color: #fff; padding: 10px 16px; border-radius: 6px; text-decoration: none;">Open Expiry Tracker</a></p>
+    <p style="color: #9ca3af; font-size: 12px;">You can turn off this email under Settings &gt; Notifications.</p>
+  </body>
+</html>`;
+
+  return { to, subject, html, text };
+};
@@ -0,0 +1,55 @@
+// Pluggable mail delivery. MAIL_TRANSPORT=mock keeps messages in memory
+// instead of sending them, for local runs and tests.
+import nodemailer from 'npm:nodemailer@6.9.16';
+
+export interface MailMessage {
+  to: string;
+  subject: string;
+  html: string;
+  text: string;
+}
+
+export interface MailTransport {
+  send(message: MailMessage): Promise<void>;
+}
+
+export const createSmtpTransport = (): MailTransport => {
+  const host = Deno.env.get('SMTP_HOST');
+  const from = Deno.env.get('SMTP_FROM');
+  if (!host || !from) {
+    throw new Error('SMTP_HOST and SMTP_FROM must be set');
+  }
+
+  const port = Number(Deno.env.get('SMTP_PORT') ?? 587);
+  const user = Deno.env.get('SMTP_USER');
+  const transporter = nodemailer.createTransport({
+    host,
+    port,
+    secure: port === 465,
+    auth: user ? { user, pass: Deno.env.get('SMTP_PASS') } : undefined,
+  });
+
+  return {
+    async send(message) {
+      await transporter.sendMail({ from, ...message });
+    },
+  };
+};
+
+export interface MockMailTransport extends MailTransport {
+  sent: MailMessage[];
+}
+
+export const createMockTransport = (): MockMailTransport => {
+  const sent: MailMessage[] = [];
+  return {
+    sent,
+    async send(message) {
+      console.log(`[mock mail] to=${message.to} subject="${message.subject}"`);
+      sent.push(message);
+    },
+  };
+};
+
+export const getMailTransport = (): MailTransport =>
+  Deno.env.get('MAIL_TRANSPORT') === 'mock' ? createMockTransport() : createSmtpTransport();
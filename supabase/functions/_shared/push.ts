@@ -0,0 +1,69 @@
+// Web Push delivery. PUSH_STAND_IN_URL swaps real delivery for a plain HTTP
+// POST so the scheduled job can be exercised against a local stand-in server.
+import webpush from 'npm:web-push@3.6.7';
+
+export interface PushSubscriptionRow {
+  id: string;
+  endpoint: string;
+  p256dh: string;
+  auth: string;
+}
+
+export interface PushMessage {
+  title: string;
+  body: string;
+  tag?: string;
+  url?: string;
+}
+
+export interface PushResult {
+  ok: boolean;
+  // The push service no longer knows this subscription; it should be deleted
+  gone: boolean;
+}
+
+export interface PushTransport {
+  send(subscription: PushSubscriptionRow, message: PushMessage): Promise<PushResult>;
+}
+
+export const createWebPushTransport = (): PushTransport => {
+  const publicKey = Deno.env.get('VAPID_PUBLIC_KEY');
+  const privateKey = Deno.env.get('VAPID_PRIVATE_KEY');
+  if (!publicKey || !privateKey) {
+    throw new Error('VAPID_PUBLIC_KEY and VAPID_PRIVATE_KEY must be set');
+  }
+  webpush.setVapidDetails(Deno.env.get('VAPID_SUBJECT') ?? 'mailto:admin@example.com', publicKey, privateKey);
+
+  return {
+    async send(subscription, message) {
+      try {
+        await webpush.sendNotification(
+          { endpoint: subscription.endpoint, keys: { p256dh: subscription.p256dh, auth: subscription.auth } },
+          JSON.stringify(message),
+        );
+        return { ok: true, gone: false };
+      } catch (error) {
+        const statusCode = (error as { statusCode?: number }).statusCode;
+        console.error('Web Push failed:', statusCode, (error as Error).message);
+        return { ok: false, gone: statusCode === 404 || statusCode === 410 };
+      }
+    },
+  };
+};
+
+export const createStandInTransport = (url: string): PushTransport => ({
+  async send(subscription, message) {
+    const response = await fetch(url, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ endpoint: subscription.endpoint, message }),
+    });
+    await response.body?.cancel();
+    return { ok: response.ok, gone: response.status === 404 || response.status === 410 };
+  },
+});
+
+export const getPushTransport = (): PushTransport => {
+  const standInUrl = Deno.env.get('PUSH_STAND_IN_URL');
+  return standInUrl ? createStandInTransport(standInUrl) : createWebPushTransport();
+};
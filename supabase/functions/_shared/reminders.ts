@@ -0,0 +1,184 @@
+// Reminder rules shared by the app (src/utils/notifications.ts, via the
+// @shared alias) and the scheduled jobs. Pure and dependency-free so it runs
+// in both the browser and Deno. Dates are evaluated in the user's timezone.
+
+export interface ReminderPreferences {
+  user_id: string;
+  notifications_enabled: boolean;
+  enable_daily_digest: boolean;
+  digest_time: string;
+  reminder_1_day: boolean;
+  reminder_3_days: boolean;
+  reminder_7_days: boolean;
+  enable_category_reminders: boolean;
+  categories: string[];
+  timezone: string;
+}
+
+export interface ReminderItem {
+  id: string;
+  name: string;
+  category: string | null;
+  expiry_date: string;
+  is_consumed: boolean | null;
+}
+
+export interface DueReminder {
+  title: string;
+  body: string;
+  tag: string;
+  // De-duplication keys this reminder covers; recorded once it is delivered
+  keys: string[];
+}
+
+export interface DigestGroups {
+  expired: ReminderItem[];
+  expiringToday: ReminderItem[];
+  expiringThisWeek: ReminderItem[];
+}
+
+const MS_PER_DAY = 24 * 60 * 60 * 1000;
+
+// Calendar date (yyyy-MM-dd) and minutes past midnight of `now` in `timezone`
+export const getLocalClock = (now: Date, timezone: string) => {
+  let parts: Intl.DateTimeFormatPart[];
+  try {
+    parts = new Intl.DateTimeFormat('en-CA', {
+      timeZone: timezone,
+      year: 'numeric',
+      month: '2-digit',
+      day: '2-digit',
+      hour: '2-digit',
+      minute: '2-digit',
+      hourCycle: 'h23',
+    }).formatToParts(now);
+  } catch {
+    // Unknown zone names fall back to UTC
+    return getLocalClock(now, 'UTC');
+  }
+
+  const get = (type: string) => parts.find(p => p.type === type)?.value ?? '00';
+  return {
+    date: `${get('year')}-${get('month')}-${get('day')}`,
+    minutes: Number(get('hour')) * 60 + Number(get('minute')),
+  };
+};
+
+// Whole calendar days from `from` to `to`, both yyyy-MM-dd
+export const daysBetween = (from: string, to: string) =>
+  Math.round((Date.parse(`${to}T00:00:00Z`) - Date.parse(`${from}T00:00:00Z`)) / MS_PER_DAY);
+
+export const filterReminderItems = (items: ReminderItem[], prefs: ReminderPreferences) =>
+  items.filter(
+    item =>
+      !item.is_consumed &&
+      (!prefs.enable_category_reminders || prefs.categories.includes(item.category || 'Other'))
+  );
+
+export const groupForDigest = (items: ReminderItem[], today: string): DigestGroups => {
+  const groups: DigestGroups = { expired: [], expiringToday: [], expiringThisWeek: [] };
+  items.forEach(item => {
+    const days = daysBetween(today, item.expiry_date);
+    if (days < 0) groups.expired.push(item);
+    else if (days === 0) groups.expiringToday.push(item);
+    else if (days <= 7) groups.expiringThisWeek.push(item);
+  });
+  return groups;
+};
+
+export const isDigestDue = (prefs: ReminderPreferences, now: Date) => {
+  const [hours, minutes] = prefs.digest_time.split(':').map(Number);
+  return getLocalClock(now, prefs.timezone).minutes >= hours * 60 + minutes;
+};
+
+export const digestKey = (prefs: ReminderPreferences, now: Date) =>
+  `digest:${getLocalClock(now, prefs.timezone).date}`;
+
+const joinNames = (items: ReminderItem[]) => items.map(item => item.name).join(', ');
+
+// Titled by the days actually left, so items due today aren't announced as tomorrow's
+const expiryTitle = (daysLeft: number[]) => {
+  const latest = Math.max(...daysLeft);
+  if (latest === 0) return 'Food Items Expiring Today!';
+  if (latest === 1) return Math.min(...daysLeft) === 0 ? 'Food Items Expiring Today and Tomorrow!' : 'Food Items Expiring Tomorrow!';
+  return `Food Items Expiring Within ${latest} Days`;
+};
+
+/**
+ * Works out which reminders should be sent right now. Pure: callers pass the
+ * keys of reminders already sent and record the returned keys once delivered.
+ *
+ * - Before-expiry alerts fire once per item for the tightest enabled window
+ *   (1, 3 or 7 days) it has entered, so an item seen late still gets one alert.
+ * - The daily digest fires once per local day, at or after `digest_time`.
+ * - When category reminders are on, only the selected categories are considered.
+ */
+export const getDueReminders = (
+  items: ReminderItem[],
+  prefs: ReminderPreferences,
+  sentKeys: Set<string>,
+  now: Date,
+): DueReminder[] => {
+  if (!prefs.notifications_enabled) return [];
+
+  const today = getLocalClock(now, prefs.timezone).date;
+  const activeItems = filterReminderItems(items, prefs);
+  const reminders: DueReminder[] = [];
+
+  const thresholds = [
+    prefs.reminder_1_day && 1,
+    prefs.reminder_3_days && 3,
+    prefs.reminder_7_days && 7,
+  ].filter(Boolean) as number[];
+  const dueByThreshold = new Map<number, { items: ReminderItem[]; daysLeft: number[]; keys: string[] }>();
+
+  activeItems.forEach(item => {
+    const days = daysBetween(today, item.expiry_date);
+    if (days < 0) return;
+
+    const threshold = thresholds.find(t => days <= t);
+    if (threshold === undefined) return;
+
+    // Keyed on expiry date too so an edited expiry re-arms the reminder
+    const key = `expiry:${item.id}:${item.expiry_date}:${threshold}`;
+    if (sentKeys.has(key)) return;
+
+    const group = dueByThreshold.get(threshold) || { items: [], daysLeft: [], keys: [] };
+    group.items.push(item);
+    group.daysLeft.push(days);
+    group.keys.push(key);
+    dueByThreshold.set(threshold, group);
+  });
+
+  Array.from(dueByThreshold.entries())
+    .sort(([a], [b]) => a - b)
+    .forEach(([threshold, group]) => {
+      reminders.push({
+        title: expiryTitle(group.daysLeft),
+        body: `These items are expiring soon: ${joinNames(group.items)}`,
+        tag: `expiry-${threshold}`,
+        keys: group.keys,
+      });
+    });
+
+  const key = digestKey(prefs, now);
+  if (prefs.enable_daily_digest && !sentKeys.has(key) && isDigestDue(prefs, now)) {
+    const { expired, expiringToday, expiringThisWeek } = groupForDigest(activeItems, today);
+    const lines = [
+      expiringToday.length > 0 && `Expiring today: ${joinNames(expiringToday)}`,
+      expiringThisWeek.length > 0 && `This week: ${joinNames(expiringThisWeek)}`,
+      expired.length > 0 && `Expired: ${joinNames(expired)}`,
+    ].filter(Boolean) as string[];
+
+    if (lines.length > 0) {
+      reminders.push({
+        title: 'Your Daily Food Summary',
+        body: lines.join('\n'),
+        tag: 'digest',
+        keys: [key],
+      });
+    }
+  }
+
+  return reminders;
+};
@@ -0,0 +1,92 @@
+// Service-role and request helpers shared by the edge functions
+import { createClient, SupabaseClient } from 'npm:@supabase/supabase-js@2';
+import type { ReminderItem } from './reminders.ts';
+
+// How far back delivered reminder keys are loaded for de-duplication
+const SENT_REMINDER_LOOKBACK_DAYS = 30;
+
+export const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+};
+
+export const bytesEqual = (a: string, b: string) => {
+  const x = new TextEncoder().encode(a);
+  const y = new TextEncoder().encode(b);
+  // Compares every byte so the time taken doesn't reveal how much matched
+  let diff = x.length ^ y.length;
+  for (let i = 0; i < x.length; i++) diff |= x[i] ^ (y[i % y.length] ?? 0);
+  return diff === 0;
+};
+
+// The jobs only run for the scheduler, which sends the service-role key
+// (see the cron migrations) or a dedicated CRON_SECRET as its bearer token
+export const isAuthorizedJobRequest = (req: Request) => {
+  const token = req.headers.get('Authorization')?.match(/^Bearer\s+(.+)$/i)?.[1];
+  if (!token) return false;
+  return [Deno.env.get('SUPABASE_SERVICE_ROLE_KEY'), Deno.env.get('CRON_SECRET')].some(
+    secret => !!secret && bytesEqual(token, secret)
+  );
+};
+
+export const unauthorizedResponse = () =>
+  new Response(JSON.stringify({ error: 'Unauthorized' }), {
+    status: 401,
+    headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+  });
+
+export const createAdminClient = (): SupabaseClient =>
+  createClient(Deno.env.get('SUPABASE_URL')!, Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!, {
+    auth: { persistSession: false },
+  });
+
+// Items the user can see in the app: their personal items plus their household's
+export const loadUserItems = async (admin: SupabaseClient, userId: string): Promise<ReminderItem[]> => {
+  const { data: membership } = await admin
+    .from('household_members')
+    .select('household_id')
+    .eq('user_id', userId)
+    .maybeSingle();
+
+  let query = admin.from('food_items').select('id, name, category, expiry_date, is_consumed');
+  query = membership
+    ? query.or(`household_id.eq.${membership.household_id},and(household_id.is.null,user_id.eq.${userId})`)
+    : query.is('household_id', null).eq('user_id', userId);
+
+  const { data, error } = await query.order('expiry_date', { ascending: true });
+  if (error) throw error;
+  return data ?? [];
+};
+
+export const loadSentKeys = async (admin: SupabaseClient, userId: string, channel: string, now: Date) => {
+  const since = new Date(now.getTime() - SENT_REMINDER_LOOKBACK_DAYS * 24 * 60 * 60 * 1000);
+  const { data, error } = await admin
+    .from('sent_reminders')
+    .select('reminder_key')
+    .eq('user_id', userId)
+    .eq('channel', channel)
+    .gte('sent_at', since.toISOString());
+  if (error) throw error;
+  return new Set((data ?? []).map(row => row.reminder_key as string));
+};
+
+export const recordSentKeys = async (admin: SupabaseClient, userId: string, channel: string, keys: string[]) => {
+  if (keys.length === 0) return;
+  const { error } = await admin
+    .from('sent_reminders')
+    .upsert(keys.map(reminder_key => ({ user_id: userId, reminder_key, channel })));
+  if (error) throw error;
+};
+
+// With REMINDERS_TEST_MODE=true, an optional `{ "now": "<ISO date>" }` body
+// lets tests pin the clock. Otherwise the body is ignored.
+export const readRequestNow = async (req: Request): Promise<Date> => {
+  if (Deno.env.get('REMINDERS_TEST_MODE') !== 'true') return new Date();
+  try {
+    const body = await req.json();
+    if (body?.now) return new Date(body.now);
+  } catch {
+    // Empty or non-JSON body
+  }
+  return new Date();
+};
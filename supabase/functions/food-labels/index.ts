@@ -0,0 +1,83 @@
+// Signs QR labels for the caller's items and checks labels when they're scanned.
+// The HMAC key is LABEL_SIGNING_SECRET, which never leaves the server, so a
+// label can't be forged or edited by anyone who knows an item or household id.
+import { createClient } from 'npm:@supabase/supabase-js@2';
+import { bytesEqual, corsHeaders, unauthorizedResponse } from '../_shared/supabaseAdmin.ts';
+
+interface FoodLabel {
+  id: string;
+  name: string;
+  cooked: string;
+  expiry: string;
+}
+
+// 96 bits: plenty against guessing, and short enough to keep the QR code small
+const SIGNATURE_BYTES = 12;
+
+const json = (body: unknown, status = 200) =>
+  new Response(JSON.stringify(body), {
+    status,
+    headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+  });
+
+const toBase64Url = (bytes: ArrayBuffer) =>
+  btoa(String.fromCharCode(...new Uint8Array(bytes))).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+
+const signLabel = async (label: FoodLabel) => {
+  const secret = Deno.env.get('LABEL_SIGNING_SECRET');
+  if (!secret) throw new Error('LABEL_SIGNING_SECRET is not set');
+
+  const encoder = new TextEncoder();
+  const key = await crypto.subtle.importKey('raw', encoder.encode(secret), { name: 'HMAC', hash: 'SHA-256' }, false, ['sign']);
+  const message = JSON.stringify([label.id, label.name, label.cooked, label.expiry]);
+  const mac = await crypto.subtle.sign('HMAC', key, encoder.encode(message));
+  return toBase64Url(mac.slice(0, SIGNATURE_BYTES));
+};
+
+const isLabel = (value: unknown): value is FoodLabel & { sig: string } =>
+  !!value &&
+  ['id', 'name', 'cooked', 'expiry', 'sig'].every(field => typeof (value as Record<string, unknown>)[field] === 'string');
+
+Deno.serve(async (req) => {
+  if (req.method === 'OPTIONS') {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  // Runs as the caller, so row-level security decides which items they can label
+  const authorization = req.headers.get('Authorization');
+  if (!authorization) return unauthorizedResponse();
+  const supabase = createClient(Deno.env.get('SUPABASE_URL')!, Deno.env.get('SUPABASE_ANON_KEY')!, {
+    global: { headers: { Authorization: authorization } },
+    auth: { persistSession: false },
+  });
+  const { data: { user } } = await supabase.auth.getUser();
+  if (!user) return unauthorizedResponse();
+
+  try {
+    const body = await req.json();
+
+    // { "sign": "<item id>" }: the label text comes from the item, not the request
+    if (typeof body?.sign === 'string') {
+      const { data: item, error } = await supabase
+        .from('food_items')
+        .select('id, name, purchase_date, expiry_date')
+        .eq('id', body.sign)
+        .maybeSingle();
+      if (error) throw error;
+      if (!item) return json({ error: 'Item not found' }, 404);
+
+      const label = { id: item.id, name: item.name, cooked: item.purchase_date, expiry: item.expiry_date };
+      return json({ label: { ...label, sig: await signLabel(label) } });
+    }
+
+    // { "verify": <signed label> }
+    if (isLabel(body?.verify)) {
+      return json({ valid: bytesEqual(body.verify.sig, await signLabel(body.verify)) });
+    }
+
+    return json({ error: 'Expected "sign" or "verify"' }, 400);
+  } catch (error) {
+    console.error('food-labels failed:', error);
+    return json({ error: (error as Error).message }, 500);
+  }
+});
@@ -0,0 +1,80 @@
+// Scheduled job: emails the daily digest to users who opted in, at their digest time
+import {
+  corsHeaders,
+  createAdminClient,
+  isAuthorizedJobRequest,
+  loadSentKeys,
+  loadUserItems,
+  readRequestNow,
+  recordSentKeys,
+  unauthorizedResponse,
+} from '../_shared/supabaseAdmin.ts';
+import { digestKey, filterReminderItems, getLocalClock, groupForDigest, isDigestDue, ReminderPreferences } from '../_shared/reminders.ts';
+import { countDigestItems, renderDigestEmail } from '../_shared/digestEmail.ts';
+import { getMailTransport, MockMailTransport } from '../_shared/mail.ts';
+
+const CHANNEL = 'email';
+
+Deno.serve(async (req) => {
+  if (req.method === 'OPTIONS') {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  if (!isAuthorizedJobRequest(req)) {
+    return unauthorizedResponse();
+  }
+
+  try {
+    const now = await readRequestNow(req);
+    const admin = createAdminClient();
+    const transport = getMailTransport();
+    const appUrl = Deno.env.get('APP_URL') ?? 'http://localhost:8080';
+
+    const { data: preferences, error } = await admin
+      .from('user_preferences')
+      .select('*')
+      .eq('email_digest_enabled', true);
+    if (error) throw error;
+
+    let sent = 0;
+
+    for (const prefs of (preferences ?? []) as ReminderPreferences[]) {
+      if (!isDigestDue(prefs, now)) continue;
+
+      const key = digestKey(prefs, now);
+      const sentKeys = await loadSentKeys(admin, prefs.user_id, CHANNEL, now);
+      if (sentKeys.has(key)) continue;
+
+      const { data: { user } } = await admin.auth.admin.getUserById(prefs.user_id);
+      if (!user?.email) continue;
+
+      const items = filterReminderItems(await loadUserItems(admin, prefs.user_id), prefs);
+      const date = getLocalClock(now, prefs.timezone).date;
+      const groups = groupForDigest(items, date);
+      if (countDigestItems(groups) === 0) continue;
+
+      await transport.send(
+        renderDigestEmail({
+          to: user.email,
+          displayName: user.user_metadata?.display_name || user.email.split('@')[0],
+          date,
+          groups,
+          appUrl,
+        })
+      );
+      await recordSentKeys(admin, prefs.user_id, CHANNEL, [key]);
+      sent++;
+    }
+
+    const mock = 'sent' in transport ? (transport as MockMailTransport).sent : undefined;
+    return new Response(JSON.stringify({ users: preferences?.length ?? 0, sent, messages: mock }), {
+      headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+    });
+  } catch (error) {
+    console.error('send-email-digest failed:', error);
+    return new Response(JSON.stringify({ error: (error as Error).message }), {
+      status: 500,
+      headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+    });
+  }
+});
@@ -0,0 +1,98 @@
+// Scheduled job: sends before-expiry alerts and the daily digest as Web Push
+// notifications, so reminders arrive even when the app is closed.
+import {
+  corsHeaders,
+  createAdminClient,
+  isAuthorizedJobRequest,
+  loadSentKeys,
+  loadUserItems,
+  readRequestNow,
+  recordSentKeys,
+  unauthorizedResponse,
+} from '../_shared/supabaseAdmin.ts';
+import { getDueReminders, ReminderPreferences } from '../_shared/reminders.ts';
+import { getPushTransport, PushSubscriptionRow } from '../_shared/push.ts';
+
+const CHANNEL = 'push';
+
+Deno.serve(async (req) => {
+  if (req.method === 'OPTIONS') {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  if (!isAuthorizedJobRequest(req)) {
+    return unauthorizedResponse();
+  }
+
+  try {
+    const now = await readRequestNow(req);
+    const admin = createAdminClient();
+    const transport = getPushTransport();
+
+    const { data: subscriptions, error: subscriptionError } = await admin
+      .from('push_subscriptions')
+      .select('id, user_id, endpoint, p256dh, auth');
+    if (subscriptionError) throw subscriptionError;
+
+    const subscriptionsByUser = new Map<string, PushSubscriptionRow[]>();
+    (subscriptions ?? []).forEach(sub => {
+      const list = subscriptionsByUser.get(sub.user_id) ?? [];
+      list.push(sub);
+      subscriptionsByUser.set(sub.user_id, list);
+    });
+
+    const { data: preferences, error: preferencesError } = await admin
+      .from('user_preferences')
+      .select('*')
+      .eq('notifications_enabled', true)
+      .in('user_id', Array.from(subscriptionsByUser.keys()));
+    if (preferencesError) throw preferencesError;
+
+    let sent = 0;
+    let removed = 0;
+
+    for (const prefs of (preferences ?? []) as ReminderPreferences[]) {
+      const userSubscriptions = subscriptionsByUser.get(prefs.user_id) ?? [];
+      const [items, sentKeys] = await Promise.all([
+        loadUserItems(admin, prefs.user_id),
+        loadSentKeys(admin, prefs.user_id, CHANNEL, now),
+      ]);
+
+      const due = getDueReminders(items, prefs, sentKeys, now);
+      const deliveredKeys: string[] = [];
+
+      for (const reminder of due) {
+        const results = await Promise.all(
+          userSubscriptions.map(async sub => ({
+            sub,
+            result: await transport.send(sub, { title: reminder.title, body: reminder.body, tag: reminder.tag, url: '/' }),
+          }))
+        );
+
+        const gone = results.filter(r => r.result.gone).map(r => r.sub.id);
+        if (gone.length > 0) {
+          await admin.from('push_subscriptions').delete().in('id', gone);
+          removed += gone.length;
+        }
+
+        // Reached at least one device: don't send this reminder again
+        if (results.some(r => r.result.ok)) {
+          deliveredKeys.push(...reminder.keys);
+          sent++;
+        }
+      }
+
+      await recordSentKeys(admin, prefs.user_id, CHANNEL, deliveredKeys);
+    }
+
+    return new Response(JSON.stringify({ users: preferences?.length ?? 0, sent, removed }), {
+      headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+    });
+  } catch (error) {
+    console.error('send-reminders failed:', error);
+    return new Response(JSON.stringify({ error: (error as Error).message }), {
+      status: 500,
+      headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+    });
+  }
+});
@@ -0,0 +1,273 @@
+-- Households let several users share one inventory
+CREATE TYPE public.household_role AS ENUM ('owner', 'editor', 'viewer');
+
+CREATE TABLE public.households (
+  id uuid NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  name text NOT NULL,
+  invite_code text NOT NULL UNIQUE DEFAULT upper(substr(md5(gen_random_uuid()::text), 1, 8)),
+  created_by uuid NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  created_at timestamp with time zone NOT NULL DEFAULT now(),
+  updated_at timestamp with time zone NOT NULL DEFAULT now()
+);
+
+-- A user belongs to at most one household at a time
+CREATE TABLE public.household_members (
+  id uuid NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  household_id uuid NOT NULL REFERENCES public.households(id) ON DELETE CASCADE,
+  user_id uuid NOT NULL UNIQUE REFERENCES auth.users(id) ON DELETE CASCADE,
+  role public.household_role NOT NULL DEFAULT 'editor',
+  email text,
+  display_name text,
+  created_at timestamp with time zone NOT NULL DEFAULT now()
+);
+
+CREATE TABLE public.household_invites (
+  id uuid NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  household_id uuid NOT NULL REFERENCES public.households(id) ON DELETE CASCADE,
+  email text NOT NULL,
+  role public.household_role NOT NULL DEFAULT 'editor',
+  invited_by uuid NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  accepted_at timestamp with time zone,
+  created_at timestamp with time zone NOT NULL DEFAULT now(),
+  UNIQUE (household_id, email)
+);
+
+ALTER TABLE public.food_items
+  ADD COLUMN household_id uuid REFERENCES public.households(id) ON DELETE SET NULL;
+
+CREATE INDEX idx_food_items_household_id ON public.food_items(household_id);
+CREATE INDEX idx_household_members_household_id ON public.household_members(household_id);
+CREATE INDEX idx_household_invites_email ON public.household_invites(lower(email));
+
+-- Role lookups run as definer so policies on household_members don't recurse
+CREATE OR REPLACE FUNCTION public.get_household_role(_household_id uuid)
+RETURNS public.household_role AS $$
+  SELECT role FROM public.household_members
+  WHERE household_id = _household_id AND user_id = auth.uid();
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
+
+CREATE OR REPLACE FUNCTION public.is_household_member(_household_id uuid)
+RETURNS boolean AS $$
+  SELECT public.get_household_role(_household_id) IS NOT NULL;
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
+
+CREATE OR REPLACE FUNCTION public.can_edit_household(_household_id uuid)
+RETURNS boolean AS $$
+  SELECT coalesce(public.get_household_role(_household_id) IN ('owner', 'editor'), false);
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
+
+-- Enable RLS
+ALTER TABLE public.households ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.household_members ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.household_invites ENABLE ROW LEVEL SECURITY;
+
+-- Households: members see their household, invitees see the one they were invited to
+CREATE POLICY "Members can view their household"
+  ON public.households FOR SELECT
+  USING (
+    public.is_household_member(id)
+    OR EXISTS (
+      SELECT 1 FROM public.household_invites i
+      WHERE i.household_id = households.id
+        AND i.accepted_at IS NULL
+        AND lower(i.email) = lower(auth.jwt() ->> 'email')
+    )
+  );
+
+CREATE POLICY "Owners can update their household"
+  ON public.households FOR UPDATE
+  USING (public.get_household_role(id) = 'owner');
+
+CREATE POLICY "Owners can delete their household"
+  ON public.households FOR DELETE
+  USING (public.get_household_role(id) = 'owner');
+
+-- Members
+CREATE POLICY "Members can view fellow members"
+  ON public.household_members FOR SELECT
+  USING (public.is_household_member(household_id));
+
+CREATE POLICY "Owners can change member roles"
+  ON public.household_members FOR UPDATE
+  USING (public.get_household_role(household_id) = 'owner');
+
+CREATE POLICY "Members can leave and owners can remove members"
+  ON public.household_members FOR DELETE
+  USING (auth.uid() = user_id OR public.get_household_role(household_id) = 'owner');
+
+-- Invites
+CREATE POLICY "Members and invitees can view invites"
+  ON public.household_invites FOR SELECT
+  USING (
+    public.is_household_member(household_id)
+    OR lower(email) = lower(auth.jwt() ->> 'email')
+  );
+
+CREATE POLICY "Owners can create invites"
+  ON public.household_invites FOR INSERT
+  WITH CHECK (auth.uid() = invited_by AND public.get_household_role(household_id) = 'owner');
+
+CREATE POLICY "Owners and invitees can delete invites"
+  ON public.household_invites FOR DELETE
+  USING (
+    public.get_household_role(household_id) = 'owner'
+    OR lower(email) = lower(auth.jwt() ->> 'email')
+  );
+
+-- Food items: personal items stay private, household items are shared by role
+DROP POLICY "Users can view their own food items" ON public.food_items;
+DROP POLICY "Users can insert their own food items" ON public.food_items;
+DROP POLICY "Users can update their own food items" ON public.food_items;
+DROP POLICY "Users can delete their own food items" ON public.food_items;
+
+CREATE POLICY "Users can view own and household food items"
+  ON public.food_items FOR SELECT
+  USING (
+    (household_id IS NULL AND auth.uid() = user_id)
+    OR (household_id IS NOT NULL AND public.is_household_member(household_id))
+  );
+
+CREATE POLICY "Users can insert own and household food items"
+  ON public.food_items FOR INSERT
+  WITH CHECK (
+    auth.uid() = user_id
+    AND (household_id IS NULL OR public.can_edit_household(household_id))
+  );
+
+CREATE POLICY "Users can update own and household food items"
+  ON public.food_items FOR UPDATE
+  USING (
+    (household_id IS NULL AND auth.uid() = user_id)
+    OR (household_id IS NOT NULL AND public.can_edit_household(household_id))
+  );
+
+CREATE POLICY "Users can delete own and household food items"
+  ON public.food_items FOR DELETE
+  USING (
+    (household_id IS NULL AND auth.uid() = user_id)
+    OR (household_id IS NOT NULL AND public.can_edit_household(household_id))
+  );
+
+-- Adds the current user to a household and moves their personal items into it
+CREATE OR REPLACE FUNCTION public.add_current_user_to_household(_household_id uuid, _role public.household_role)
+RETURNS void AS $$
+BEGIN
+  IF EXISTS (SELECT 1 FROM public.household_members WHERE user_id = auth.uid()) THEN
+    RAISE EXCEPTION 'You already belong to a household. Leave it first.';
+  END IF;
+
+  INSERT INTO public.household_members (household_id, user_id, role, email, display_name)
+  VALUES (
+    _household_id,
+    auth.uid(),
+    _role,
+    auth.jwt() ->> 'email',
+    auth.jwt() -> 'user_metadata' ->> 'display_name'
+  );
+
+  UPDATE public.food_items
+  SET household_id = _household_id
+  WHERE user_id = auth.uid() AND household_id IS NULL;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+REVOKE EXECUTE ON FUNCTION public.add_current_user_to_household(uuid, public.household_role) FROM PUBLIC, anon, authenticated;
+
+CREATE OR REPLACE FUNCTION public.create_household(_name text)
+RETURNS public.households AS $$
+DECLARE
+  _household public.households;
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  INSERT INTO public.households (name, created_by)
+  VALUES (coalesce(nullif(trim(_name), ''), 'My Household'), auth.uid())
+  RETURNING * INTO _household;
+
+  PERFORM public.add_current_user_to_household(_household.id, 'owner');
+  RETURN _household;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+CREATE OR REPLACE FUNCTION public.join_household(_invite_code text)
+RETURNS public.households AS $$
+DECLARE
+  _household public.households;
+BEGIN
+  SELECT * INTO _household FROM public.households
+  WHERE invite_code = upper(trim(_invite_code));
+
+  IF _household.id IS NULL THEN
+    RAISE EXCEPTION 'No household found for this invite code';
+  END IF;
+
+  PERFORM public.add_current_user_to_household(_household.id, 'editor');
+  RETURN _household;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+CREATE OR REPLACE FUNCTION public.accept_household_invite(_invite_id uuid)
+RETURNS public.households AS $$
+DECLARE
+  _invite public.household_invites;
+  _household public.households;
+BEGIN
+  SELECT * INTO _invite FROM public.household_invites
+  WHERE id = _invite_id
+    AND accepted_at IS NULL
+    AND lower(email) = lower(auth.jwt() ->> 'email');
+
+  IF _invite.id IS NULL THEN
+    RAISE EXCEPTION 'Invite not found or already used';
+  END IF;
+
+  PERFORM public.add_current_user_to_household(_invite.household_id, _invite.role);
+
+  UPDATE public.household_invites SET accepted_at = now() WHERE id = _invite.id;
+
+  SELECT * INTO _household FROM public.households WHERE id = _invite.household_id;
+  RETURN _household;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+CREATE OR REPLACE FUNCTION public.leave_household()
+RETURNS void AS $$
+DECLARE
+  _member public.household_members;
+BEGIN
+  SELECT * INTO _member FROM public.household_members WHERE user_id = auth.uid();
+
+  IF _member.id IS NULL THEN
+    RETURN;
+  END IF;
+
+  IF _member.role = 'owner'
+    AND NOT EXISTS (
+      SELECT 1 FROM public.household_members
+      WHERE household_id = _member.household_id AND user_id <> auth.uid() AND role = 'owner'
+    )
+    AND EXISTS (
+      SELECT 1 FROM public.household_members
+      WHERE household_id = _member.household_id AND user_id <> auth.uid()
+    )
+  THEN
+    RAISE EXCEPTION 'Make another member an owner before leaving';
+  END IF;
+
+  DELETE FROM public.household_members WHERE id = _member.id;
+
+  -- The last member leaving takes the items back and removes the household
+  IF NOT EXISTS (SELECT 1 FROM public.household_members WHERE household_id = _member.household_id) THEN
+    UPDATE public.food_items SET household_id = NULL WHERE household_id = _member.household_id;
+    DELETE FROM public.households WHERE id = _member.household_id;
+  END IF;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- Trigger for automatic timestamp updates
+CREATE TRIGGER update_households_updated_at
+  BEFORE UPDATE ON public.households
+  FOR EACH ROW
+  EXECUTE FUNCTION public.update_updated_at_column();
@@ -0,0 +1,37 @@
+-- Per-user notification and reminder preferences
+CREATE TABLE public.user_preferences (
+  user_id uuid NOT NULL PRIMARY KEY REFERENCES auth.users(id) ON DELETE CASCADE,
+  notifications_enabled boolean NOT NULL DEFAULT false,
+  enable_daily_digest boolean NOT NULL DEFAULT true,
+  digest_time text NOT NULL DEFAULT '09:00',
+  reminder_1_day boolean NOT NULL DEFAULT true,
+  reminder_3_days boolean NOT NULL DEFAULT true,
+  reminder_7_days boolean NOT NULL DEFAULT false,
+  enable_category_reminders boolean NOT NULL DEFAULT true,
+  categories text[] NOT NULL DEFAULT ARRAY['Dairy', 'Vegetables', 'Fruits', 'Meat'],
+  created_at timestamp with time zone NOT NULL DEFAULT now(),
+  updated_at timestamp with time zone NOT NULL DEFAULT now(),
+  CONSTRAINT user_preferences_digest_time_format CHECK (digest_time ~ '^([01][0-9]|2[0-3]):[0-5][0-9]$')
+);
+
+-- Enable RLS
+ALTER TABLE public.user_preferences ENABLE ROW LEVEL SECURITY;
+
+-- RLS policies
+CREATE POLICY "Users can view their own preferences"
+  ON public.user_preferences FOR SELECT
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can insert their own preferences"
+  ON public.user_preferences FOR INSERT
+  WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can update their own preferences"
+  ON public.user_preferences FOR UPDATE
+  USING (auth.uid() = user_id);
+
+-- Trigger for automatic timestamp updates
+CREATE TRIGGER update_user_preferences_updated_at
+  BEFORE UPDATE ON public.user_preferences
+  FOR EACH ROW
+  EXECUTE FUNCTION public.update_updated_at_column();
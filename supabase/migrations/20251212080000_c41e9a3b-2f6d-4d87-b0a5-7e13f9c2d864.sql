@@ -0,0 +1,88 @@
+-- Local timezone lets the scheduled job send the digest at the user's digest_time
+ALTER TABLE public.user_preferences
+  ADD COLUMN timezone text NOT NULL DEFAULT 'UTC';
+
+-- Web Push subscriptions, one per browser/device
+CREATE TABLE public.push_subscriptions (
+  id uuid NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  user_id uuid NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  endpoint text NOT NULL UNIQUE,
+  p256dh text NOT NULL,
+  auth text NOT NULL,
+  user_agent text,
+  created_at timestamp with time zone NOT NULL DEFAULT now(),
+  updated_at timestamp with time zone NOT NULL DEFAULT now()
+);
+
+CREATE INDEX idx_push_subscriptions_user_id ON public.push_subscriptions(user_id);
+
+-- Reminders already delivered by the scheduled job, so each one is sent once per channel
+CREATE TABLE public.sent_reminders (
+  user_id uuid NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  reminder_key text NOT NULL,
+  channel text NOT NULL DEFAULT 'push',
+  sent_at timestamp with time zone NOT NULL DEFAULT now(),
+  PRIMARY KEY (user_id, reminder_key, channel)
+);
+
+-- Enable RLS
+ALTER TABLE public.push_subscriptions ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.sent_reminders ENABLE ROW LEVEL SECURITY;
+
+-- RLS policies (sent_reminders is only touched by the service role)
+CREATE POLICY "Users can view their own push subscriptions"
+  ON public.push_subscriptions FOR SELECT
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can delete their own push subscriptions"
+  ON public.push_subscriptions FOR DELETE
+  USING (auth.uid() = user_id);
+
+-- A browser endpoint moves to whoever subscribed with it last (e.g. a shared laptop)
+CREATE OR REPLACE FUNCTION public.save_push_subscription(
+  _endpoint text,
+  _p256dh text,
+  _auth text,
+  _user_agent text
+)
+RETURNS void AS $$
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  INSERT INTO public.push_subscriptions (user_id, endpoint, p256dh, auth, user_agent)
+  VALUES (auth.uid(), _endpoint, _p256dh, _auth, _user_agent)
+  ON CONFLICT (endpoint) DO UPDATE
+  SET user_id = EXCLUDED.user_id,
+      p256dh = EXCLUDED.p256dh,
+      auth = EXCLUDED.auth,
+      user_agent = EXCLUDED.user_agent;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- Trigger for automatic timestamp updates
+CREATE TRIGGER update_push_subscriptions_updated_at
+  BEFORE UPDATE ON public.push_subscriptions
+  FOR EACH ROW
+  EXECUTE FUNCTION public.update_updated_at_column();
+
+-- Run the send-reminders edge function every 15 minutes.
+-- Expects `project_url` and `service_role_key` secrets in Supabase Vault.
+CREATE EXTENSION IF NOT EXISTS pg_cron;
+CREATE EXTENSION IF NOT EXISTS pg_net;
+
+SELECT cron.schedule(
+  'send-expiry-reminders',
+  '*/15 * * * *',
+  $$
+  SELECT net.http_post(
+    url := (SELECT decrypted_secret FROM vault.decrypted_secrets WHERE name = 'project_url') || '/functions/v1/send-reminders',
+    headers := jsonb_build_object(
+      'Content-Type', 'application/json',
+      'Authorization', 'Bearer ' || (SELECT decrypted_secret FROM vault.decrypted_secrets WHERE name = 'service_role_key')
+    ),
+    body := '{}'::jsonb
+  );
+  $$
+);
@@ -0,0 +1,20 @@
+-- Opt-in email version of the daily digest
+ALTER TABLE public.user_preferences
+  ADD COLUMN email_digest_enabled boolean NOT NULL DEFAULT false;
+
+-- Run the send-email-digest edge function every 15 minutes.
+-- Uses the same Vault secrets as send-expiry-reminders.
+SELECT cron.schedule(
+  'send-email-digest',
+  '*/15 * * * *',
+  $$
+  SELECT net.http_post(
+    url := (SELECT decrypted_secret FROM vault.decrypted_secrets WHERE name = 'project_url') || '/functions/v1/send-email-digest',
+    headers := jsonb_build_object(
+      'Content-Type', 'application/json',
+      'Authorization', 'Bearer ' || (SELECT decrypted_secret FROM vault.decrypted_secrets WHERE name = 'service_role_key')
+    ),
+    body := '{}'::jsonb
+  );
+  $$
+);
@@ -0,0 +1,79 @@
+-- History of how much of an item was used, when, and by whom
+CREATE TABLE public.consumption_events (
+  id uuid NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  food_item_id uuid REFERENCES public.food_items(id) ON DELETE SET NULL,
+  household_id uuid REFERENCES public.households(id) ON DELETE SET NULL,
+  user_id uuid NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  -- Snapshot so history survives the item being deleted
+  item_name text NOT NULL,
+  category text,
+  amount integer NOT NULL CHECK (amount > 0),
+  consumed_at timestamp with time zone NOT NULL DEFAULT now(),
+  created_at timestamp with time zone NOT NULL DEFAULT now()
+);
+
+CREATE INDEX idx_consumption_events_food_item_id ON public.consumption_events(food_item_id);
+CREATE INDEX idx_consumption_events_consumed_at ON public.consumption_events(consumed_at);
+
+-- Enable RLS
+ALTER TABLE public.consumption_events ENABLE ROW LEVEL SECURITY;
+
+-- Same visibility rules as food_items
+CREATE POLICY "Users can view own and household consumption events"
+  ON public.consumption_events FOR SELECT
+  USING (
+    (household_id IS NULL AND auth.uid() = user_id)
+    OR (household_id IS NOT NULL AND public.is_household_member(household_id))
+  );
+
+CREATE POLICY "Users can record own and household consumption events"
+  ON public.consumption_events FOR INSERT
+  WITH CHECK (
+    auth.uid() = user_id
+    AND (household_id IS NULL OR public.can_edit_household(household_id))
+  );
+
+-- Uses up part of an item: decrements quantity, records the event and only
+-- marks the item consumed once nothing is left. Replaying the same _event_id is a no-op.
+CREATE OR REPLACE FUNCTION public.consume_food_item(
+  _item_id uuid,
+  _amount integer,
+  _event_id uuid DEFAULT gen_random_uuid(),
+  _consumed_at timestamp with time zone DEFAULT now()
+)
+RETURNS public.food_items AS $$
+DECLARE
+  _item public.food_items;
+  _used integer;
+BEGIN
+  IF _amount IS NULL OR _amount <= 0 THEN
+    RAISE EXCEPTION 'Amount must be positive';
+  END IF;
+
+  IF EXISTS (SELECT 1 FROM public.consumption_events WHERE id = _event_id) THEN
+    SELECT * INTO _item FROM public.food_items WHERE id = _item_id;
+    RETURN _item;
+  END IF;
+
+  SELECT * INTO _item FROM public.food_items WHERE id = _item_id FOR UPDATE;
+  IF _item.id IS NULL THEN
+    RAISE EXCEPTION 'Item not found';
+  END IF;
+
+  _used := least(_amount, coalesce(_item.quantity, 0));
+  IF _used <= 0 THEN
+    RAISE EXCEPTION '% has already been used up', _item.name;
+  END IF;
+
+  UPDATE public.food_items
+  SET quantity = coalesce(quantity, 0) - _used,
+      is_consumed = coalesce(quantity, 0) - _used <= 0
+  WHERE id = _item_id
+  RETURNING * INTO _item;
+
+  INSERT INTO public.consumption_events (id, food_item_id, household_id, user_id, item_name, category, amount, consumed_at)
+  VALUES (_event_id, _item.id, _item.household_id, auth.uid(), _item.name, _item.category, _used, _consumed_at);
+
+  RETURN _item;
+END;
+$$ LANGUAGE plpgsql SET search_path = public;
@@ -0,0 +1,97 @@
+-- Why food was thrown away, so waste can be tracked and reduced
+CREATE TYPE public.waste_reason AS ENUM ('spoiled', 'expired', 'forgot', 'too_much');
+
+-- History of discarded food; kept even after the item itself is gone
+CREATE TABLE public.waste_events (
+  id uuid NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  food_item_id uuid REFERENCES public.food_items(id) ON DELETE SET NULL,
+  household_id uuid REFERENCES public.households(id) ON DELETE SET NULL,
+  user_id uuid NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  -- Snapshot so history survives the item being deleted
+  item_name text NOT NULL,
+  category text,
+  purchase_date date,
+  expiry_date date,
+  reason public.waste_reason NOT NULL,
+  amount integer NOT NULL CHECK (amount > 0),
+  estimated_cost numeric(10, 2) CHECK (estimated_cost IS NULL OR estimated_cost >= 0),
+  discarded_at timestamp with time zone NOT NULL DEFAULT now(),
+  created_at timestamp with time zone NOT NULL DEFAULT now()
+);
+
+CREATE INDEX idx_waste_events_food_item_id ON public.waste_events(food_item_id);
+CREATE INDEX idx_waste_events_discarded_at ON public.waste_events(discarded_at);
+
+-- Enable RLS
+ALTER TABLE public.waste_events ENABLE ROW LEVEL SECURITY;
+
+-- Same visibility rules as food_items
+CREATE POLICY "Users can view own and household waste events"
+  ON public.waste_events FOR SELECT
+  USING (
+    (household_id IS NULL AND auth.uid() = user_id)
+    OR (household_id IS NOT NULL AND public.is_household_member(household_id))
+  );
+
+CREATE POLICY "Users can record own and household waste events"
+  ON public.waste_events FOR INSERT
+  WITH CHECK (
+    auth.uid() = user_id
+    AND (household_id IS NULL OR public.can_edit_household(household_id))
+  );
+
+-- Throws away part or all of an item and logs why. The item is removed once
+-- nothing is left; the log keeps a snapshot. Replaying the same _event_id is a no-op.
+CREATE OR REPLACE FUNCTION public.discard_food_item(
+  _item_id uuid,
+  _amount integer,
+  _reason public.waste_reason,
+  _estimated_cost numeric DEFAULT NULL,
+  _event_id uuid DEFAULT gen_random_uuid(),
+  _discarded_at timestamp with time zone DEFAULT now()
+)
+RETURNS public.food_items AS $$
+DECLARE
+  _item public.food_items;
+  _discarded integer;
+BEGIN
+  IF _amount IS NULL OR _amount <= 0 THEN
+    RAISE EXCEPTION 'Amount must be positive';
+  END IF;
+
+  IF EXISTS (SELECT 1 FROM public.waste_events WHERE id = _event_id) THEN
+    SELECT * INTO _item FROM public.food_items WHERE id = _item_id;
+    RETURN _item;
+  END IF;
+
+  SELECT * INTO _item FROM public.food_items WHERE id = _item_id FOR UPDATE;
+  IF _item.id IS NULL THEN
+    RAISE EXCEPTION 'Item not found';
+  END IF;
+
+  _discarded := least(_amount, coalesce(_item.quantity, 0));
+  IF _discarded <= 0 THEN
+    RAISE EXCEPTION '% has nothing left to discard', _item.name;
+  END IF;
+
+  INSERT INTO public.waste_events (
+    id, food_item_id, household_id, user_id, item_name, category,
+    purchase_date, expiry_date, reason, amount, estimated_cost, discarded_at
+  )
+  VALUES (
+    _event_id, _item.id, _item.household_id, auth.uid(), _item.name, _item.category,
+    _item.purchase_date, _item.expiry_date, _reason, _discarded, _estimated_cost, _discarded_at
+  );
+
+  IF coalesce(_item.quantity, 0) - _discarded <= 0 THEN
+    DELETE FROM public.food_items WHERE id = _item_id RETURNING * INTO _item;
+  ELSE
+    UPDATE public.food_items
+    SET quantity = quantity - _discarded
+    WHERE id = _item_id
+    RETURNING * INTO _item;
+  END IF;
+
+  RETURN _item;
+END;
+$$ LANGUAGE plpgsql SET search_path = public;
@@ -0,0 +1,67 @@
+-- Prices so waste and value at risk can be measured in money.
+-- unit_price is the price of one unit; total_price is what was paid for the
+-- whole purchase, which stays fixed as the quantity is used up.
+ALTER TABLE public.food_items
+  ADD COLUMN unit_price numeric(10, 2) CHECK (unit_price IS NULL OR unit_price >= 0),
+  ADD COLUMN total_price numeric(10, 2) CHECK (total_price IS NULL OR total_price >= 0),
+  ADD COLUMN currency text NOT NULL DEFAULT 'INR' CHECK (currency ~ '^[A-Z]{3}$');
+
+ALTER TABLE public.waste_events
+  ADD COLUMN currency text NOT NULL DEFAULT 'INR' CHECK (currency ~ '^[A-Z]{3}$');
+
+-- Same as before, but the cost defaults to the item's unit price times the
+-- amount thrown away, and is recorded in the item's currency
+CREATE OR REPLACE FUNCTION public.discard_food_item(
+  _item_id uuid,
+  _amount integer,
+  _reason public.waste_reason,
+  _estimated_cost numeric DEFAULT NULL,
+  _event_id uuid DEFAULT gen_random_uuid(),
+  _discarded_at timestamp with time zone DEFAULT now()
+)
+RETURNS public.food_items AS $$
+DECLARE
+  _item public.food_items;
+  _discarded integer;
+BEGIN
+  IF _amount IS NULL OR _amount <= 0 THEN
+    RAISE EXCEPTION 'Amount must be positive';
+  END IF;
+
+  IF EXISTS (SELECT 1 FROM public.waste_events WHERE id = _event_id) THEN
+    SELECT * INTO _item FROM public.food_items WHERE id = _item_id;
+    RETURN _item;
+  END IF;
+
+  SELECT * INTO _item FROM public.food_items WHERE id = _item_id FOR UPDATE;
+  IF _item.id IS NULL THEN
+    RAISE EXCEPTION 'Item not found';
+  END IF;
+
+  _discarded := least(_amount, coalesce(_item.quantity, 0));
+  IF _discarded <= 0 THEN
+    RAISE EXCEPTION '% has nothing left to discard', _item.name;
+  END IF;
+
+  INSERT INTO public.waste_events (
+    id, food_item_id, household_id, user_id, item_name, category,
+    purchase_date, expiry_date, reason, amount, estimated_cost, currency, discarded_at
+  )
+  VALUES (
+    _event_id, _item.id, _item.household_id, auth.uid(), _item.name, _item.category,
+    _item.purchase_date, _item.expiry_date, _reason, _discarded,
+    coalesce(_estimated_cost, _item.unit_price * _discarded), _item.currency, _discarded_at
+  );
+
+  IF coalesce(_item.quantity, 0) - _discarded <= 0 THEN
+    DELETE FROM public.food_items WHERE id = _item_id RETURNING * INTO _item;
+  ELSE
+    UPDATE public.food_items
+    SET quantity = quantity - _discarded
+    WHERE id = _item_id
+    RETURNING * INTO _item;
+  END IF;
+
+  RETURN _item;
+END;
+$$ LANGUAGE plpgsql SET search_path = public;
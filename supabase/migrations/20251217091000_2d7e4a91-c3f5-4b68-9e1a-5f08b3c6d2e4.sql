@@ -0,0 +1,57 @@
+-- Where an item is kept; rules and items can be specific to one
+CREATE TYPE public.storage_location AS ENUM ('fridge', 'freezer', 'pantry');
+
+-- Expiry rules added by users, applied on top of the built-in ones.
+-- Household rules are shared with every member, like household food items.
+CREATE TABLE public.custom_expiry_rules (
+  id uuid NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  user_id uuid NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  household_id uuid REFERENCES public.households(id) ON DELETE CASCADE,
+  keywords text[] NOT NULL CHECK (cardinality(keywords) > 0),
+  days_until_expiry integer NOT NULL CHECK (days_until_expiry > 0),
+  category text NOT NULL DEFAULT 'Other',
+  storage_location public.storage_location,
+  created_at timestamp with time zone NOT NULL DEFAULT now(),
+  updated_at timestamp with time zone NOT NULL DEFAULT now()
+);
+
+CREATE INDEX idx_custom_expiry_rules_user_id ON public.custom_expiry_rules(user_id);
+CREATE INDEX idx_custom_expiry_rules_household_id ON public.custom_expiry_rules(household_id);
+
+-- Enable RLS
+ALTER TABLE public.custom_expiry_rules ENABLE ROW LEVEL SECURITY;
+
+-- Same visibility rules as food_items
+CREATE POLICY "Users can view own and household expiry rules"
+  ON public.custom_expiry_rules FOR SELECT
+  USING (
+    (household_id IS NULL AND auth.uid() = user_id)
+    OR (household_id IS NOT NULL AND public.is_household_member(household_id))
+  );
+
+CREATE POLICY "Users can insert own and household expiry rules"
+  ON public.custom_expiry_rules FOR INSERT
+  WITH CHECK (
+    auth.uid() = user_id
+    AND (household_id IS NULL OR public.can_edit_household(household_id))
+  );
+
+CREATE POLICY "Users can update own and household expiry rules"
+  ON public.custom_expiry_rules FOR UPDATE
+  USING (
+    (household_id IS NULL AND auth.uid() = user_id)
+    OR (household_id IS NOT NULL AND public.can_edit_household(household_id))
+  );
+
+CREATE POLICY "Users can delete own and household expiry rules"
+  ON public.custom_expiry_rules FOR DELETE
+  USING (
+    (household_id IS NULL AND auth.uid() = user_id)
+    OR (household_id IS NOT NULL AND public.can_edit_household(household_id))
+  );
+
+-- Trigger for automatic timestamp updates
+CREATE TRIGGER update_custom_expiry_rules_updated_at
+  BEFORE UPDATE ON public.custom_expiry_rules
+  FOR EACH ROW
+  EXECUTE FUNCTION public.update_updated_at_column();
@@ -0,0 +1,9 @@
+-- Where each item is kept; expiry depends on it (chicken lasts days in the
+-- fridge but months in the freezer)
+ALTER TABLE public.food_items
+  ADD COLUMN storage_location public.storage_location NOT NULL DEFAULT 'fridge';
+
+-- Bread and cakes are usually kept out of the fridge
+UPDATE public.food_items SET storage_location = 'pantry' WHERE category = 'Bakery';
+
+CREATE INDEX idx_food_items_storage_location ON public.food_items(storage_location);
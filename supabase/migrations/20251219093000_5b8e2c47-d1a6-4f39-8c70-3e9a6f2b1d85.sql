@@ -0,0 +1,111 @@
+-- Freezing pauses an item's expiry clock; thawing starts a short new one
+CREATE TYPE public.freeze_state AS ENUM ('fresh', 'frozen', 'thawed');
+
+ALTER TABLE public.food_items
+  ADD COLUMN freeze_state public.freeze_state NOT NULL DEFAULT 'fresh',
+  ADD COLUMN frozen_at timestamp with time zone,
+  ADD COLUMN thawed_at timestamp with time zone,
+  -- Fresh shelf life that was left when the item went into the freezer
+  ADD COLUMN days_left_when_frozen integer CHECK (days_left_when_frozen IS NULL OR days_left_when_frozen >= 0);
+
+-- History of freezing and thawing, so each item shows when it changed state
+CREATE TABLE public.freeze_events (
+  id uuid NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  food_item_id uuid REFERENCES public.food_items(id) ON DELETE CASCADE,
+  household_id uuid REFERENCES public.households(id) ON DELETE SET NULL,
+  user_id uuid NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  item_name text NOT NULL,
+  from_state public.freeze_state NOT NULL,
+  to_state public.freeze_state NOT NULL,
+  -- Expiry before and after the change
+  previous_expiry_date date,
+  expiry_date date NOT NULL,
+  occurred_at timestamp with time zone NOT NULL DEFAULT now(),
+  created_at timestamp with time zone NOT NULL DEFAULT now()
+);
+
+CREATE INDEX idx_freeze_events_food_item_id ON public.freeze_events(food_item_id);
+CREATE INDEX idx_freeze_events_occurred_at ON public.freeze_events(occurred_at);
+
+-- Enable RLS
+ALTER TABLE public.freeze_events ENABLE ROW LEVEL SECURITY;
+
+-- Same visibility rules as food_items
+CREATE POLICY "Users can view own and household freeze events"
+  ON public.freeze_events FOR SELECT
+  USING (
+    (household_id IS NULL AND auth.uid() = user_id)
+    OR (household_id IS NOT NULL AND public.is_household_member(household_id))
+  );
+
+CREATE POLICY "Users can record own and household freeze events"
+  ON public.freeze_events FOR INSERT
+  WITH CHECK (
+    auth.uid() = user_id
+    AND (household_id IS NULL OR public.can_edit_household(household_id))
+  );
+
+-- Freezes or thaws an item and logs the change. The client works out the new
+-- expiry from its shelf-life rules. Frozen items move to the freezer and
+-- thawed ones to the fridge. Replaying the same _event_id is a no-op.
+CREATE OR REPLACE FUNCTION public.set_freeze_state(
+  _item_id uuid,
+  _state public.freeze_state,
+  _expiry_date date,
+  _event_id uuid DEFAULT gen_random_uuid(),
+  _occurred_at timestamp with time zone DEFAULT now()
+)
+RETURNS public.food_items AS $$
+DECLARE
+  _item public.food_items;
+  _previous public.food_items;
+BEGIN
+  IF EXISTS (SELECT 1 FROM public.freeze_events WHERE id = _event_id) THEN
+    SELECT * INTO _item FROM public.food_items WHERE id = _item_id;
+    RETURN _item;
+  END IF;
+
+  SELECT * INTO _previous FROM public.food_items WHERE id = _item_id FOR UPDATE;
+  IF _previous.id IS NULL THEN
+    RAISE EXCEPTION 'Item not found';
+  END IF;
+
+  IF _state = 'frozen' AND _previous.freeze_state <> 'fresh' THEN
+    RAISE EXCEPTION '% has already been frozen once', _previous.name;
+  ELSIF _state = 'thawed' AND _previous.freeze_state <> 'frozen' THEN
+    RAISE EXCEPTION '% is not frozen', _previous.name;
+  ELSIF _state = 'fresh' THEN
+    RAISE EXCEPTION 'Items cannot go back to fresh';
+  END IF;
+
+  IF _state = 'frozen' THEN
+    UPDATE public.food_items
+    SET freeze_state = 'frozen',
+        storage_location = 'freezer',
+        frozen_at = _occurred_at,
+        days_left_when_frozen = greatest(expiry_date - (_occurred_at AT TIME ZONE 'UTC')::date, 0),
+        expiry_date = _expiry_date
+    WHERE id = _item_id
+    RETURNING * INTO _item;
+  ELSE
+    UPDATE public.food_items
+    SET freeze_state = 'thawed',
+        storage_location = 'fridge',
+        thawed_at = _occurred_at,
+        expiry_date = _expiry_date
+    WHERE id = _item_id
+    RETURNING * INTO _item;
+  END IF;
+
+  INSERT INTO public.freeze_events (
+    id, food_item_id, household_id, user_id, item_name,
+    from_state, to_state, previous_expiry_date, expiry_date, occurred_at
+  )
+  VALUES (
+    _event_id, _item.id, _item.household_id, auth.uid(), _item.name,
+    _previous.freeze_state, _state, _previous.expiry_date, _expiry_date, _occurred_at
+  );
+
+  RETURN _item;
+END;
+$$ LANGUAGE plpgsql SET search_path = public;
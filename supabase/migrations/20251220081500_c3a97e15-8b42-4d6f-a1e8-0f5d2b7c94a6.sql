@@ -0,0 +1,9 @@
+-- Many foods keep until the printed date but only weeks once opened
+ALTER TABLE public.food_items
+  ADD COLUMN opened_at timestamp with time zone,
+  -- The date on the pack, kept once opening brings expiry_date forward
+  ADD COLUMN printed_expiry_date date;
+
+-- How long items matching the rule keep once opened
+ALTER TABLE public.custom_expiry_rules
+  ADD COLUMN days_after_opening integer CHECK (days_after_opening IS NULL OR days_after_opening > 0);
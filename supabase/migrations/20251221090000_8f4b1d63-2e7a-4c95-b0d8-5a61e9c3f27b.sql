@@ -0,0 +1,38 @@
+-- Products known by barcode, shared by everyone so each scan teaches the catalog
+CREATE TABLE public.products (
+  -- GTIN-14, i.e. EAN-13/UPC-A/EAN-8 codes zero-padded to 14 digits
+  gtin text NOT NULL PRIMARY KEY CHECK (gtin ~ '^[0-9]{14}$'),
+  name text NOT NULL,
+  brand text,
+  category text NOT NULL DEFAULT 'Other',
+  -- Null to fall back to the expiry rules
+  shelf_life_days integer CHECK (shelf_life_days IS NULL OR shelf_life_days > 0),
+  image_url text,
+  created_by uuid REFERENCES auth.users(id) ON DELETE SET NULL,
+  created_at timestamp with time zone NOT NULL DEFAULT now(),
+  updated_at timestamp with time zone NOT NULL DEFAULT now()
+);
+
+-- Enable RLS
+ALTER TABLE public.products ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Signed-in users can look up products"
+  ON public.products FOR SELECT
+  TO authenticated
+  USING (true);
+
+CREATE POLICY "Signed-in users can add products"
+  ON public.products FOR INSERT
+  TO authenticated
+  WITH CHECK (auth.uid() = created_by);
+
+-- Only whoever taught a product can correct it
+CREATE POLICY "Users can update products they added"
+  ON public.products FOR UPDATE
+  TO authenticated
+  USING (auth.uid() = created_by);
+
+CREATE TRIGGER update_products_updated_at
+  BEFORE UPDATE ON public.products
+  FOR EACH ROW
+  EXECUTE FUNCTION public.update_updated_at_column();
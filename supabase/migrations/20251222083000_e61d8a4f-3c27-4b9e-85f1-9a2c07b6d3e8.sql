@@ -0,0 +1,3 @@
+-- Batch or lot number read from GS1 barcodes, for matching product recalls
+ALTER TABLE public.food_items
+  ADD COLUMN lot_number text;
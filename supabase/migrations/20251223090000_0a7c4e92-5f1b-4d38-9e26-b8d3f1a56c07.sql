@@ -0,0 +1,10 @@
+-- Leftovers and cooked meals are tracked next to groceries. For leftovers,
+-- purchase_date is the day they were cooked and quantity counts portions.
+CREATE TYPE public.item_kind AS ENUM ('grocery', 'leftover');
+
+ALTER TABLE public.food_items
+  ADD COLUMN kind public.item_kind NOT NULL DEFAULT 'grocery',
+  -- Ingredient items a leftover was cooked from
+  ADD COLUMN made_from uuid[] NOT NULL DEFAULT '{}';
+
+CREATE INDEX idx_food_items_kind ON public.food_items(kind);
@@ -0,0 +1,59 @@
+-- Why an entry is on the shopping list
+CREATE TYPE public.shopping_list_source AS ENUM ('manual', 'consumed', 'low_stock');
+
+-- Things to buy. Household entries are one list shared by every member,
+-- like household food items; checked entries become food items once bought.
+CREATE TABLE public.shopping_list_items (
+  id uuid NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  user_id uuid NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  household_id uuid REFERENCES public.households(id) ON DELETE CASCADE,
+  name text NOT NULL CHECK (length(trim(name)) > 0),
+  category text NOT NULL DEFAULT 'Other',
+  quantity integer NOT NULL DEFAULT 1 CHECK (quantity > 0),
+  source public.shopping_list_source NOT NULL DEFAULT 'manual',
+  is_checked boolean NOT NULL DEFAULT false,
+  checked_at timestamp with time zone,
+  created_at timestamp with time zone NOT NULL DEFAULT now(),
+  updated_at timestamp with time zone NOT NULL DEFAULT now()
+);
+
+CREATE INDEX idx_shopping_list_items_user_id ON public.shopping_list_items(user_id);
+CREATE INDEX idx_shopping_list_items_household_id ON public.shopping_list_items(household_id);
+
+-- Enable RLS
+ALTER TABLE public.shopping_list_items ENABLE ROW LEVEL SECURITY;
+
+-- Same visibility rules as food_items
+CREATE POLICY "Users can view own and household shopping list items"
+  ON public.shopping_list_items FOR SELECT
+  USING (
+    (household_id IS NULL AND auth.uid() = user_id)
+    OR (household_id IS NOT NULL AND public.is_household_member(household_id))
+  );
+
+CREATE POLICY "Users can insert own and household shopping list items"
+  ON public.shopping_list_items FOR INSERT
+  WITH CHECK (
+    auth.uid() = user_id
+    AND (household_id IS NULL OR public.can_edit_household(household_id))
+  );
+
+CREATE POLICY "Users can update own and household shopping list items"
+  ON public.shopping_list_items FOR UPDATE
+  USING (
+    (household_id IS NULL AND auth.uid() = user_id)
+    OR (household_id IS NOT NULL AND public.can_edit_household(household_id))
+  );
+
+CREATE POLICY "Users can delete own and household shopping list items"
+  ON public.shopping_list_items FOR DELETE
+  USING (
+    (household_id IS NULL AND auth.uid() = user_id)
+    OR (household_id IS NOT NULL AND public.can_edit_household(household_id))
+  );
+
+-- Trigger for automatic timestamp updates
+CREATE TRIGGER update_shopping_list_items_updated_at
+  BEFORE UPDATE ON public.shopping_list_items
+  FOR EACH ROW
+  EXECUTE FUNCTION public.update_updated_at_column();
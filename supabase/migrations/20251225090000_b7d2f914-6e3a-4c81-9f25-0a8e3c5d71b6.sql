@@ -0,0 +1,57 @@
+-- How much of a product to always keep, e.g. 2 cartons of milk or 12 eggs.
+-- `name` is matched against item names like an expiry rule keyword, and
+-- `quantity` is a count, compared with food_items.quantity as it is.
+CREATE TABLE public.par_levels (
+  id uuid NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  user_id uuid NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  household_id uuid REFERENCES public.households(id) ON DELETE CASCADE,
+  name text NOT NULL CHECK (length(trim(name)) > 0),
+  quantity integer NOT NULL CHECK (quantity > 0),
+  -- Send a restock notification when stock falls below the par level
+  notify boolean NOT NULL DEFAULT false,
+  created_at timestamp with time zone NOT NULL DEFAULT now(),
+  updated_at timestamp with time zone NOT NULL DEFAULT now()
+);
+
+-- One par level per product for each household, or for each user outside one
+CREATE UNIQUE INDEX idx_par_levels_owner_name
+  ON public.par_levels(coalesce(household_id, user_id), lower(trim(name)));
+CREATE INDEX idx_par_levels_household_id ON public.par_levels(household_id);
+
+-- Enable RLS
+ALTER TABLE public.par_levels ENABLE ROW LEVEL SECURITY;
+
+-- Same visibility rules as food_items
+CREATE POLICY "Users can view own and household par levels"
+  ON public.par_levels FOR SELECT
+  USING (
+    (household_id IS NULL AND auth.uid() = user_id)
+    OR (household_id IS NOT NULL AND public.is_household_member(household_id))
+  );
+
+CREATE POLICY "Users can insert own and household par levels"
+  ON public.par_levels FOR INSERT
+  WITH CHECK (
+    auth.uid() = user_id
+    AND (household_id IS NULL OR public.can_edit_household(household_id))
+  );
+
+CREATE POLICY "Users can update own and household par levels"
+  ON public.par_levels FOR UPDATE
+  USING (
+    (household_id IS NULL AND auth.uid() = user_id)
+    OR (household_id IS NOT NULL AND public.can_edit_household(household_id))
+  );
+
+CREATE POLICY "Users can delete own and household par levels"
+  ON public.par_levels FOR DELETE
+  USING (
+    (household_id IS NULL AND auth.uid() = user_id)
+    OR (household_id IS NOT NULL AND public.can_edit_household(household_id))
+  );
+
+-- Trigger for automatic timestamp updates
+CREATE TRIGGER update_par_levels_updated_at
+  BEFORE UPDATE ON public.par_levels
+  FOR EACH ROW
+  EXECUTE FUNCTION public.update_updated_at_column();
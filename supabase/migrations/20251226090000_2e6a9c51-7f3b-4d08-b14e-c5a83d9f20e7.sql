@@ -0,0 +1,37 @@
+-- Role changes must keep the member in a household the updater owns
+DROP POLICY "Owners can change member roles" ON public.household_members;
+
+CREATE POLICY "Owners can change member roles"
+  ON public.household_members FOR UPDATE
+  USING (public.get_household_role(household_id) = 'owner')
+  WITH CHECK (public.get_household_role(household_id) = 'owner');
+
+-- A household with members always keeps at least one owner, however the last
+-- owner would go: demoted, removed or moved. Deleting the household itself is fine.
+CREATE OR REPLACE FUNCTION public.ensure_household_has_owner()
+RETURNS trigger AS $$
+BEGIN
+  IF OLD.role <> 'owner'
+    OR (TG_OP = 'UPDATE' AND NEW.role = 'owner' AND NEW.household_id = OLD.household_id)
+  THEN
+    RETURN NULL;
+  END IF;
+
+  IF EXISTS (SELECT 1 FROM public.households WHERE id = OLD.household_id)
+    AND EXISTS (SELECT 1 FROM public.household_members WHERE household_id = OLD.household_id)
+    AND NOT EXISTS (
+      SELECT 1 FROM public.household_members
+      WHERE household_id = OLD.household_id AND role = 'owner'
+    )
+  THEN
+    RAISE EXCEPTION 'A household needs at least one owner. Make another member an owner first.';
+  END IF;
+
+  RETURN NULL;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+CREATE TRIGGER ensure_household_has_owner
+  AFTER UPDATE OR DELETE ON public.household_members
+  FOR EACH ROW
+  EXECUTE FUNCTION public.ensure_household_has_owner();
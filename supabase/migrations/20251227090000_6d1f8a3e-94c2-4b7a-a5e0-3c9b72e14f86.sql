@@ -0,0 +1,73 @@
+-- The shared catalog row stays with whoever taught it: updates must keep them
+-- as its creator, so nobody can take over or rewrite someone else's product.
+DROP POLICY "Users can update products they added" ON public.products;
+
+CREATE POLICY "Users can update products they added"
+  ON public.products FOR UPDATE
+  TO authenticated
+  USING (auth.uid() = created_by)
+  WITH CHECK (auth.uid() = created_by);
+
+-- Everyone else corrects a product for their own household (or just for
+-- themselves outside one). A correction takes precedence over the shared row
+-- when its owners scan the code, and leaves it alone for everybody else.
+CREATE TABLE public.product_corrections (
+  id uuid NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  gtin text NOT NULL REFERENCES public.products(gtin) ON DELETE CASCADE,
+  user_id uuid NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  household_id uuid REFERENCES public.households(id) ON DELETE CASCADE,
+  name text NOT NULL CHECK (length(trim(name)) > 0),
+  brand text,
+  category text NOT NULL DEFAULT 'Other',
+  shelf_life_days integer CHECK (shelf_life_days IS NULL OR shelf_life_days > 0),
+  image_url text,
+  created_at timestamp with time zone NOT NULL DEFAULT now(),
+  updated_at timestamp with time zone NOT NULL DEFAULT now()
+);
+
+-- One correction per product for each household, or for each user outside one
+CREATE UNIQUE INDEX idx_product_corrections_owner_gtin
+  ON public.product_corrections(coalesce(household_id, user_id), gtin);
+CREATE INDEX idx_product_corrections_household_id ON public.product_corrections(household_id);
+
+-- Enable RLS
+ALTER TABLE public.product_corrections ENABLE ROW LEVEL SECURITY;
+
+-- Same visibility rules as food_items
+CREATE POLICY "Users can view own and household product corrections"
+  ON public.product_corrections FOR SELECT
+  USING (
+    (household_id IS NULL AND auth.uid() = user_id)
+    OR (household_id IS NOT NULL AND public.is_household_member(household_id))
+  );
+
+CREATE POLICY "Users can insert own and household product corrections"
+  ON public.product_corrections FOR INSERT
+  WITH CHECK (
+    auth.uid() = user_id
+    AND (household_id IS NULL OR public.can_edit_household(household_id))
+  );
+
+CREATE POLICY "Users can update own and household product corrections"
+  ON public.product_corrections FOR UPDATE
+  USING (
+    (household_id IS NULL AND auth.uid() = user_id)
+    OR (household_id IS NOT NULL AND public.can_edit_household(household_id))
+  )
+  WITH CHECK (
+    (household_id IS NULL AND auth.uid() = user_id)
+    OR (household_id IS NOT NULL AND public.can_edit_household(household_id))
+  );
+
+CREATE POLICY "Users can delete own and household product corrections"
+  ON public.product_corrections FOR DELETE
+  USING (
+    (household_id IS NULL AND auth.uid() = user_id)
+    OR (household_id IS NOT NULL AND public.can_edit_household(household_id))
+  );
+
+-- Trigger for automatic timestamp updates
+CREATE TRIGGER update_product_corrections_updated_at
+  BEFORE UPDATE ON public.product_corrections
+  FOR EACH ROW
+  EXECUTE FUNCTION public.update_updated_at_column();
@@ -0,0 +1,26 @@
+-- Moves bought shopping list entries into food_items in one transaction, so
+-- an entry only leaves the list when its item has been saved. Runs with the
+-- caller's rights: the usual RLS decides which entries and items they may touch.
+CREATE OR REPLACE FUNCTION public.purchase_shopping_list_items(_entry_ids uuid[], _items jsonb)
+RETURNS SETOF public.food_items AS $$
+DECLARE
+  _removed integer;
+BEGIN
+  DELETE FROM public.shopping_list_items WHERE id = ANY(_entry_ids);
+  GET DIAGNOSTICS _removed = ROW_COUNT;
+  IF _removed <> cardinality(_entry_ids) THEN
+    RAISE EXCEPTION 'Some of these entries are no longer on the list';
+  END IF;
+
+  RETURN QUERY
+  INSERT INTO public.food_items (
+    user_id, household_id, name, category, purchase_date, expiry_date,
+    quantity, currency, storage_location
+  )
+  SELECT
+    auth.uid(), item.household_id, item.name, item.category, item.purchase_date, item.expiry_date,
+    item.quantity, item.currency, item.storage_location
+  FROM jsonb_populate_recordset(NULL::public.food_items, _items) AS item
+  RETURNING *;
+END;
+$$ LANGUAGE plpgsql SET search_path = public;
@@ -0,0 +1,7 @@
+-- Members leave through leave_household(), which hands items back and removes
+-- an emptied household. Deleting one's own row directly would skip both.
+DROP POLICY "Members can leave and owners can remove members" ON public.household_members;
+
+CREATE POLICY "Owners can remove other members"
+  ON public.household_members FOR DELETE
+  USING (auth.uid() <> user_id AND public.get_household_role(household_id) = 'owner');
@@ -0,0 +1,42 @@
+-- Joining a household also moves the user's personal par levels, shopping list
+-- entries and custom expiry rules into it, like their items. A par level for a
+-- product the household already keeps stays personal.
+CREATE OR REPLACE FUNCTION public.add_current_user_to_household(_household_id uuid, _role public.household_role)
+RETURNS void AS $$
+BEGIN
+  IF EXISTS (SELECT 1 FROM public.household_members WHERE user_id = auth.uid()) THEN
+    RAISE EXCEPTION 'You already belong to a household. Leave it first.';
+  END IF;
+
+  INSERT INTO public.household_members (household_id, user_id, role, email, display_name)
+  VALUES (
+    _household_id,
+    auth.uid(),
+    _role,
+    auth.jwt() ->> 'email',
+    auth.jwt() -> 'user_metadata' ->> 'display_name'
+  );
+
+  UPDATE public.food_items
+  SET household_id = _household_id
+  WHERE user_id = auth.uid() AND household_id IS NULL;
+
+  UPDATE public.par_levels AS mine
+  SET household_id = _household_id
+  WHERE mine.user_id = auth.uid() AND mine.household_id IS NULL
+    AND NOT EXISTS (
+      SELECT 1 FROM public.par_levels AS theirs
+      WHERE theirs.household_id = _household_id AND lower(trim(theirs.name)) = lower(trim(mine.name))
+    );
+
+  UPDATE public.shopping_list_items
+  SET household_id = _household_id
+  WHERE user_id = auth.uid() AND household_id IS NULL;
+
+  UPDATE public.custom_expiry_rules
+  SET household_id = _household_id
+  WHERE user_id = auth.uid() AND household_id IS NULL;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+REVOKE EXECUTE ON FUNCTION public.add_current_user_to_household(uuid, public.household_role) FROM PUBLIC, anon, authenticated;
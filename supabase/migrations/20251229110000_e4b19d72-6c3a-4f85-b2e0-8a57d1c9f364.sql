@@ -0,0 +1,10 @@
+-- The app records the reminders it shows in-app here too, so a user's devices
+-- share one record and each reminder reaches them once, not once per device.
+-- Other channels stay with the service role.
+CREATE POLICY "Users can view their own in-app reminders"
+  ON public.sent_reminders FOR SELECT
+  USING (auth.uid() = user_id AND channel = 'in_app');
+
+CREATE POLICY "Users can record their own in-app reminders"
+  ON public.sent_reminders FOR INSERT
+  WITH CHECK (auth.uid() = user_id AND channel = 'in_app');
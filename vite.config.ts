@@ -1,18 +1,47 @@
-import { defineConfig } from "vite";
+import { defineConfig, Plugin } from "vite";
 import react from "@vitejs/plugin-react-swc";
 import path from "path";
+import fs from "fs";
 import { componentTagger } from "lovable-tagger";
 
+// Tesseract worker, wasm core and trained language data, served from our own
+// origin so receipt OCR works without a CDN and the service worker can cache it.
+const ocrAssets: Record<string, string> = {
+  "tesseract/worker.min.js": "node_modules/tesseract.js/dist/worker.min.js",
+  "tesseract/core/tesseract-core-lstm.wasm.js": "node_modules/tesseract.js-core/tesseract-core-lstm.wasm.js",
+  "tesseract/core/tesseract-core-simd-lstm.wasm.js": "node_modules/tesseract.js-core/tesseract-core-simd-lstm.wasm.js",
+  "tesseract/lang/eng.traineddata.gz": "node_modules/@tesseract.js-data/eng/4.0.0_best_int/eng.traineddata.gz",
+  "tesseract/lang/hin.traineddata.gz": "node_modules/@tesseract.js-data/hin/4.0.0_best_int/hin.traineddata.gz",
+};
+
+const ocrAssetsPlugin = (): Plugin => ({
+  name: "ocr-assets",
+  configureServer(server) {
+    server.middlewares.use((req, res, next) => {
+      const source = ocrAssets[(req.url || "").split("?")[0].replace(/^\//, "")];
+      if (!source) return next();
+      res.setHeader("Content-Type", source.endsWith(".js") ? "text/javascript" : "application/octet-stream");
+      fs.createReadStream(path.resolve(__dirname, source)).pipe(res);
+    });
+  },
+  generateBundle() {
+    Object.entries(ocrAssets).forEach(([fileName, source]) => {
+      this.emitFile({ type: "asset", fileName, source: fs.readFileSync(path.resolve(__dirname, source)) });
+    });
+  },
+});
+
 // https://vitejs.dev/config/
 export default defineConfig(({ mode }) => ({
   server: {
     host: "::",
     port: 8080,
   },
-  plugins: [react(), mode === "development" && componentTagger()].filter(Boolean),
+  plugins: [react(), ocrAssetsPlugin(), mode === "development" && componentTagger()].filter(Boolean),
   resolve: {
     alias: {
       "@": path.resolve(__dirname, "./src"),
+      "@shared": path.resolve(__dirname, "./supabase/functions/_shared"),
     },
   },
 }));